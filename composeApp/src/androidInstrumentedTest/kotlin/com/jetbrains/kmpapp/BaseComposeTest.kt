@@ -6,6 +6,8 @@ import org.junit.After
 import org.junit.Before
 import org.junit.Rule
 import org.junit.rules.TestName
+import org.junit.rules.TestWatcher
+import org.junit.runner.Description
 import java.io.File
 
 /**
@@ -15,6 +17,7 @@ import java.io.File
  * - Compose test rule
  * - Test name rule
  * - Video recording setup/teardown
+ * - Step markers in logcat, which the test runner uses to label the frames of the recording
  * 
  * Override [setUp] and [tearDown] if you need additional setup/cleanup logic.
  */
@@ -26,6 +29,14 @@ abstract class BaseComposeTest {
     @get:Rule
     val testName = TestName()
 
+    @get:Rule
+    val failureMarker = object : TestWatcher() {
+        override fun failed(e: Throwable, description: Description) {
+            val message = e.message?.lineSequence()?.firstOrNull() ?: e.javaClass.simpleName
+            android.util.Log.i(STEP_TAG, "failed ${description.className}#${description.methodName}: $message")
+        }
+    }
+
     private var videoFile: File? = null
 
     @Before
@@ -46,9 +57,8 @@ abstract class BaseComposeTest {
             // Get external files directory
             val externalFilesDir = context.getExternalFilesDir(null) ?: return
 
-            // Generate filename with test name
-            val testMethodName = testName.methodName
-            videoFile = File(externalFilesDir, "screenrecord_${testMethodName}.mp4")
+            // Name the file by class and method, as tests in different classes may share a method name
+            videoFile = File(externalFilesDir, "screenrecord_${testId()}.mp4")
             
             // Delete existing file if it exists to allow overwriting
             if (videoFile!!.exists()) {
@@ -58,6 +68,7 @@ abstract class BaseComposeTest {
             // Start recording using adb shell screenrecord
             // Note: screenrecord has a default 3-minute limit which is plenty for a test
             instrumentation.uiAutomation.executeShellCommand("screenrecord ${videoFile!!.absolutePath}")
+            android.util.Log.i(STEP_TAG, "recording ${testId()}")
         } catch (e: Exception) {
             android.util.Log.e(getLogTag(), "Failed to start video recording", e)
         }
@@ -82,8 +93,23 @@ abstract class BaseComposeTest {
         }
     }
 
+    /**
+     * Marks the start of a test step, e.g. `step("Open the detail screen")`.
+     * Frames of the recording are labelled with the step running when they were shown.
+     */
+    protected fun step(title: String) {
+        android.util.Log.i(STEP_TAG, "step ${testId()}: $title")
+    }
+
+    private fun testId(): String = "${this::class.java.name}#${testName.methodName}"
+
     /**
      * Returns the log tag for this test class. Override if you want a custom tag.
      */
     protected open fun getLogTag(): String = this::class.simpleName ?: "BaseComposeTest"
+
+    companion object {
+        /** Logcat tag of the recording, step and failure markers the test runner reads */
+        const val STEP_TAG = "TestStep"
+    }
 }
@@ -13,6 +13,7 @@ class MapExampleTest : BaseComposeTest() {
 
     @Test
     fun testMapExampleDisplaysAllElements() {
+        step("Show the map example")
         composeTestRule.setContent {
             MapExample()
         }
@@ -21,6 +22,7 @@ class MapExampleTest : BaseComposeTest() {
             .assertIsDisplayed()
 
         // Wait for the map to be displayed (GoogleMap loads asynchronously)
+        step("Wait for the map")
         composeTestRule.waitUntil(5000) {
             try {
                 composeTestRule.onNodeWithTag("map_view")
@@ -0,0 +1,563 @@
+/**
+ * Tests for rebrand.ts, run against small template-like project trees in a
+ * temp directory.
+ *
+ * Usage: npx tsx --test rebrand.test.ts
+ */
+
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import {
+  detectIdentity,
+  rebrand,
+  type RebrandLogger,
+  rollback,
+  TEMPLATE_IDENTITY,
+  unifiedDiff,
+  verify,
+} from "./rebrand";
+
+const silent: RebrandLogger = { log: () => {}, warn: () => {}, error: () => {} };
+
+const KOTLIN_DIR = "composeApp/src/commonMain/kotlin";
+
+function hasCommand(command: string): boolean {
+  try {
+    execFileSync(command, ["-version"], { stdio: "ignore" });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Minimal project carrying every identity value of the KMP template. */
+const TEMPLATE_FILES: Record<string, string> = {
+  "settings.gradle.kts": 'rootProject.name = "KMP-App-Template"\ninclude(":composeApp")\n',
+  "composeApp/build.gradle.kts": [
+    "android {",
+    '    namespace = "com.jetbrains.kmpapp"',
+    "    defaultConfig {",
+    '        applicationId = "com.jetbrains.kmpapp"',
+    "    }",
+    "}",
+    "",
+  ].join("\n"),
+  "composeApp/src/androidMain/res/values/strings.xml":
+    '<resources>\n    <string name="app_name">KMP App</string>\n</resources>\n',
+  [`${KOTLIN_DIR}/com/jetbrains/kmpapp/App.kt`]: [
+    "package com.jetbrains.kmpapp",
+    "",
+    "import com.jetbrains.kmpapp.screens.ListScreen",
+    "import kmp_app_template.composeapp.generated.resources.Res",
+    "",
+    "// Ships as com.jetbrains.kmpapp2 on the legacy track",
+    "fun App() = ListScreen()",
+    "",
+  ].join("\n"),
+  [`${KOTLIN_DIR}/com/jetbrains/kmpapp/screens/ListScreen.kt`]:
+    "package com.jetbrains.kmpapp.screens\n\nfun ListScreen() {}\n",
+  "iosApp/Configuration/Config.xcconfig":
+    "TEAM_ID=\nBUNDLE_ID=com.jetbrains.kmpapp.KMP-App-Template\nAPP_NAME=KMP App",
+  "iosApp/iosApp/Info.plist": [
+    "<plist>",
+    "<dict>",
+    "\t<key>CFBundleDevelopmentRegion</key>",
+    "\t<string>$(DEVELOPMENT_LANGUAGE)</string>",
+    "</dict>",
+    "</plist>",
+    "",
+  ].join("\n"),
+  "README.md": "# KMP-App-Template\n",
+};
+
+function writeTree(root: string, files: Record<string, string>): void {
+  for (const [rel, content] of Object.entries(files)) {
+    const full = path.join(root, rel);
+    fs.mkdirSync(path.dirname(full), { recursive: true });
+    fs.writeFileSync(full, content);
+  }
+}
+
+/** Every file under `root` (except the journal) with its content, keyed by relative path. */
+function readTree(root: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  const walk = (dir: string): void => {
+    for (const e of fs.readdirSync(dir, { withFileTypes: true })) {
+      const full = path.join(dir, e.name);
+      const rel = path.relative(root, full).replace(/\\/g, "/");
+      if (rel === ".rebrand") continue;
+      if (e.isDirectory()) walk(full);
+      else out[rel] = fs.readFileSync(full, "utf8");
+    }
+  };
+  walk(root);
+  return out;
+}
+
+function read(root: string, rel: string): string {
+  return fs.readFileSync(path.join(root, rel), "utf8");
+}
+
+describe("rebrand", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "rebrand-test-"));
+    writeTree(root, TEMPLATE_FILES);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("detects the template identity", () => {
+    assert.deepEqual(detectIdentity(root, { logger: silent }), TEMPLATE_IDENTITY);
+  });
+
+  it("rewrites identity values and moves package directories", () => {
+    const result = rebrand({
+      root,
+      to: { packageName: "com.acme.shop", projectName: "Acme-Shop" },
+      logger: silent,
+    });
+
+    assert.deepEqual(result.from, TEMPLATE_IDENTITY);
+    assert.equal(result.to.displayName, "Acme Shop");
+    assert.equal(result.to.resPackagePrefix, "acme_shop");
+    assert.deepEqual(result.dirsMoved, [
+      {
+        base: KOTLIN_DIR,
+        from: `${KOTLIN_DIR}/com/jetbrains/kmpapp`,
+        to: `${KOTLIN_DIR}/com/acme/shop`,
+      },
+    ]);
+    assert.deepEqual(result.filesChanged, [
+      "composeApp/build.gradle.kts",
+      "composeApp/src/androidMain/res/values/strings.xml",
+      `${KOTLIN_DIR}/com/jetbrains/kmpapp/App.kt`,
+      `${KOTLIN_DIR}/com/jetbrains/kmpapp/screens/ListScreen.kt`,
+      "iosApp/Configuration/Config.xcconfig",
+      "iosApp/iosApp/Info.plist",
+      "settings.gradle.kts",
+    ]);
+
+    const app = read(root, `${KOTLIN_DIR}/com/acme/shop/App.kt`);
+    assert.match(app, /^package com\.acme\.shop$/m);
+    assert.match(app, /^import com\.acme\.shop\.screens\.ListScreen$/m);
+    assert.match(app, /^import acme_shop\.composeapp\.generated\.resources\.Res$/m);
+    assert.match(read(root, "composeApp/build.gradle.kts"), /applicationId = "com\.acme\.shop"/);
+    assert.match(read(root, "settings.gradle.kts"), /rootProject\.name = "Acme-Shop"/);
+    assert.equal(
+      read(root, "iosApp/Configuration/Config.xcconfig"),
+      "TEAM_ID=\nBUNDLE_ID=com.acme.shop\nAPP_NAME=Acme Shop"
+    );
+    assert.match(
+      read(root, "iosApp/iosApp/Info.plist"),
+      /<key>CFBundleDisplayName<\/key>\n\t<string>Acme Shop<\/string>/
+    );
+    assert.ok(!fs.existsSync(path.join(root, `${KOTLIN_DIR}/com/jetbrains`)));
+
+    assert.deepEqual(detectIdentity(root, { logger: silent }), result.to);
+    // Only the README prose still names the template
+    assert.deepEqual(
+      verify({ root, logger: silent }).issues.map((i) => `${i.check} ${i.file}`),
+      ["leftover README.md"]
+    );
+  });
+
+  it("rewrites applicationId literals to a distinct applicationId", () => {
+    writeTree(root, {
+      "composeApp/build.gradle.kts": [
+        "android {",
+        '    namespace = "com.jetbrains.kmpapp"',
+        "    defaultConfig {",
+        '        applicationId = "com.jetbrains.kmpapp"',
+        "    }",
+        "}",
+        "",
+        'val appId = android.defaultConfig.applicationId ?: "com.jetbrains.kmpapp"',
+        "",
+      ].join("\n"),
+    });
+    rebrand({
+      root,
+      to: { packageName: "com.acme.shop", projectName: "Acme-Shop", applicationId: "com.acme.shopper" },
+      logger: silent,
+    });
+
+    const gradle = read(root, "composeApp/build.gradle.kts");
+    assert.match(gradle, /namespace = "com\.acme\.shop"/);
+    assert.match(gradle, /applicationId = "com\.acme\.shopper"/);
+    assert.match(gradle, /applicationId \?: "com\.acme\.shopper"/);
+  });
+
+  it("moves packages in every source set of every included module", () => {
+    writeTree(root, {
+      "settings.gradle.kts": [
+        'rootProject.name = "KMP-App-Template"',
+        'include(":composeApp", ":shared")',
+        'include(":libs:core")',
+        'project(":libs:core").projectDir = file("core")',
+        "",
+      ].join("\n"),
+      "composeApp/src/commonTest/kotlin/com/jetbrains/kmpapp/AppTest.kt":
+        "package com.jetbrains.kmpapp\n",
+      "shared/src/jvmMain/kotlin/com/jetbrains/kmpapp/Jvm.kt": "package com.jetbrains.kmpapp\n",
+      "core/src/main/java/com/jetbrains/kmpapp/Core.java": "package com.jetbrains.kmpapp;\n",
+      "unlisted/src/main/kotlin/com/jetbrains/kmpapp/Unlisted.kt": "package com.jetbrains.kmpapp\n",
+    });
+
+    const result = rebrand({
+      root,
+      to: { packageName: "com.acme.shop", projectName: "Acme-Shop" },
+      logger: silent,
+    });
+
+    assert.deepEqual(
+      result.dirsMoved.map((m) => m.base),
+      [
+        "composeApp/src/commonMain/kotlin",
+        "composeApp/src/commonTest/kotlin",
+        "core/src/main/java",
+        "shared/src/jvmMain/kotlin",
+      ]
+    );
+    assert.equal(
+      read(root, "core/src/main/java/com/acme/shop/Core.java"),
+      "package com.acme.shop;\n"
+    );
+    assert.ok(fs.existsSync(path.join(root, "shared/src/jvmMain/kotlin/com/acme/shop/Jvm.kt")));
+    assert.ok(
+      fs.existsSync(path.join(root, "unlisted/src/main/kotlin/com/jetbrains/kmpapp/Unlisted.kt"))
+    );
+  });
+
+  it("leaves longer names and prose alone", () => {
+    const result = rebrand({
+      root,
+      to: { packageName: "com.acme.shop", projectName: "Acme-Shop" },
+      logger: silent,
+    });
+
+    const app = read(root, `${KOTLIN_DIR}/com/acme/shop/App.kt`);
+    assert.match(app, /com\.jetbrains\.kmpapp2/);
+    assert.equal(read(root, "README.md"), TEMPLATE_FILES["README.md"]);
+    assert.deepEqual(
+      result.leftovers.map((l) => `${l.file}:${l.line} ${l.kind}`),
+      ["README.md:1 projectName"]
+    );
+  });
+
+  it("escapes display names for XML and Android string resources", () => {
+    rebrand({
+      root,
+      to: { packageName: "com.acme.shop", projectName: "Acme-Shop", displayName: "Bob's <Shop>" },
+      logger: silent,
+    });
+
+    assert.match(
+      read(root, "composeApp/src/androidMain/res/values/strings.xml"),
+      /<string name="app_name">Bob\\'s &lt;Shop&gt;<\/string>/
+    );
+    assert.match(read(root, "iosApp/iosApp/Info.plist"), /<string>Bob's &lt;Shop&gt;<\/string>/);
+  });
+
+  it("writes nothing in a dry run and returns the planned changes", () => {
+    const before = readTree(root);
+    const result = rebrand({
+      root,
+      to: { packageName: "com.acme.shop", projectName: "Acme-Shop" },
+      logger: silent,
+      dryRun: true,
+    });
+
+    assert.deepEqual(readTree(root), before);
+    assert.ok(!fs.existsSync(path.join(root, ".rebrand")));
+    assert.equal(result.filesChanged.length, 7);
+    assert.equal(result.dirsMoved.length, 1);
+    assert.match(result.diff ?? "", /^-package com\.jetbrains\.kmpapp$/m);
+    assert.match(result.diff ?? "", /^\+package com\.acme\.shop$/m);
+  });
+
+  it("rolls back to the original tree", () => {
+    const before = readTree(root);
+    rebrand({
+      root,
+      to: { packageName: "com.acme.shop", projectName: "Acme-Shop" },
+      logger: silent,
+    });
+    rollback({ root, logger: silent });
+
+    assert.deepEqual(readTree(root), before);
+    assert.ok(!fs.existsSync(path.join(root, ".rebrand")));
+    assert.ok(!fs.existsSync(path.join(root, `${KOTLIN_DIR}/com/acme`)));
+  });
+
+  it("rolls back on its own when a step fails", () => {
+    // A file where the new package directory has to go makes the move fail
+    writeTree(root, { [`${KOTLIN_DIR}/com/acme`]: "in the way\n" });
+    const before = readTree(root);
+
+    assert.throws(
+      () =>
+        rebrand({
+          root,
+          to: { packageName: "com.acme.shop", projectName: "Acme-Shop" },
+          logger: silent,
+        }),
+      /Rebrand failed and was rolled back/
+    );
+    assert.deepEqual(readTree(root), before);
+  });
+
+  it("rebrands an already rebranded project", () => {
+    rebrand({
+      root,
+      to: { packageName: "com.pistachio.app", projectName: "Pistachio" },
+      logger: silent,
+    });
+    const result = rebrand({
+      root,
+      to: { packageName: "com.acme.shop", projectName: "Acme-Shop" },
+      logger: silent,
+    });
+
+    assert.equal(result.from.packageName, "com.pistachio.app");
+    assert.match(read(root, `${KOTLIN_DIR}/com/acme/shop/App.kt`), /^package com\.acme\.shop$/m);
+    assert.ok(!fs.existsSync(path.join(root, `${KOTLIN_DIR}/com/pistachio`)));
+  });
+
+  it("honours the given skip patterns", () => {
+    const result = rebrand({
+      root,
+      to: { packageName: "com.acme.shop", projectName: "Acme-Shop" },
+      skipPatterns: [/^iosApp\//],
+      logger: silent,
+    });
+
+    assert.ok(!result.filesChanged.some((f) => f.startsWith("iosApp/")));
+    assert.equal(
+      read(root, "iosApp/Configuration/Config.xcconfig"),
+      TEMPLATE_FILES["iosApp/Configuration/Config.xcconfig"]
+    );
+    assert.match(read(root, "composeApp/build.gradle.kts"), /applicationId = "com\.acme\.shop"/);
+  });
+
+  it("leaves ignored paths and binary files alone", () => {
+    const binary = Buffer.concat([Buffer.from("package com.jetbrains.kmpapp\n"), Buffer.from([0, 1, 2])]);
+    writeTree(root, {
+      ".gitignore": "/local.properties\n.idea\n**/generated/\n",
+      ".rcloneignore": "node_modules/**\n",
+      "composeApp/.gitignore": "*.log\n!keep.log\n",
+      "local.properties": "applicationId=com.jetbrains.kmpapp\n",
+      ".idea/workspace.xml": '<project name="KMP-App-Template"/>\n',
+      "node_modules/pkg/App.kt": "package com.jetbrains.kmpapp\n",
+      "composeApp/generated/Gen.kt": "package com.jetbrains.kmpapp\n",
+      "composeApp/run.log": '<log name="KMP-App-Template"/>\n',
+      "composeApp/keep.log": '<log name="KMP-App-Template"/>\n',
+    });
+    fs.writeFileSync(path.join(root, "composeApp/data.kt"), binary);
+
+    const result = rebrand({
+      root,
+      to: { packageName: "com.acme.shop", projectName: "Acme-Shop" },
+      logger: silent,
+    });
+
+    assert.equal(read(root, "local.properties"), "applicationId=com.jetbrains.kmpapp\n");
+    assert.equal(read(root, ".idea/workspace.xml"), '<project name="KMP-App-Template"/>\n');
+    assert.equal(read(root, "node_modules/pkg/App.kt"), "package com.jetbrains.kmpapp\n");
+    assert.equal(read(root, "composeApp/generated/Gen.kt"), "package com.jetbrains.kmpapp\n");
+    assert.ok(fs.readFileSync(path.join(root, "composeApp/data.kt")).equals(binary));
+    assert.deepEqual(
+      result.leftovers.map((l) => l.file),
+      ["README.md", "composeApp/keep.log"]
+    );
+  });
+
+  it("applies --exclude and --include globs over the ignore files", () => {
+    writeTree(root, {
+      ".gitignore": "/generated/\n",
+      "generated/kotlin/Gen.kt": "package com.jetbrains.kmpapp.gen\n",
+      "generated/kotlin/Other.kt": "package com.jetbrains.kmpapp.other\n",
+    });
+
+    const result = rebrand({
+      root,
+      to: { packageName: "com.acme.shop", projectName: "Acme-Shop" },
+      exclude: ["iosApp/", "composeApp/src/**/ListScreen.kt"],
+      include: ["generated/kotlin/Gen.kt"],
+      logger: silent,
+    });
+
+    assert.equal(read(root, "generated/kotlin/Gen.kt"), "package com.acme.shop.gen\n");
+    assert.equal(read(root, "generated/kotlin/Other.kt"), "package com.jetbrains.kmpapp.other\n");
+    assert.ok(!result.filesChanged.some((f) => f.startsWith("iosApp/") || f.endsWith("ListScreen.kt")));
+  });
+
+  it("rejects an invalid identity before touching the tree", () => {
+    const before = readTree(root);
+    assert.throws(
+      () => rebrand({ root, to: { packageName: "acme", projectName: "Acme" }, logger: silent }),
+      /Invalid package name: acme/
+    );
+    assert.throws(
+      () =>
+        rebrand({
+          root,
+          to: { packageName: "com.acme.shop", projectName: "Acme", bundleId: "com.acme_shop" },
+          logger: silent,
+        }),
+      /Invalid bundle ID/
+    );
+    assert.deepEqual(readTree(root), before);
+  });
+});
+
+describe("rebrand icons", () => {
+  let root: string;
+  const to = { packageName: "com.acme.shop", projectName: "Acme-Shop" };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "rebrand-test-"));
+    writeTree(root, {
+      ...TEMPLATE_FILES,
+      "composeApp/src/androidMain/res/drawable-v24/ic_launcher_foreground.xml": "<vector/>\n",
+      "iosApp/iosApp/Assets.xcassets/AppIcon.appiconset/old-icon-180.png": "png",
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  /** The first 24 bytes of a PNG: signature and IHDR with the given size. */
+  function pngHeader(width: number, height: number): Buffer {
+    const header = Buffer.alloc(24);
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header);
+    header.writeUInt32BE(13, 8);
+    header.write("IHDR", 12, "ascii");
+    header.writeUInt32BE(width, 16);
+    header.writeUInt32BE(height, 20);
+    return header;
+  }
+
+  it("rejects a bad background colour or a non-square source before writing", () => {
+    const before = readTree(root);
+    const source = path.join(root, "icon.png");
+    fs.writeFileSync(source, pngHeader(512, 256));
+
+    assert.throws(
+      () => rebrand({ root, to, icon: { source, background: "green" }, logger: silent }),
+      /Invalid icon background colour: green/
+    );
+    assert.throws(
+      () => rebrand({ root, to, icon: { source, background: "#0F0" }, logger: silent }),
+      /Icon source must be square, got 512x256/
+    );
+    fs.rmSync(source);
+    assert.deepEqual(readTree(root), before);
+  });
+
+  it("renders every launcher asset and rolls them back", { skip: !hasCommand("ffmpeg") }, () => {
+    const source = path.join(os.tmpdir(), `rebrand-icon-${process.pid}.png`);
+    execFileSync("ffmpeg", ["-v", "error", "-y", "-f", "lavfi", "-i", "color=c=red:s=256x256", "-frames:v", "1", source]);
+    const before = readTree(root);
+    try {
+      const result = rebrand({ root, to, icon: { source, background: "#3ddc84" }, logger: silent });
+
+      const res = "composeApp/src/androidMain/res";
+      for (const density of ["mdpi", "hdpi", "xhdpi", "xxhdpi", "xxxhdpi"]) {
+        for (const name of ["ic_launcher", "ic_launcher_round", "ic_launcher_foreground"]) {
+          assert.ok(result.filesChanged.includes(`${res}/mipmap-${density}/${name}.png`));
+        }
+      }
+      assert.match(read(root, `${res}/drawable/ic_launcher_background.xml`), /android:fillColor="#3DDC84"/);
+      assert.match(
+        read(root, `${res}/mipmap-anydpi-v26/ic_launcher_round.xml`),
+        /<foreground android:drawable="@mipmap\/ic_launcher_foreground" \/>/
+      );
+      assert.deepEqual(result.filesRemoved, [
+        `${res}/drawable-v24/ic_launcher_foreground.xml`,
+        "iosApp/iosApp/Assets.xcassets/AppIcon.appiconset/old-icon-180.png",
+      ]);
+      const iosIcon = fs.readFileSync(
+        path.join(root, "iosApp/iosApp/Assets.xcassets/AppIcon.appiconset/app-icon-1024.png")
+      );
+      assert.equal(iosIcon.readUInt32BE(16), 1024);
+
+      rollback({ root, logger: silent });
+      assert.deepEqual(readTree(root), before);
+    } finally {
+      fs.rmSync(source, { force: true });
+    }
+  });
+});
+
+describe("verify", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "rebrand-test-"));
+    writeTree(root, TEMPLATE_FILES);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("reports template leftovers as errors", () => {
+    const report = verify({ root, logger: silent });
+    assert.equal(report.ok, false);
+    assert.ok(report.issues.some((i) => i.check === "leftover" && i.file === "README.md"));
+  });
+
+  it("leaves recorded device output in the skills' fixtures alone", () => {
+    const recorded = "INSTRUMENTATION_STATUS: class=com.jetbrains.kmpapp.ListScreenTest\n";
+    writeTree(root, { "skills/run-android-test/fixtures/passing.txt": recorded });
+    rebrand({
+      root,
+      to: { packageName: "com.acme.shop", projectName: "Acme-Shop" },
+      logger: silent,
+    });
+
+    assert.equal(read(root, "skills/run-android-test/fixtures/passing.txt"), recorded);
+    assert.deepEqual(
+      verify({ root, logger: silent }).issues.map((i) => `${i.check} ${i.file}`),
+      ["leftover README.md"]
+    );
+  });
+
+  it("reports a package that does not match its directory", () => {
+    rebrand({
+      root,
+      to: { packageName: "com.acme.shop", projectName: "Acme-Shop" },
+      logger: silent,
+    });
+    writeTree(root, { [`${KOTLIN_DIR}/com/acme/shop/Stray.kt`]: "package com.acme.other\n" });
+
+    const report = verify({ root, logger: silent });
+    assert.equal(report.ok, false);
+    assert.deepEqual(
+      report.issues.filter((i) => i.check !== "leftover").map((i) => `${i.check} ${i.file}`),
+      [`package-path ${KOTLIN_DIR}/com/acme/shop/Stray.kt`]
+    );
+  });
+});
+
+describe("unifiedDiff", () => {
+  it("returns an empty string for identical contents", () => {
+    assert.equal(unifiedDiff("a.txt", "x\n", "x\n"), "");
+  });
+
+  it("marks a missing trailing newline", () => {
+    assert.equal(
+      unifiedDiff("a.txt", "a\nb", "a\nc"),
+      ["--- a/a.txt", "+++ b/a.txt", "@@ -1,2 +1,2 @@", " a", "-b", "\\ No newline at end of file", "+c", "\\ No newline at end of file"].join("\n")
+    );
+  });
+});
@@ -1,184 +1,1855 @@
 #!/usr/bin/env tsx
 /**
  * Rebrand script: replace package name, app name, project name, refactor directories.
- * Run from the project root.
+ * Run from the project root. The current names are detected from the project
+ * files, so an already rebranded project can be rebranded again.
  *
- * Usage: tsx rebrand.ts NEW_PROJECT_NAME NEW_PACKAGE
+ * Usage: tsx rebrand.ts [options] NEW_PROJECT_NAME NEW_PACKAGE
+ *        tsx rebrand.ts --rollback
+ *        tsx rebrand.ts verify [--json]
  *   e.g. tsx rebrand.ts PistachioTemplate com.pistachio.app
+ *        tsx rebrand.ts --display-name "Joe's Café" --bundle-id com.joes.cafe \
+ *          --application-id com.joes.cafe.android JoesCafe com.joes.cafe
+ *
+ * --display-name, --bundle-id and --application-id set the store-facing
+ * names independently of the project name and Kotlin namespace.
+ *
+ * --icon regenerates the launcher icons from one square PNG or SVG on an
+ * --icon-background colour: Android mipmaps for every density (square, round
+ * and adaptive foreground, with the adaptive-icon XML) and the iOS
+ * AppIcon.appiconset with its Contents.json. Images are rendered locally with
+ * ffmpeg (and rsvg-convert for SVG sources).
+ *
+ * Names are replaced as whole tokens and only where they structurally belong
+ * (package/import lines, Gradle strings, xcconfig values, pbxproj settings,
+ * XML attributes). Other occurrences are listed for manual review.
+ *
+ * verify checks that no template identifiers remain, that Kotlin package lines
+ * match their directories and that bundle ID, applicationId and namespace
+ * agree. It exits non-zero on any error; --json prints the report as JSON.
+ *
+ * Files matched by .gitignore (at any level) or the root .rcloneignore are
+ * left alone, as are binary files (a NUL byte in the first 8000 bytes).
+ * --exclude/--include add or override globs; --no-gitignore and
+ * --no-rcloneignore turn the ignore files off.
+ *
+ * --dry-run prints a unified diff of every content change and the planned
+ * directory moves without writing anything to disk.
+ *
+ * All changes are staged in memory first and then applied as one transaction
+ * journaled in .rebrand/; if any step fails the original state is restored.
+ * --rollback undoes the last rebrand using that journal.
+ *
+ * The same operations are exported (rebrand, rollback, verify) for use from
+ * other scripts and tests; the CLI only runs when this file is executed.
  */
 
+import { execFileSync } from "child_process";
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
 
-// --- Config (fixed old values) ---
-const OLD_PACKAGE = "com.jetbrains.kmpapp";
-const OLD_APP_NAME = "KMP App";
-const OLD_PROJECT_NAME = "KMP-App-Template";
-const OLD_RES_PACKAGE_PREFIX = "kmp_app_template";
+/**
+ * The names a project is branded with. appName is the iOS PRODUCT_NAME (the
+ * .app bundle name) and stays filesystem-safe; displayName is what users see
+ * under the icon and may contain any Unicode.
+ */
+export type Identity = {
+  packageName: string;
+  appName: string;
+  projectName: string;
+  resPackagePrefix: string;
+  displayName: string;
+  bundleId: string;
+  applicationId: string;
+};
+
+// --- Config (KMP template values, used when a value cannot be detected) ---
+export const TEMPLATE_IDENTITY: Identity = {
+  packageName: "com.jetbrains.kmpapp",
+  appName: "KMP App",
+  projectName: "KMP-App-Template",
+  resPackagePrefix: "kmp_app_template",
+  displayName: "KMP App",
+  bundleId: "com.jetbrains.kmpapp.KMP-App-Template",
+  applicationId: "com.jetbrains.kmpapp",
+};
+
+// Files the current identity is read from
+const GRADLE_APP_FILE = "composeApp/build.gradle.kts";
+const GRADLE_SETTINGS_FILE = "settings.gradle.kts";
+const XCCONFIG_FILE = "iosApp/Configuration/Config.xcconfig";
+const ANDROID_STRINGS_FILE = "composeApp/src/androidMain/res/values/strings.xml";
+const INFO_PLIST_FILE = "iosApp/iosApp/Info.plist";
+
+// Source directories inside a module's src/<source set>/ that hold package trees
+const SOURCE_SET_LANGUAGES = ["kotlin", "java"];
 
-// Paths/dirs to skip when searching and replacing
-const SKIP_PATTERNS = [
+// Kotlin package / Android applicationId: dot-separated identifiers
+const PACKAGE_RE = /^[a-zA-Z_][a-zA-Z0-9_]*(\.[a-zA-Z_][a-zA-Z0-9_]*)+$/;
+const APPLICATION_ID_RE = /^[a-zA-Z][a-zA-Z0-9_]*(\.[a-zA-Z][a-zA-Z0-9_]*)+$/;
+// iOS CFBundleIdentifier: alphanumerics, hyphens and periods
+const BUNDLE_ID_RE = /^[a-zA-Z0-9-]+(\.[a-zA-Z0-9-]+)+$/;
+
+// Paths/dirs always skipped when searching and replacing (relative, '/'-separated);
+// ignore files and --exclude/--include are applied on top, binaries are sniffed
+export const SKIP_PATTERNS: RegExp[] = [
   /.git(\/|$)/,
   /\/build(\/|$)/,
   /\.gradle(\/|$)/,
   /composeApp\/build(\/|$)/,
-  /\.(png|jpg|jpeg|gif|webp|ico|jar)$/i,
-  /\.xcuserstate$/,
   /\.xcassets(\/|$)/,
   /\/xcuserdata\//,
-  /rebrand\.(sh|ts)$/,
+  /rebrand(\.test)?\.(sh|ts)$/,
+  /^\.rebrand(\/|$)/,
+  // Device output recorded for the runner skills' tests, not project code
+  /^skills\/(.+\/)?fixtures(\/|$)/,
 ];
 
-function shouldSkip(filePath: string, root: string): boolean {
-  const relative = path.relative(root, filePath).replace(/\\/g, "/");
-  return SKIP_PATTERNS.some((re) => re.test(relative));
+/** Which files are looked at, on top of SKIP_PATTERNS. */
+export type WalkOptions = {
+  /** Relative paths never to touch; defaults to SKIP_PATTERNS. */
+  skipPatterns?: RegExp[];
+  /** Honour .gitignore files at every level of the tree (default true). */
+  gitignore?: boolean;
+  /** Honour the root .rcloneignore (default true). */
+  rcloneignore?: boolean;
+  /** Globs (gitignore syntax, relative to root) to leave untouched. */
+  exclude?: string[];
+  /** Globs to look at even when an ignore file or `exclude` matches them. */
+  include?: string[];
+};
+
+/** Where progress and warnings go; console by default. */
+export type RebrandLogger = Pick<Console, "log" | "warn" | "error">;
+
+/** Settings shared by every operation on one project tree. */
+type RebrandContext = {
+  root: string;
+  skipPatterns: RegExp[];
+  logger: RebrandLogger;
+  gitignore: boolean;
+  /** .rcloneignore rules, applied before any .gitignore. */
+  rootRules: GlobRule[];
+  /** --exclude rules, applied after every ignore file. */
+  excludeRules: GlobRule[];
+  includeRules: GlobRule[];
+  /** Effective ignore rules per directory (relative to root), built lazily. */
+  dirRules: Map<string, GlobRule[]>;
+};
+
+function createContext(options: WalkOptions & { root: string; logger?: RebrandLogger }): RebrandContext {
+  const root = path.resolve(options.root);
+  const rclone = (options.rcloneignore ?? true) ? readIfExists(root, ".rcloneignore") : null;
+  return {
+    root,
+    skipPatterns: options.skipPatterns ?? SKIP_PATTERNS,
+    logger: options.logger ?? console,
+    gitignore: options.gitignore ?? true,
+    rootRules: rclone ? parseIgnoreFile(rclone, "", false) : [],
+    excludeRules: (options.exclude ?? []).map((g) => globRule(g, "", true)),
+    includeRules: (options.include ?? []).map((g) => globRule(g, "", true)),
+    dirRules: new Map(),
+  };
+}
+
+// --- Ignore files and globs ---
+
+/**
+ * One line of an ignore file (or an --exclude/--include glob), matched against
+ * paths relative to `base`.
+ */
+type GlobRule = {
+  base: string;
+  re: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+  anchored: boolean;
+  /** Literal leading part of an anchored glob, for pruning directories. */
+  prefix: string;
+};
+
+/** Translate gitignore glob syntax (`*`, `?`, `[...]`, `**`) into a RegExp source. */
+function globToRegExpSource(glob: string): string {
+  let out = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      // "**/" is zero or more directories, any other "**" anything at all
+      if (glob[i + 2] === "/") {
+        out += "(?:.*/)?";
+        i += 2;
+      } else {
+        out += ".*";
+        i += 1;
+      }
+    } else if (c === "*") {
+      out += "[^/]*";
+    } else if (c === "?") {
+      out += "[^/]";
+    } else if (c === "[") {
+      const end = glob.indexOf("]", i + 2);
+      if (end === -1) {
+        out += "\\[";
+        continue;
+      }
+      const set = glob.slice(i + 1, end).replace(/\\/g, "\\\\");
+      out += set.startsWith("!") ? `[^${set.slice(1)}]` : `[${set}]`;
+      i = end;
+    } else if (c === "\\" && i + 1 < glob.length) {
+      out += escapeRegExp(glob[++i]);
+    } else {
+      out += escapeRegExp(c);
+    }
+  }
+  return out;
+}
+
+/**
+ * Compile one glob. `anchorOnSlash` follows gitignore, where a slash anywhere
+ * but at the end anchors the glob to `base`; rclone only anchors on a leading
+ * slash.
+ */
+function globRule(pattern: string, base: string, anchorOnSlash: boolean): GlobRule {
+  let glob = pattern;
+  const negate = glob.startsWith("!");
+  if (negate) glob = glob.slice(1);
+  else if (glob.startsWith("\\!") || glob.startsWith("\\#")) glob = glob.slice(1);
+  let dirOnly = glob.endsWith("/");
+  if (dirOnly) glob = glob.slice(0, -1);
+  // "dir/**" matches everything inside dir, which for walking is dir itself
+  if (glob.endsWith("/**")) {
+    glob = glob.slice(0, -3);
+    dirOnly = true;
+  }
+  const anchored = glob.startsWith("/") || (anchorOnSlash && glob.includes("/"));
+  glob = glob.replace(/^\//, "");
+  const re = new RegExp(`^${anchored ? "" : "(?:.*/)?"}${globToRegExpSource(glob)}(/.*)?$`);
+  const prefix = glob.slice(0, glob.search(/[*?[\\]|$/));
+  return { base, re, negate, dirOnly, anchored, prefix };
+}
+
+function parseIgnoreFile(content: string, base: string, anchorOnSlash: boolean): GlobRule[] {
+  const rules: GlobRule[] = [];
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.replace(/(?<!\\)\s+$/, "");
+    if (line === "" || line.startsWith("#")) continue;
+    rules.push(globRule(line, base, anchorOnSlash));
+  }
+  return rules;
 }
 
-function* walkDir(dir: string, root: string): Generator<string> {
+function globMatches(rule: GlobRule, rel: string, isDir: boolean): boolean {
+  let local = rel;
+  if (rule.base) {
+    if (!rel.startsWith(`${rule.base}/`)) return false;
+    local = rel.slice(rule.base.length + 1);
+  }
+  const m = rule.re.exec(local);
+  // A directory-only glob matches a file only through one of its parents
+  return m !== null && (!rule.dirOnly || isDir || m[1] !== undefined);
+}
+
+/** Ignore rules in effect for entries of directory `dir` (relative to root, "" for root). */
+function rulesFor(dir: string, ctx: RebrandContext): GlobRule[] {
+  const cached = ctx.dirRules.get(dir);
+  if (cached) return cached;
+  const parent = dir === "" ? null : path.posix.dirname(dir) === "." ? "" : path.posix.dirname(dir);
+  const inherited = parent === null ? ctx.rootRules : rulesFor(parent, ctx);
+  const gitignore = ctx.gitignore ? readIfExists(ctx.root, path.join(dir, ".gitignore")) : null;
+  const rules = gitignore ? [...inherited, ...parseIgnoreFile(gitignore, dir, true)] : inherited;
+  ctx.dirRules.set(dir, rules);
+  return rules;
+}
+
+/**
+ * Whether an --include glob matches `rel`, or for a directory could match
+ * something inside it (so an ignored directory is still walked).
+ */
+function isIncluded(rel: string, isDir: boolean, ctx: RebrandContext): boolean {
+  return ctx.includeRules.some(
+    (rule) =>
+      globMatches(rule, rel, isDir) ||
+      (isDir && (!rule.anchored || rule.prefix.startsWith(`${rel}/`) || `${rel}/`.startsWith(rule.prefix)))
+  );
+}
+
+function shouldSkip(filePath: string, ctx: RebrandContext, isDir = false): boolean {
+  const rel = path.relative(ctx.root, filePath).replace(/\\/g, "/");
+  if (ctx.skipPatterns.some((re) => re.test(rel))) return true;
+  const dir = path.posix.dirname(rel) === "." ? "" : path.posix.dirname(rel);
+  let ignored = false;
+  for (const rule of [...rulesFor(dir, ctx), ...ctx.excludeRules]) {
+    if (globMatches(rule, rel, isDir)) ignored = !rule.negate;
+  }
+  return ignored && !isIncluded(rel, isDir, ctx);
+}
+
+function* walkDir(dir: string, ctx: RebrandContext): Generator<string> {
   if (!fs.existsSync(dir)) return;
   const entries = fs.readdirSync(dir, { withFileTypes: true });
   for (const e of entries) {
     const full = path.join(dir, e.name);
-    if (shouldSkip(full, root)) continue;
+    if (shouldSkip(full, ctx, e.isDirectory())) continue;
     if (e.isDirectory()) {
-      yield* walkDir(full, root);
+      yield* walkDir(full, ctx);
     } else if (e.isFile()) {
       yield full;
     }
   }
 }
 
-function filesContaining(root: string, needle: string): string[] {
-  const out: string[] = [];
-  for (const f of walkDir(root, root)) {
+// Leading bytes searched for a NUL to tell binary files from text, as git does
+const BINARY_SNIFF_BYTES = 8000;
+
+/** A file's contents as UTF-8 text, or null when it looks binary. */
+function readText(file: string): string | null {
+  const fd = fs.openSync(file, "r");
+  try {
+    const head = Buffer.alloc(BINARY_SNIFF_BYTES);
+    const read = fs.readSync(fd, head, 0, head.length, 0);
+    if (head.subarray(0, read).includes(0)) return null;
+  } finally {
+    fs.closeSync(fd);
+  }
+  return fs.readFileSync(file, "utf8");
+}
+
+function readIfExists(root: string, rel: string): string | null {
+  const file = path.join(root, rel);
+  return fs.existsSync(file) ? fs.readFileSync(file, "utf8") : null;
+}
+
+/**
+ * Module directories (relative to root) of the projects included in
+ * settings.gradle.kts: `include(":a", ":b:c")` maps to `a` and `b/c` unless a
+ * `project(":a").projectDir = file("...")` line says otherwise. The root
+ * project is included when it has a src/ directory of its own.
+ */
+function gradleModules(root: string): string[] {
+  const settings = readIfExists(root, GRADLE_SETTINGS_FILE) ?? "";
+  const projectDirs = new Map<string, string>();
+  for (const m of settings.matchAll(/project\(\s*"([^"]+)"\s*\)\.projectDir\s*=\s*file\(\s*"([^"]+)"\s*\)/g)) {
+    projectDirs.set(m[1], m[2].replace(/\\/g, "/").replace(/^\.\//, "").replace(/\/$/, ""));
+  }
+  const modules = new Set<string>();
+  if (fs.existsSync(path.join(root, "src"))) modules.add(".");
+  for (const m of settings.matchAll(/^\s*include\s*\(([^)]*)\)/gm)) {
+    for (const [, name] of m[1].matchAll(/"([^"]+)"/g)) {
+      const project = name.startsWith(":") ? name : `:${name}`;
+      modules.add(projectDirs.get(project) ?? project.slice(1).replace(/:/g, "/"));
+    }
+  }
+  return [...modules];
+}
+
+/**
+ * Every `src/<source set>/kotlin` and `src/<source set>/java` directory of the
+ * Gradle modules, relative to root and sorted.
+ */
+function sourceRoots(root: string): string[] {
+  const roots: string[] = [];
+  for (const module of gradleModules(root)) {
+    const src = path.join(root, module, "src");
+    if (!fs.existsSync(src) || !fs.statSync(src).isDirectory()) continue;
+    for (const e of fs.readdirSync(src, { withFileTypes: true })) {
+      if (!e.isDirectory()) continue;
+      for (const language of SOURCE_SET_LANGUAGES) {
+        const dir = path.join(src, e.name, language);
+        if (fs.existsSync(dir) && fs.statSync(dir).isDirectory()) {
+          roots.push(path.relative(root, dir).replace(/\\/g, "/"));
+        }
+      }
+    }
+  }
+  return roots.sort();
+}
+
+/** Compose resources are generated into `<project name, lowercased, '-' -> '_'>.composeapp.generated.resources`. */
+function resPackagePrefixFor(projectName: string): string {
+  return projectName.toLowerCase().replace(/-/g, "_");
+}
+
+/**
+ * Detect the identity the project currently has, so a project can be rebranded
+ * again after the first time:
+ * - package: `namespace` in composeApp/build.gradle.kts
+ * - app name: `APP_NAME` in Config.xcconfig, else `app_name` in strings.xml
+ * - project name: `rootProject.name` in settings.gradle.kts
+ * - resource prefix: the `*.composeapp.generated.resources` import in Kotlin
+ *   sources, else derived from the project name
+ * - display name: `CFBundleDisplayName` in Info.plist, else `app_name` in
+ *   strings.xml, else the app name
+ * - bundle ID: `BUNDLE_ID` in Config.xcconfig
+ * - applicationId: `applicationId` in composeApp/build.gradle.kts, else the package
+ * Values that cannot be found fall back to the KMP template ones.
+ */
+function detectIdentityIn(ctx: RebrandContext): Identity {
+  const { root } = ctx;
+  const gradle = readIfExists(root, GRADLE_APP_FILE) ?? "";
+  const settings = readIfExists(root, GRADLE_SETTINGS_FILE) ?? "";
+  const xcconfig = readIfExists(root, XCCONFIG_FILE) ?? "";
+  const strings = readIfExists(root, ANDROID_STRINGS_FILE) ?? "";
+  const plist = readIfExists(root, INFO_PLIST_FILE) ?? "";
+
+  const packageName = gradle.match(/\bnamespace\s*=\s*"([^"]+)"/)?.[1];
+  const rawLabel = strings.match(/<string\s+name="app_name"\s*>([^<]*)<\/string>/)?.[1];
+  const androidLabel = rawLabel === undefined ? undefined : unescapeAndroidString(rawLabel);
+  const appName = xcconfig.match(/^\s*APP_NAME\s*=\s*(.+?)\s*$/m)?.[1] ?? androidLabel;
+  const projectName = settings.match(/rootProject\.name\s*=\s*"([^"]+)"/)?.[1];
+  const bundleId = xcconfig.match(/^\s*BUNDLE_ID\s*=\s*(.+?)\s*$/m)?.[1];
+  const applicationId = gradle.match(/\bapplicationId\s*=\s*"([^"]+)"/)?.[1];
+  const rawDisplayName = plist.match(
+    /<key>CFBundleDisplayName<\/key>\s*<string>([^<]*)<\/string>/
+  )?.[1];
+  const displayName =
+    rawDisplayName === undefined ? androidLabel : unescapeXml(rawDisplayName);
+
+  let resPackagePrefix: string | undefined;
+  for (const f of walkDir(root, ctx)) {
+    if (!f.endsWith(".kt")) continue;
+    const m = fs
+      .readFileSync(f, "utf8")
+      .match(/^import\s+([\w.]+?)\.composeapp\.generated\.resources\b/m);
+    if (m) {
+      resPackagePrefix = m[1];
+      break;
+    }
+  }
+
+  const detected: Identity = {
+    packageName: packageName ?? TEMPLATE_IDENTITY.packageName,
+    appName: appName ?? TEMPLATE_IDENTITY.appName,
+    projectName: projectName ?? TEMPLATE_IDENTITY.projectName,
+    resPackagePrefix:
+      resPackagePrefix ??
+      (projectName ? resPackagePrefixFor(projectName) : TEMPLATE_IDENTITY.resPackagePrefix),
+    displayName: displayName ?? appName ?? TEMPLATE_IDENTITY.displayName,
+    bundleId: bundleId ?? TEMPLATE_IDENTITY.bundleId,
+    applicationId: applicationId ?? packageName ?? TEMPLATE_IDENTITY.applicationId,
+  };
+  const missing = [
+    !packageName && `package (${GRADLE_APP_FILE})`,
+    !appName && `app name (${XCCONFIG_FILE}, ${ANDROID_STRINGS_FILE})`,
+    !projectName && `project name (${GRADLE_SETTINGS_FILE})`,
+    !bundleId && `bundle ID (${XCCONFIG_FILE})`,
+  ].filter(Boolean);
+  for (const m of missing) {
+    ctx.logger.warn(`  warning: could not detect ${m}; assuming the template value`);
+  }
+  return detected;
+}
+
+/**
+ * Detect the identity the project at `root` currently has (see detectIdentityIn).
+ */
+export function detectIdentity(
+  root: string,
+  options?: WalkOptions & { logger?: RebrandLogger }
+): Identity {
+  return detectIdentityIn(createContext({ root, ...options }));
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/** Escape a value for an Android <string> resource (XML plus aapt's quote/@/? rules). */
+function escapeAndroidString(text: string): string {
+  return escapeXml(text)
+    .replace(/\\/g, "\\\\")
+    .replace(/'/g, "\\'")
+    .replace(/"/g, '\\"')
+    .replace(/^([@?])/, "\\$1");
+}
+
+function unescapeAndroidString(text: string): string {
+  return unescapeXml(text).replace(/\\(.)/g, "$1");
+}
+
+/**
+ * Validate a display name: non-empty, no control characters. Unicode and
+ * apostrophes are fine; they are escaped per file format when written.
+ */
+function isValidDisplayName(name: string): boolean {
+  return name.trim().length > 0 && !/[\u0000-\u001f\u007f]/.test(name);
+}
+
+/** Read a file's staged content, falling back to disk. Returns null if missing. */
+function stagedContent(
+  root: string,
+  rel: string,
+  staged: Map<string, string>
+): string | null {
+  const file = path.join(root, rel);
+  return staged.get(file) ?? readIfExists(root, rel);
+}
+
+/**
+ * Stage a targeted edit of one file. The edit receives the current (staged or
+ * on-disk) content and returns the new content; missing files are skipped.
+ */
+function stageEdit(
+  ctx: RebrandContext,
+  rel: string,
+  staged: Map<string, string>,
+  edit: (content: string) => string
+): void {
+  if (shouldSkip(path.join(ctx.root, rel), ctx)) return;
+  const content = stagedContent(ctx.root, rel, staged);
+  if (content === null) {
+    ctx.logger.warn(`  warning: ${rel} not found; skipping`);
+    return;
+  }
+  const updated = edit(content);
+  if (updated !== content) staged.set(path.join(ctx.root, rel), updated);
+}
+
+/**
+ * Write the identity values that have a single, well-known home and must not
+ * be derived by substring replacement: Gradle applicationId, xcconfig
+ * BUNDLE_ID/APP_NAME, Info.plist CFBundleDisplayName and strings.xml app_name.
+ */
+function stageIdentityFiles(
+  ctx: RebrandContext,
+  next: Identity,
+  staged: Map<string, string>
+): void {
+  stageEdit(ctx, GRADLE_APP_FILE, staged, (c) =>
+    c.replace(/(\bapplicationId\s*=\s*")[^"]*(")/, `$1${next.applicationId}$2`)
+  );
+  stageEdit(ctx, XCCONFIG_FILE, staged, (c) =>
+    c
+      .replace(/^(\s*BUNDLE_ID\s*=).*$/m, `$1${next.bundleId}`)
+      .replace(/^(\s*APP_NAME\s*=).*$/m, `$1${next.appName}`)
+  );
+  stageEdit(ctx, INFO_PLIST_FILE, staged, (c) => {
+    const value = `<string>${escapeXml(next.displayName)}</string>`;
+    const existing = /(<key>CFBundleDisplayName<\/key>\s*)<string>[^<]*<\/string>/;
+    if (existing.test(c)) return c.replace(existing, (_, key: string) => key + value);
+    // Insert right after CFBundleDevelopmentRegion to keep the keys roughly sorted
+    return c.replace(
+      /(\n(\s*)<key>CFBundleDevelopmentRegion<\/key>\s*<string>[^<]*<\/string>)/,
+      (_, entry: string, indent: string) =>
+        `${entry}\n${indent}<key>CFBundleDisplayName</key>\n${indent}${value}`
+    );
+  });
+  stageEdit(ctx, ANDROID_STRINGS_FILE, staged, (c) =>
+    c.replace(
+      /(<string\s+name="app_name"\s*>)[^<]*(<\/string>)/,
+      (_, open: string, close: string) => open + escapeAndroidString(next.displayName) + close
+    )
+  );
+}
+
+// --- Structural replacement ---
+// Old names are only rewritten at the places they structurally belong (see
+// FILE_RULES), and only as whole tokens: com.jetbrains.kmpapp matches
+// com.jetbrains.kmpapp.examples but not com.jetbrains.kmpapp2. Anything else
+// is left alone and listed by findLeftovers for manual review.
+
+type RenameKind = keyof Identity;
+
+type Rename = { kind: RenameKind; from: string; to: string };
+
+/** Where (and which kinds of) renames are applied for one file type. */
+type FileRule = {
+  name: string;
+  test: RegExp;
+  rewrite: (content: string, renames: Rename[]) => string;
+};
+
+const WORD = "[\\p{L}\\p{N}_]";
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Regex matching `name` as a whole token. Packages may be followed by
+ * `.subpackage` but not preceded by a `.`.
+ */
+function tokenPattern(kind: RenameKind, name: string): string {
+  const before = kind === "packageName" ? `(?<!${WORD}|\\.)` : `(?<!${WORD})`;
+  return `${before}${escapeRegExp(name)}(?!${WORD})`;
+}
+
+/**
+ * Replace every whole-token occurrence of the selected renames in `text`, in a
+ * single pass so a replacement is never rewritten again by a later rename.
+ */
+function replaceTokens(text: string, renames: Rename[], kinds: RenameKind[]): string {
+  const active = renames
+    .filter((r) => kinds.includes(r.kind) && r.from !== r.to && r.from.length > 0)
+    .sort((a, b) => b.from.length - a.from.length);
+  if (active.length === 0) return text;
+  const re = new RegExp(active.map((r) => `(${tokenPattern(r.kind, r.from)})`).join("|"), "gu");
+  return text.replace(re, (match) => active.find((r) => r.from === match)?.to ?? match);
+}
+
+/** Apply replaceTokens to capture group `group` of every match of `re`. */
+function rewriteGroup(
+  content: string,
+  re: RegExp,
+  group: number,
+  renames: Rename[],
+  kinds: RenameKind[]
+): string {
+  return content.replace(re, (...args: unknown[]) => {
+    const groups = args.slice(1, -2) as (string | undefined)[];
+    return groups
+      .map((g, i) => (i + 1 === group ? replaceTokens(g ?? "", renames, kinds) : g ?? ""))
+      .join("");
+  });
+}
+
+const FILE_RULES: FileRule[] = [
+  {
+    name: "Kotlin/Java package and import declarations",
+    test: /\.(kt|java)$/,
+    rewrite: (c, r) =>
+      rewriteGroup(c, /^(\s*(?:package|import)\s+)([\w.]+)()/gm, 2, r, [
+        "packageName",
+        "resPackagePrefix",
+      ]),
+  },
+  {
+    name: "Gradle string literals (namespace, applicationId, rootProject.name, ...)",
+    test: /\.gradle(\.kts)?$/,
+    // A literal assigned to (or falling back for) applicationId is an
+    // applicationId even when the template's package has the same value
+    rewrite: (c, r) =>
+      c.replace(/(\bapplicationId\s*(?:=|\?:)\s*)?"([^"\\\n]*)"/g, (_, key: string | undefined, value: string) => {
+        const kinds: RenameKind[] = key ? ["applicationId"] : ["applicationId", "packageName", "projectName"];
+        return `${key ?? ""}"${replaceTokens(value, r, kinds)}"`;
+      }),
+  },
+  {
+    name: "xcconfig values",
+    test: /\.xcconfig$/,
+    rewrite: (c, r) =>
+      rewriteGroup(c, /^(\s*[A-Za-z_][A-Za-z0-9_]*\s*=)(.*)()$/gm, 2, r, [
+        "bundleId",
+        "appName",
+        "packageName",
+        "projectName",
+      ]),
+  },
+  {
+    name: "pbxproj PRODUCT_BUNDLE_IDENTIFIER, PRODUCT_NAME, product paths and comments",
+    test: /\.pbxproj$/,
+    rewrite: (c, r) => {
+      const kinds: RenameKind[] = ["bundleId", "appName", "packageName"];
+      const settings = rewriteGroup(
+        c,
+        /(\b(?:PRODUCT_BUNDLE_IDENTIFIER|PRODUCT_NAME|path|name)\s*=\s*)("[^"]*"|[^;\s]*)(;)/g,
+        2,
+        r,
+        kinds
+      );
+      return rewriteGroup(settings, /(\/\* )([^*]*?)( \*\/)/g, 2, r, kinds);
+    },
+  },
+  {
+    name: "XML attribute values",
+    test: /\.(xml|plist|xcscheme|storyboard|xib)$/,
+    rewrite: (c, r) =>
+      rewriteGroup(c, /(\s[\w:.-]+\s*=\s*")([^"]*)(")/g, 2, r, [
+        "applicationId",
+        "packageName",
+        "bundleId",
+        "appName",
+        "projectName",
+      ]),
+  },
+];
+
+/** Renames from the current identity to the next, one per identity field. */
+function identityRenames(current: Identity, next: Identity): Rename[] {
+  return (Object.keys(current) as RenameKind[]).map((kind) => ({
+    kind,
+    from: current[kind],
+    to: next[kind],
+  }));
+}
+
+/**
+ * Stage structural replacements for every file that has a FILE_RULES entry.
+ * Content is read from `staged` when an earlier step already touched the
+ * file; nothing is written until writeStagedFiles.
+ */
+function replaceInFiles(
+  ctx: RebrandContext,
+  renames: Rename[],
+  staged: Map<string, string>
+): void {
+  for (const f of walkDir(ctx.root, ctx)) {
+    const rel = path.relative(ctx.root, f).replace(/\\/g, "/");
+    const rule = FILE_RULES.find((r) => r.test.test(rel));
+    if (!rule) continue;
+    try {
+      const content = staged.get(f) ?? readText(f);
+      if (content === null) continue;
+      const updated = rule.rewrite(content, renames);
+      if (updated !== content) {
+        staged.set(f, updated);
+        ctx.logger.log(`  ${rel} (${rule.name})`);
+      }
+    } catch (err) {
+      ctx.logger.error("  failed to read:", rel, err);
+    }
+  }
+}
+
+/** An old-identity occurrence that no structural rule rewrote. */
+export type Leftover = { file: string; line: number; kind: RenameKind; text: string };
+
+/**
+ * List whole-token occurrences of the old identity that remain after staging,
+ * ignoring those that are part of a new value (e.g. com.acme inside com.acme.shop).
+ */
+function findLeftovers(
+  ctx: RebrandContext,
+  renames: Rename[],
+  staged: Map<string, string>
+): Leftover[] {
+  const changed = renames.filter((r) => r.from !== r.to && r.from.length > 0);
+  const newValues = [...new Set(changed.map((r) => r.to))]
+    .filter((v) => v.length > 0)
+    .sort((a, b) => b.length - a.length);
+  const mask =
+    newValues.length > 0 ? new RegExp(newValues.map(escapeRegExp).join("|"), "g") : null;
+  const seen = new Set<string>();
+
+  const out: Leftover[] = [];
+  for (const f of walkDir(ctx.root, ctx)) {
+    let content: string | null;
     try {
-      const content = fs.readFileSync(f, "utf8");
-      if (content.includes(needle)) out.push(f);
+      content = staged.get(f) ?? readText(f);
     } catch {
-      // skip binary or unreadable
+      continue;
     }
+    if (content === null) continue;
+    if (!changed.some((r) => content.includes(r.from))) continue;
+    const rel = path.relative(ctx.root, f).replace(/\\/g, "/");
+    const lines = content.split("\n");
+    lines.forEach((line, i) => {
+      const masked = mask ? line.replace(mask, (m) => "\u0000".repeat(m.length)) : line;
+      for (const r of changed) {
+        const key = `${rel}:${i}:${r.from}`;
+        if (seen.has(key)) continue;
+        if (new RegExp(tokenPattern(r.kind, r.from), "u").test(masked)) {
+          seen.add(key);
+          out.push({ file: rel, line: i + 1, kind: r.kind, text: line.trim() });
+        }
+      }
+    });
   }
   return out;
 }
 
-function replaceInFiles(
+function printLeftovers(logger: RebrandLogger, leftovers: Leftover[]): void {
+  if (leftovers.length === 0) {
+    logger.log("No leftover matches of the old identity.");
+    return;
+  }
+  logger.log(`Leftover matches for manual review (${leftovers.length}):`);
+  for (const l of leftovers) {
+    logger.log(`  ${l.file}:${l.line} [${l.kind}] ${l.text}`);
+  }
+}
+
+// --- Verification ---
+
+export type VerifyIssue = {
+  check: "leftover" | "package-path" | "identity";
+  severity: "error" | "warning";
+  message: string;
+  file?: string;
+  line?: number;
+};
+
+/** Result of `rebrand.ts verify`; ok is false when any issue is an error. */
+export type VerifyReport = {
+  ok: boolean;
+  identity: Identity;
+  issues: VerifyIssue[];
+};
+
+/**
+ * Check that a rebranded project no longer contains the template identity and
+ * that its own identity is consistent:
+ * - no whole-token template package, app name, project name or resource
+ *   prefix anywhere outside SKIP_PATTERNS
+ * - every Kotlin/Java file's `package` matches its directory under its source root
+ * - bundle ID and applicationId are valid and share the namespace
+ */
+export function verify(options: WalkOptions & { root: string; logger?: RebrandLogger }): VerifyReport {
+  const ctx = createContext(options);
+  const identity = detectIdentityIn(ctx);
+  const issues: VerifyIssue[] = [];
+
+  // Template leftovers. Current values that merely contain a template value
+  // (e.g. com.jetbrains.kmpapp.fork) are masked out by findLeftovers.
+  const templateKinds: RenameKind[] = ["packageName", "appName", "projectName", "resPackagePrefix"];
+  const renames: Rename[] = templateKinds.map((kind) => ({
+    kind,
+    from: TEMPLATE_IDENTITY[kind],
+    to: identity[kind] === TEMPLATE_IDENTITY[kind] ? "" : identity[kind],
+  }));
+  for (const l of findLeftovers(ctx, renames, new Map())) {
+    issues.push({
+      check: "leftover",
+      severity: "error",
+      message: `template ${l.kind} still present: ${l.text}`,
+      file: l.file,
+      line: l.line,
+    });
+  }
+
+  // Kotlin/Java package declarations vs. directories
+  for (const base of sourceRoots(ctx.root)) {
+    const baseFull = path.join(ctx.root, base);
+    for (const f of walkDir(baseFull, ctx)) {
+      if (!/\.(kt|java)$/.test(f)) continue;
+      const expected = path
+        .relative(baseFull, path.dirname(f))
+        .split(path.sep)
+        .filter(Boolean)
+        .join(".");
+      const lines = fs.readFileSync(f, "utf8").split("\n");
+      const index = lines.findIndex((l) => /^\s*package\s+/.test(l));
+      const declared = index === -1 ? "" : lines[index].replace(/^\s*package\s+([\w.]+).*$/, "$1").trim();
+      if (declared !== expected) {
+        issues.push({
+          check: "package-path",
+          severity: "error",
+          message: `package "${declared}" does not match directory (expected "${expected}")`,
+          file: path.relative(ctx.root, f).replace(/\\/g, "/"),
+          line: index === -1 ? undefined : index + 1,
+        });
+      }
+    }
+  }
+
+  // Identity consistency
+  const namespace = identity.packageName;
+  const related = (id: string): boolean => id === namespace || id.startsWith(`${namespace}.`);
+  if (!APPLICATION_ID_RE.test(identity.applicationId)) {
+    issues.push({
+      check: "identity",
+      severity: "error",
+      message: `invalid applicationId "${identity.applicationId}"`,
+      file: GRADLE_APP_FILE,
+    });
+  } else if (!related(identity.applicationId)) {
+    issues.push({
+      check: "identity",
+      severity: "warning",
+      message: `applicationId "${identity.applicationId}" does not share namespace "${namespace}"`,
+      file: GRADLE_APP_FILE,
+    });
+  }
+  if (!BUNDLE_ID_RE.test(identity.bundleId)) {
+    issues.push({
+      check: "identity",
+      severity: "error",
+      message: `invalid bundle ID "${identity.bundleId}"`,
+      file: XCCONFIG_FILE,
+    });
+  } else if (!related(identity.bundleId) && identity.bundleId !== identity.applicationId) {
+    issues.push({
+      check: "identity",
+      severity: "warning",
+      message: `bundle ID "${identity.bundleId}" matches neither namespace "${namespace}" nor applicationId "${identity.applicationId}"`,
+      file: XCCONFIG_FILE,
+    });
+  }
+
+  return { ok: !issues.some((i) => i.severity === "error"), identity, issues };
+}
+
+function printVerifyReport(report: VerifyReport): void {
+  const { identity } = report;
+  console.log(
+    `Identity: package ${identity.packageName}, applicationId ${identity.applicationId}, bundle ID ${identity.bundleId}, app name "${identity.appName}", project ${identity.projectName}`
+  );
+  for (const issue of report.issues) {
+    const where = issue.file ? `${issue.file}${issue.line ? `:${issue.line}` : ""}: ` : "";
+    console.log(`  ${issue.severity} [${issue.check}] ${where}${issue.message}`);
+  }
+  const errors = report.issues.filter((i) => i.severity === "error").length;
+  const warnings = report.issues.length - errors;
+  console.log(
+    report.ok
+      ? `Verify passed (${warnings} warning${warnings === 1 ? "" : "s"}).`
+      : `Verify failed: ${errors} error${errors === 1 ? "" : "s"}, ${warnings} warning${warnings === 1 ? "" : "s"}.`
+  );
+}
+
+/**
+ * Build a unified diff (3 lines of context) between two versions of a file.
+ * Returns an empty string when the contents are identical.
+ */
+export function unifiedDiff(
+  relPath: string,
+  before: string,
+  after: string,
+  context = 3
+): string {
+  if (before === after) return "";
+  const toLines = (text: string): string[] =>
+    text.length === 0 ? [] : text.replace(/\n$/, "").split("\n");
+  const a = toLines(before);
+  const b = toLines(after);
+  const noNewlineA = before.length > 0 && !before.endsWith("\n");
+  const noNewlineB = after.length > 0 && !after.endsWith("\n");
+
+  // Trim the common prefix/suffix so the LCS table only covers the changed middle.
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const lcs: number[][] = Array.from({ length: midA.length + 1 }, () =>
+    new Array<number>(midB.length + 1).fill(0)
+  );
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        midA[i] === midB[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  type Op = { kind: " " | "-" | "+"; line: string };
+  const ops: Op[] = a.slice(0, start).map((line) => ({ kind: " ", line }));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      ops.push({ kind: " ", line: midA[i] });
+      i++;
+      j++;
+    } else if (
+      i < midA.length &&
+      (j === midB.length || lcs[i + 1][j] >= lcs[i][j + 1])
+    ) {
+      ops.push({ kind: "-", line: midA[i++] });
+    } else {
+      ops.push({ kind: "+", line: midB[j++] });
+    }
+  }
+  for (const line of a.slice(endA)) ops.push({ kind: " ", line });
+
+  const out = [`--- a/${relPath}`, `+++ b/${relPath}`];
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].kind === " ") {
+      k++;
+      continue;
+    }
+    // Grow the hunk until two changes are separated by more than 2 * context lines.
+    const hunkStart = Math.max(0, k - context);
+    let hunkEnd = k;
+    let lastChange = k;
+    while (hunkEnd < ops.length && hunkEnd - lastChange <= context * 2 + 1) {
+      if (ops[hunkEnd].kind !== " ") lastChange = hunkEnd;
+      hunkEnd++;
+    }
+    hunkEnd = Math.min(ops.length, lastChange + context + 1);
+
+    let oldLine = 1;
+    let newLine = 1;
+    for (let n = 0; n < hunkStart; n++) {
+      if (ops[n].kind !== "+") oldLine++;
+      if (ops[n].kind !== "-") newLine++;
+    }
+    const hunk = ops.slice(hunkStart, hunkEnd);
+    const oldCount = hunk.filter((op) => op.kind !== "+").length;
+    const newCount = hunk.filter((op) => op.kind !== "-").length;
+    out.push(
+      `@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`
+    );
+    let o = oldLine;
+    let n = newLine;
+    for (const op of hunk) {
+      out.push(op.kind + op.line);
+      const endsA = op.kind !== "+" && o === a.length && noNewlineA;
+      const endsB = op.kind !== "-" && n === b.length && noNewlineB;
+      if (endsA || endsB) out.push("\\ No newline at end of file");
+      if (op.kind !== "+") o++;
+      if (op.kind !== "-") n++;
+    }
+    k = hunkEnd;
+  }
+  return out.join("\n");
+}
+
+// --- App icons ---
+
+/** Source image and background colour for generated launcher icons. */
+export type IconOptions = {
+  /** Square PNG or SVG, ideally 1024px or larger. */
+  source: string;
+  /** Background colour as #RGB or #RRGGBB. */
+  background: string;
+};
+
+const ANDROID_RES_DIR = "composeApp/src/androidMain/res";
+const APP_ICON_SET_DIR = "iosApp/iosApp/Assets.xcassets/AppIcon.appiconset";
+const APP_ICON_FILE = "app-icon-1024.png";
+
+// Scale factor of each launcher density relative to mdpi
+const MIPMAP_DENSITIES: Record<string, number> = {
+  mdpi: 1,
+  hdpi: 1.5,
+  xhdpi: 2,
+  xxhdpi: 3,
+  xxxhdpi: 4,
+};
+// Legacy launcher icons are 48dp; adaptive icon layers are 108dp with the
+// inner 72dp visible through the launcher's mask
+const LEGACY_ICON_DP = 48;
+const ADAPTIVE_ICON_DP = 108;
+const ADAPTIVE_CONTENT_DP = 72;
+
+// Size the source is rasterized at before scaling down, and the iOS icon size
+const ICON_MASTER_PX = 1024;
+
+const COLOR_RE = /^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
+
+/** Normalize #RGB / #RRGGBB to upper-case #RRGGBB; throws on anything else. */
+function parseIconColor(color: string): string {
+  if (!COLOR_RE.test(color)) {
+    throw new Error(`Invalid icon background colour: ${color}\nUse #RGB or #RRGGBB (e.g. #3DDC84).`);
+  }
+  const hex = color.slice(1);
+  const full = hex.length === 3 ? [...hex].map((c) => c + c).join("") : hex;
+  return `#${full.toUpperCase()}`;
+}
+
+/** Width and height from a PNG's IHDR chunk, or null when the file is not a PNG. */
+function pngSize(file: string): { width: number; height: number } | null {
+  const fd = fs.openSync(file, "r");
+  try {
+    const header = Buffer.alloc(24);
+    const read = fs.readSync(fd, header, 0, header.length, 0);
+    const signature = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    if (read < 24 || !header.subarray(0, 8).equals(signature)) return null;
+    return { width: header.readUInt32BE(16), height: header.readUInt32BE(20) };
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/** Run an image tool, turning a missing binary into an actionable error. */
+function runImageTool(command: string, args: string[]): void {
+  try {
+    execFileSync(command, args, { stdio: ["ignore", "ignore", "pipe"] });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`${command} not found; install it to generate app icons`);
+    }
+    const stderr = (err as { stderr?: Buffer }).stderr?.toString().trim();
+    throw new Error(`${command} failed${stderr ? `: ${stderr}` : ""}`);
+  }
+}
+
+/**
+ * Rasterize the source to a square ICON_MASTER_PX PNG in `workDir` (SVGs via
+ * rsvg-convert) and return its path. Throws unless the source is square.
+ */
+function iconMaster(source: string, workDir: string): string {
+  if (!fs.existsSync(source)) throw new Error(`Icon source not found: ${source}`);
+  let png = source;
+  if (/\.svg$/i.test(source)) {
+    png = path.join(workDir, "master.png");
+    runImageTool("rsvg-convert", [
+      "--keep-aspect-ratio",
+      "-w", String(ICON_MASTER_PX),
+      "-h", String(ICON_MASTER_PX),
+      "-o", png,
+      source,
+    ]);
+  }
+  const size = pngSize(png);
+  if (!size) throw new Error(`Icon source must be a PNG or SVG: ${source}`);
+  if (size.width !== size.height) {
+    throw new Error(`Icon source must be square, got ${size.width}x${size.height}: ${source}`);
+  }
+  return png;
+}
+
+/**
+ * Render `master` scaled to `content` px, centred on a `size` px canvas that
+ * is filled with `background` (transparent when null) and optionally cut to a
+ * circle.
+ */
+function renderIcon(
+  master: string,
+  out: string,
+  size: number,
+  content: number,
+  background: string | null,
+  options: { round?: boolean; opaque?: boolean } = {}
+): void {
+  const canvas = background ? `0x${background.slice(1)}` : "0x00000000";
+  const filters = [
+    `[1:v]scale=${content}:${content}:flags=lanczos,format=rgba[fg]`,
+    `[0:v][fg]overlay=(W-w)/2:(H-h)/2:format=auto,format=rgba${options.round ? ",geq=r='r(X,Y)':g='g(X,Y)':b='b(X,Y)':a='if(lte(hypot(X-W/2+0.5,Y-H/2+0.5),W/2),alpha(X,Y),0)'" : ""}${options.opaque ? ",format=rgb24" : ""}[out]`,
+  ];
+  runImageTool("ffmpeg", [
+    "-v", "error",
+    "-y",
+    "-f", "lavfi",
+    "-i", `color=c=${canvas}:s=${size}x${size},format=rgba`,
+    "-i", master,
+    "-filter_complex", filters.join(";"),
+    "-map", "[out]",
+    "-frames:v", "1",
+    out,
+  ]);
+}
+
+function adaptiveIconXml(): string {
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<adaptive-icon xmlns:android="http://schemas.android.com/apk/res/android">',
+    '    <background android:drawable="@drawable/ic_launcher_background" />',
+    '    <foreground android:drawable="@mipmap/ic_launcher_foreground" />',
+    "</adaptive-icon>",
+    "",
+  ].join("\n");
+}
+
+function iconBackgroundXml(color: string): string {
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<vector xmlns:android="http://schemas.android.com/apk/res/android"',
+    `    android:width="${ADAPTIVE_ICON_DP}dp"`,
+    `    android:height="${ADAPTIVE_ICON_DP}dp"`,
+    `    android:viewportWidth="${ADAPTIVE_ICON_DP}"`,
+    `    android:viewportHeight="${ADAPTIVE_ICON_DP}">`,
+    "    <path",
+    `        android:fillColor="${color}"`,
+    `        android:pathData="M0,0h${ADAPTIVE_ICON_DP}v${ADAPTIVE_ICON_DP}h-${ADAPTIVE_ICON_DP}z" />`,
+    "</vector>",
+    "",
+  ].join("\n");
+}
+
+function appIconContentsJson(): string {
+  const contents = {
+    images: [{ filename: APP_ICON_FILE, idiom: "universal", platform: "ios", size: "1024x1024" }],
+    info: { author: "xcode", version: 1 },
+  };
+  // Xcode's own formatting: two-space indent and " : " separators
+  return `${JSON.stringify(contents, null, 2).replace(/": /g, '" : ')}\n`;
+}
+
+/**
+ * Render every launcher asset from one source image. Returns the new content
+ * of each asset (absolute path -> bytes), with null for template assets the
+ * new set replaces:
+ * - mipmap-<density>/ic_launcher(_round).png: legacy square and round icons
+ * - mipmap-<density>/ic_launcher_foreground.png plus
+ *   drawable/ic_launcher_background.xml and mipmap-anydpi-v26 adaptive icons
+ *   (the vector foreground in drawable-v24 is removed)
+ * - AppIcon.appiconset: one opaque 1024px icon and its Contents.json
+ */
+function renderIconAssets(root: string, icon: IconOptions): Map<string, Buffer | null> {
+  const background = parseIconColor(icon.background);
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "rebrand-icons-"));
+  const assets = new Map<string, Buffer | null>();
+  const res = (rel: string): string => path.join(root, ANDROID_RES_DIR, rel);
+  try {
+    const master = iconMaster(path.resolve(icon.source), workDir);
+    const render = (
+      file: string,
+      size: number,
+      content: number,
+      fill: string | null,
+      options?: { round?: boolean; opaque?: boolean }
+    ): void => {
+      const out = path.join(workDir, `${assets.size}.png`);
+      renderIcon(master, out, size, content, fill, options);
+      assets.set(file, fs.readFileSync(out));
+    };
+
+    for (const [density, scale] of Object.entries(MIPMAP_DENSITIES)) {
+      const legacy = Math.round(LEGACY_ICON_DP * scale);
+      const adaptive = Math.round(ADAPTIVE_ICON_DP * scale);
+      render(res(`mipmap-${density}/ic_launcher.png`), legacy, legacy, background);
+      render(res(`mipmap-${density}/ic_launcher_round.png`), legacy, legacy, background, { round: true });
+      render(
+        res(`mipmap-${density}/ic_launcher_foreground.png`),
+        adaptive,
+        Math.round(ADAPTIVE_CONTENT_DP * scale),
+        null
+      );
+    }
+    assets.set(res("drawable/ic_launcher_background.xml"), Buffer.from(iconBackgroundXml(background)));
+    assets.set(res("mipmap-anydpi-v26/ic_launcher.xml"), Buffer.from(adaptiveIconXml()));
+    assets.set(res("mipmap-anydpi-v26/ic_launcher_round.xml"), Buffer.from(adaptiveIconXml()));
+    const vectorForeground = res("drawable-v24/ic_launcher_foreground.xml");
+    if (fs.existsSync(vectorForeground)) assets.set(vectorForeground, null);
+
+    const iconSet = path.join(root, APP_ICON_SET_DIR);
+    render(path.join(iconSet, APP_ICON_FILE), ICON_MASTER_PX, ICON_MASTER_PX, background, {
+      opaque: true,
+    });
+    assets.set(path.join(iconSet, "Contents.json"), Buffer.from(appIconContentsJson()));
+    if (fs.existsSync(iconSet)) {
+      for (const name of fs.readdirSync(iconSet)) {
+        const file = path.join(iconSet, name);
+        if (/\.png$/i.test(name) && !assets.has(file)) assets.set(file, null);
+      }
+    }
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+  return assets;
+}
+
+// --- Transaction journal ---
+// Every filesystem step is recorded in .rebrand/journal.json *before* it is
+// performed, so a failed or interrupted rebrand (or a completed one, via
+// --rollback) can be undone by replaying the journal backwards.
+const JOURNAL_DIR = ".rebrand";
+const JOURNAL_FILE = "journal.json";
+const BACKUP_DIR = "backup";
+
+/** A single reversible step. Paths are relative to the project root. */
+type JournalOp =
+  | { op: "write"; file: string; backup: string }
+  | { op: "create"; file: string }
+  | { op: "delete"; file: string; backup: string }
+  | { op: "mkdir"; dir: string }
+  | { op: "rename"; from: string; to: string }
+  | { op: "rmdir"; dir: string };
+
+type Journal = {
+  status: "in-progress" | "committed";
+  startedAt: string;
+  ops: JournalOp[];
+};
+
+/** A planned move of one package directory's contents. Paths are relative to the project root. */
+export type DirMove = { base: string; from: string; to: string };
+
+function saveJournal(root: string, journal: Journal): void {
+  const file = path.join(root, JOURNAL_DIR, JOURNAL_FILE);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(journal, null, 2), "utf8");
+}
+
+function loadJournal(root: string): Journal | null {
+  const file = path.join(root, JOURNAL_DIR, JOURNAL_FILE);
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, "utf8")) as Journal;
+}
+
+/**
+ * Start a new journal, replacing the one from a previous committed rebrand.
+ * Throws if an earlier rebrand was interrupted and never rolled back.
+ */
+function beginJournal(root: string): Journal {
+  const previous = loadJournal(root);
+  if (previous?.status === "in-progress") {
+    throw new Error(
+      "A previous rebrand did not finish. Run `npx tsx rebrand.ts --rollback` first."
+    );
+  }
+  fs.rmSync(path.join(root, JOURNAL_DIR), { recursive: true, force: true });
+  const journal: Journal = {
+    status: "in-progress",
+    startedAt: new Date().toISOString(),
+    ops: [],
+  };
+  saveJournal(root, journal);
+  return journal;
+}
+
+/** Record op in the journal, persist it, then perform it. */
+function journalStep(
   root: string,
-  oldStr: string,
-  newStr: string
+  journal: Journal,
+  op: JournalOp,
+  action: () => void
 ): void {
-  const files = filesContaining(root, oldStr);
-  for (const f of files) {
-    if (shouldSkip(f, root)) continue;
+  journal.ops.push(op);
+  saveJournal(root, journal);
+  action();
+}
+
+/** Copy a file into the journal's backup directory; returns the backup's journal path. */
+function backupFile(root: string, rel: string): string {
+  const backup = path.posix.join(BACKUP_DIR, rel);
+  const backupFull = path.join(root, JOURNAL_DIR, backup);
+  fs.mkdirSync(path.dirname(backupFull), { recursive: true });
+  fs.copyFileSync(path.join(root, rel), backupFull);
+  return backup;
+}
+
+/** Create `dir` and its missing ancestors one at a time so each can be undone. */
+function makeDirs(root: string, dir: string, journal: Journal): void {
+  const missing: string[] = [];
+  for (let d = dir; !fs.existsSync(d); d = path.dirname(d)) {
+    missing.unshift(d);
+  }
+  for (const d of missing) {
+    const rel = path.relative(root, d).replace(/\\/g, "/");
+    journalStep(root, journal, { op: "mkdir", dir: rel }, () => fs.mkdirSync(d));
+  }
+}
+
+/** Undo one step. Tolerates steps that were recorded but never performed. */
+function undoOp(root: string, op: JournalOp): void {
+  switch (op.op) {
+    case "write":
+    case "delete": {
+      const backup = path.join(root, JOURNAL_DIR, op.backup);
+      if (!fs.existsSync(backup)) return;
+      const file = path.join(root, op.file);
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.copyFileSync(backup, file);
+      break;
+    }
+    case "create": {
+      const file = path.join(root, op.file);
+      if (fs.existsSync(file)) fs.unlinkSync(file);
+      break;
+    }
+    case "mkdir": {
+      const dir = path.join(root, op.dir);
+      if (fs.existsSync(dir)) fs.rmdirSync(dir);
+      break;
+    }
+    case "rename": {
+      const from = path.join(root, op.from);
+      const to = path.join(root, op.to);
+      if (fs.existsSync(to) && !fs.existsSync(from)) {
+        fs.mkdirSync(path.dirname(from), { recursive: true });
+        fs.renameSync(to, from);
+      }
+      break;
+    }
+    case "rmdir":
+      fs.mkdirSync(path.join(root, op.dir), { recursive: true });
+      break;
+  }
+}
+
+/**
+ * Replay the journal backwards, restoring the pre-rebrand state. The journal
+ * directory is removed on success and kept (for another attempt) on failure.
+ */
+function rollbackJournal(root: string, journal: Journal): void {
+  const errors: string[] = [];
+  for (const op of [...journal.ops].reverse()) {
     try {
-      let content = fs.readFileSync(f, "utf8");
-      content = content.split(oldStr).join(newStr);
-      fs.writeFileSync(f, content, "utf8");
-      console.log("  updated:", path.relative(root, f));
+      undoOp(root, op);
     } catch (err) {
-      console.error("  failed to update:", path.relative(root, f), err);
+      const message = err instanceof Error ? err.message : String(err);
+      errors.push(`${op.op} ${JSON.stringify(op)}: ${message}`);
     }
   }
+  if (errors.length > 0) {
+    throw new Error(`Rollback incomplete:\n  ${errors.join("\n  ")}`);
+  }
+  fs.rmSync(path.join(root, JOURNAL_DIR), { recursive: true, force: true });
+}
+
+/**
+ * Staged contents as one unified diff against the files on disk.
+ */
+function stagedDiff(root: string, staged: Map<string, string>): string {
+  const diffs: string[] = [];
+  for (const f of [...staged.keys()].sort()) {
+    const rel = path.relative(root, f).replace(/\\/g, "/");
+    const diff = unifiedDiff(rel, fs.readFileSync(f, "utf8"), staged.get(f) as string);
+    if (diff) diffs.push(diff);
+  }
+  return diffs.join("\n");
+}
+
+/**
+ * Write staged contents to disk, backing up each original into the journal.
+ * Throws on the first failure so the caller can roll back.
+ */
+function writeStagedFiles(
+  ctx: RebrandContext,
+  staged: Map<string, string>,
+  journal: Journal
+): string[] {
+  const { root } = ctx;
+  const written: string[] = [];
+  const files = [...staged.keys()].sort();
+  for (const f of files) {
+    const rel = path.relative(root, f).replace(/\\/g, "/");
+    const after = staged.get(f) as string;
+    if (fs.readFileSync(f, "utf8") === after) continue;
+
+    const backup = backupFile(root, rel);
+    journalStep(root, journal, { op: "write", file: rel, backup }, () =>
+      fs.writeFileSync(f, after, "utf8")
+    );
+    ctx.logger.log("  updated:", rel);
+    written.push(rel);
+  }
+  return written;
 }
 
-function refactorDirs(
+/**
+ * Write (or, for null entries, delete) rendered icon assets, journaling each
+ * step. Returns the relative paths written and removed.
+ */
+function writeAssetFiles(
+  ctx: RebrandContext,
+  assets: Map<string, Buffer | null>,
+  journal: Journal
+): { written: string[]; removed: string[] } {
+  const { root } = ctx;
+  const written: string[] = [];
+  const removed: string[] = [];
+  for (const f of [...assets.keys()].sort()) {
+    const rel = path.relative(root, f).replace(/\\/g, "/");
+    const after = assets.get(f) ?? null;
+    const exists = fs.existsSync(f);
+    if (after === null) {
+      if (!exists) continue;
+      const backup = backupFile(root, rel);
+      journalStep(root, journal, { op: "delete", file: rel, backup }, () => fs.unlinkSync(f));
+      ctx.logger.log("  removed:", rel);
+      removed.push(rel);
+      continue;
+    }
+    if (exists) {
+      if (fs.readFileSync(f).equals(after)) continue;
+      const backup = backupFile(root, rel);
+      journalStep(root, journal, { op: "write", file: rel, backup }, () =>
+        fs.writeFileSync(f, after)
+      );
+    } else {
+      makeDirs(root, path.dirname(f), journal);
+      journalStep(root, journal, { op: "create", file: rel }, () => fs.writeFileSync(f, after));
+    }
+    ctx.logger.log("  icon:", rel);
+    written.push(rel);
+  }
+  return { written, removed };
+}
+
+/**
+ * Plan moving the package directory from oldPackage to newPackage in every
+ * source set of every module (see sourceRoots).
+ */
+function planDirMoves(
   root: string,
   oldPackage: string,
   newPackage: string
-): void {
-  console.log("Refactoring package directories...");
-  const oldPath = oldPackage.replace(/\./g, path.sep);
-  const newPath = newPackage.replace(/\./g, path.sep);
-
-  const kotlinBases = [
-    "composeApp/src/commonMain/kotlin",
-    "composeApp/src/androidMain/kotlin",
-    "composeApp/src/iosMain/kotlin",
-    "composeApp/src/androidInstrumentedTest/kotlin",
-  ];
-
-  for (const base of kotlinBases) {
-    const baseFull = path.join(root, base);
-    const oldDir = path.join(baseFull, oldPath);
-    const newDir = path.join(baseFull, newPath);
+): DirMove[] {
+  const oldPath = oldPackage.replace(/\./g, "/");
+  const newPath = newPackage.replace(/\./g, "/");
 
+  const moves: DirMove[] = [];
+  for (const base of sourceRoots(root)) {
+    const oldDir = path.join(root, base, oldPath);
     if (!fs.existsSync(oldDir) || !fs.statSync(oldDir).isDirectory()) continue;
+    moves.push({ base, from: `${base}/${oldPath}`, to: `${base}/${newPath}` });
+  }
+  return moves;
+}
+
+/**
+ * Move package directory contents, journaling every mkdir/rename/rmdir.
+ * Throws on the first failure so the caller can roll back.
+ */
+function refactorDirs(ctx: RebrandContext, moves: DirMove[], journal: Journal): void {
+  const { root } = ctx;
+  for (const move of moves) {
+    const oldDir = path.join(root, move.from);
+    const newDir = path.join(root, move.to);
+
+    makeDirs(root, newDir, journal);
 
-    fs.mkdirSync(newDir, { recursive: true });
     const entries = fs.readdirSync(oldDir, { withFileTypes: true });
     for (const e of entries) {
-      const src = path.join(oldDir, e.name);
-      const dest = path.join(newDir, e.name);
-      fs.renameSync(src, dest);
-    }
-
-    // Remove old empty directories
-    let current = oldPath;
-    while (current && current !== "." && current !== path.sep) {
-      const toRemove = path.join(baseFull, current);
-      try {
-        fs.rmdirSync(toRemove);
-      } catch {
-        break;
-      }
-      current = path.dirname(current);
+      const from = `${move.from}/${e.name}`;
+      const to = `${move.to}/${e.name}`;
+      journalStep(root, journal, { op: "rename", from, to }, () =>
+        fs.renameSync(path.join(root, from), path.join(root, to))
+      );
+    }
+
+    // Remove old empty directories up to (but not including) the source set root
+    let current = move.from;
+    while (current !== move.base && fs.existsSync(path.join(root, current))) {
+      const full = path.join(root, current);
+      if (fs.readdirSync(full).length > 0) break;
+      journalStep(root, journal, { op: "rmdir", dir: current }, () => fs.rmdirSync(full));
+      current = path.posix.dirname(current);
     }
 
-    console.log(
-      "  moved contents:",
-      path.join(base, oldPath),
-      "->",
-      path.join(base, newPath)
+    ctx.logger.log("  moved contents:", move.from, "->", move.to);
+  }
+}
+
+// --- Library API ---
+
+/** The identity to rebrand to; fields left out are derived as the CLI does. */
+export type IdentityInput = Pick<Identity, "packageName" | "projectName"> & Partial<Identity>;
+
+export type RebrandOptions = WalkOptions & {
+  /** Project root to rebrand. */
+  root: string;
+  to: IdentityInput;
+  /** Current identity; detected from the project when omitted, given fields override detection. */
+  from?: Partial<Identity>;
+  logger?: RebrandLogger;
+  /** Regenerate the Android and iOS launcher icons from one source image. */
+  icon?: IconOptions;
+  /** Compute the changes without touching the tree. */
+  dryRun?: boolean;
+};
+
+export type RebrandResult = {
+  from: Identity;
+  to: Identity;
+  /** Files whose content changed or that were created (or would be in a dry run), relative to root. */
+  filesChanged: string[];
+  /** Files removed (or to be removed), relative to root; replaced template icons. */
+  filesRemoved: string[];
+  /** Package directories whose contents were (or would be) moved. */
+  dirsMoved: DirMove[];
+  leftovers: Leftover[];
+  /** Unified diff of the content changes; only set for dry runs. */
+  diff?: string;
+};
+
+/**
+ * Fill in the derived fields of a new identity and validate it. Throws with a
+ * message naming the first invalid field.
+ */
+export function resolveIdentity(input: IdentityInput): Identity {
+  const { packageName, projectName } = input;
+  if (!PACKAGE_RE.test(packageName)) {
+    throw new Error(
+      `Invalid package name: ${packageName}\nPackage must contain at least one '.' (e.g. com.example.myapp). Each part must start with a letter or underscore.`
+    );
+  }
+  const identity: Identity = {
+    packageName,
+    appName: input.appName ?? projectName.replace(/-/g, " "),
+    projectName,
+    resPackagePrefix: input.resPackagePrefix ?? resPackagePrefixFor(projectName),
+    displayName: input.displayName ?? projectName.replace(/-/g, " "),
+    bundleId: input.bundleId ?? packageName,
+    applicationId: input.applicationId ?? packageName,
+  };
+  if (!isValidDisplayName(identity.displayName)) {
+    throw new Error(
+      `Invalid display name: ${JSON.stringify(identity.displayName)}\nDisplay name must be non-empty and must not contain control characters.`
+    );
+  }
+  if (!BUNDLE_ID_RE.test(identity.bundleId)) {
+    throw new Error(
+      `Invalid bundle ID: ${identity.bundleId}\nBundle ID must contain at least one '.' (e.g. com.example.myapp) and only letters, digits, '-' and '.'.`
+    );
+  }
+  if (!APPLICATION_ID_RE.test(identity.applicationId)) {
+    throw new Error(
+      `Invalid applicationId: ${identity.applicationId}\napplicationId must contain at least one '.' (e.g. com.example.myapp). Each part must start with a letter.`
     );
   }
+  return identity;
 }
 
-function main(): void {
-  const args = process.argv.slice(2);
-  if (args.length < 2) {
-    console.error("Usage: npx ts-node rebrand.ts NEW_PROJECT_NAME NEW_PACKAGE");
-    console.error("  e.g. npx ts-node rebrand.ts PistachioTemplate com.pistachio.app");
-    process.exit(1);
+/**
+ * Rebrand the project at `options.root`. Content changes and directory moves
+ * are applied as one journaled transaction; on failure the tree is rolled back
+ * and the error rethrown. With `dryRun` nothing is written.
+ */
+export function rebrand(options: RebrandOptions): RebrandResult {
+  const ctx = createContext(options);
+  const { root, logger } = ctx;
+  const dryRun = options.dryRun ?? false;
+  const next = resolveIdentity(options.to);
+
+  const given = options.from ?? {};
+  const fields = Object.keys(TEMPLATE_IDENTITY) as (keyof Identity)[];
+  let current: Identity;
+  if (fields.every((k) => given[k] !== undefined)) {
+    current = given as Identity;
+  } else {
+    logger.log("Detecting current identity...");
+    current = detectIdentityIn(ctx);
+    for (const k of fields) current[k] = given[k] ?? current[k];
   }
 
-  const [newProjectName, newPackage] = args;
+  logger.log(
+    `${dryRun ? "[dry run] " : ""}Rebranding: ${current.packageName} -> ${next.packageName}, "${current.appName}" -> "${next.appName}", ${current.projectName} -> ${next.projectName}, ${current.resPackagePrefix} -> ${next.resPackagePrefix}`
+  );
+  logger.log(
+    `  display name "${current.displayName}" -> "${next.displayName}", bundle ID ${current.bundleId} -> ${next.bundleId}, applicationId ${current.applicationId} -> ${next.applicationId}`
+  );
 
-  // Validate NEW_PACKAGE: Java/Kotlin package = dot-separated identifiers
-  const packageRe = /^[a-zA-Z_][a-zA-Z0-9_]*(\.[a-zA-Z_][a-zA-Z0-9_]*)+$/;
-  if (!packageRe.test(newPackage)) {
-    console.error("Error: Invalid package name:", newPackage);
-    console.error(
-      "Package must contain at least one '.' (e.g. com.example.myapp). Each part must start with a letter or underscore."
-    );
-    process.exit(1);
+  const staged = new Map<string, string>();
+
+  const renames = identityRenames(current, next);
+
+  logger.log("Replacing names in structural locations...");
+  replaceInFiles(ctx, renames, staged);
+
+  logger.log("Writing display name, bundle ID and applicationId...");
+  stageIdentityFiles(ctx, next, staged);
+
+  const leftovers = findLeftovers(ctx, renames, staged);
+
+  const moves = planDirMoves(root, current.packageName, next.packageName);
+
+  let assets = new Map<string, Buffer | null>();
+  if (options.icon) {
+    logger.log(`Rendering app icons from ${options.icon.source}...`);
+    assets = renderIconAssets(root, options.icon);
   }
 
-  const newAppName = newProjectName.replace(/-/g, " ");
-  const newResPackagePrefix = newProjectName
-    .toLowerCase()
-    .replace(/-/g, "_");
+  if (dryRun) {
+    const diff = stagedDiff(root, staged);
+    if (diff) logger.log(diff);
+    logger.log("Refactoring package directories...");
+    for (const move of moves) {
+      logger.log("  would move contents:", move.from, "->", move.to);
+    }
+    const relative = (f: string): string => path.relative(root, f).replace(/\\/g, "/");
+    const iconFiles = [...assets.keys()].filter((f) => assets.get(f) !== null).map(relative);
+    const filesRemoved = [...assets.keys()].filter((f) => assets.get(f) === null).map(relative).sort();
+    if (assets.size > 0) {
+      logger.log("Writing app icons...");
+      for (const f of [...iconFiles].sort()) logger.log("  would write icon:", f);
+      for (const f of filesRemoved) logger.log("  would remove:", f);
+    }
+    printLeftovers(logger, leftovers);
+    logger.log("Dry run done. No files were changed.");
+    const filesChanged = [...new Set([...[...staged.keys()].map(relative), ...iconFiles])].sort();
+    return { from: current, to: next, filesChanged, filesRemoved, dirsMoved: moves, leftovers, diff };
+  }
+
+  const journal = beginJournal(root);
+  let filesChanged: string[];
+  let filesRemoved: string[] = [];
+  try {
+    logger.log("Writing files...");
+    filesChanged = writeStagedFiles(ctx, staged, journal);
 
+    if (assets.size > 0) {
+      logger.log("Writing app icons...");
+      const icons = writeAssetFiles(ctx, assets, journal);
+      filesChanged = [...filesChanged, ...icons.written].sort();
+      filesRemoved = icons.removed;
+    }
+
+    logger.log("Refactoring package directories...");
+    refactorDirs(ctx, moves, journal);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    logger.error("Rebrand failed:", message);
+    logger.error("Rolling back...");
+    try {
+      rollbackJournal(root, journal);
+    } catch (rollbackErr) {
+      const rollbackMessage = rollbackErr instanceof Error ? rollbackErr.message : String(rollbackErr);
+      throw new Error(`Rebrand failed: ${message}\n${rollbackMessage}`);
+    }
+    logger.error("Rollback done. No files were changed.");
+    throw new Error(`Rebrand failed and was rolled back: ${message}`);
+  }
+
+  journal.status = "committed";
+  saveJournal(root, journal);
+  printLeftovers(logger, leftovers);
+  return { from: current, to: next, filesChanged, filesRemoved, dirsMoved: moves, leftovers };
+}
+
+/**
+ * Undo the last rebrand of the project at `options.root` using its journal.
+ * Throws when there is no journal or some step could not be undone.
+ */
+export function rollback(options: { root: string; logger?: RebrandLogger }): void {
+  const ctx = createContext(options);
+  const journal = loadJournal(ctx.root);
+  if (!journal) throw new Error(`No rebrand journal found in ${JOURNAL_DIR}`);
+  ctx.logger.log(`Rolling back rebrand started at ${journal.startedAt}...`);
+  rollbackJournal(ctx.root, journal);
+  ctx.logger.log("Rollback done.");
+}
+
+// --- CLI ---
+
+const USAGE = [
+  "Usage: npx tsx rebrand.ts [options] NEW_PROJECT_NAME NEW_PACKAGE",
+  "       npx tsx rebrand.ts --rollback",
+  "       npx tsx rebrand.ts verify [--json] [file options]",
+  "  e.g. npx tsx rebrand.ts PistachioTemplate com.pistachio.app",
+  "",
+  "Options:",
+  "  --display-name NAME     Name shown under the app icon (default: NEW_PROJECT_NAME with '-' as spaces)",
+  "  --bundle-id ID          iOS bundle identifier (default: NEW_PACKAGE)",
+  "  --application-id ID     Android applicationId (default: NEW_PACKAGE)",
+  "  --icon FILE             Regenerate Android and iOS launcher icons from a square PNG or SVG",
+  "                          (needs ffmpeg; SVG also needs rsvg-convert)",
+  "  --icon-background COLOR Icon background as #RGB or #RRGGBB (default: #FFFFFF)",
+  "  --dry-run               Print a diff of the planned changes without writing anything",
+  "",
+  "File options:",
+  "  --exclude GLOB          Leave paths matching GLOB (gitignore syntax) untouched; repeatable",
+  "  --include GLOB          Look at paths matching GLOB even if ignored or excluded; repeatable",
+  "  --no-gitignore          Do not honour .gitignore files",
+  "  --no-rcloneignore       Do not honour .rcloneignore",
+].join("\n");
+
+/** Options that take a value, by flag name. */
+const VALUE_OPTIONS = [
+  "--display-name",
+  "--bundle-id",
+  "--application-id",
+  "--icon",
+  "--icon-background",
+] as const;
+
+/** Value options that may be given more than once. */
+const LIST_OPTIONS = ["--exclude", "--include"] as const;
+
+type CliArgs = {
+  positional: string[];
+  flags: Set<string>;
+  values: Map<string, string>;
+  lists: Map<string, string[]>;
+};
+
+/**
+ * Split argv into positional arguments, boolean flags and `--opt value` /
+ * `--opt=value` options. Throws on a value option without a value.
+ */
+function parseCliArgs(argv: string[]): CliArgs {
+  const out: CliArgs = { positional: [], flags: new Set(), values: new Map(), lists: new Map() };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      out.positional.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf("=");
+    const name = eq === -1 ? arg : arg.slice(0, eq);
+    const isList = (LIST_OPTIONS as readonly string[]).includes(name);
+    if (isList || (VALUE_OPTIONS as readonly string[]).includes(name)) {
+      const value = eq === -1 ? argv[++i] : arg.slice(eq + 1);
+      if (value === undefined) throw new Error(`Missing value for ${name}`);
+      if (isList) out.lists.set(name, [...(out.lists.get(name) ?? []), value]);
+      else out.values.set(name, value);
+    } else {
+      out.flags.add(arg);
+    }
+  }
+  return out;
+}
+
+function main(): void {
   const root = path.resolve(__dirname);
-  process.chdir(root);
 
-  console.log(
-    `Rebranding: ${OLD_PACKAGE} -> ${newPackage}, "${OLD_APP_NAME}" -> "${newAppName}", ${OLD_PROJECT_NAME} -> ${newProjectName}, ${OLD_RES_PACKAGE_PREFIX} -> ${newResPackagePrefix}`
-  );
+  let cli: CliArgs;
+  try {
+    cli = parseCliArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error("Error:", err instanceof Error ? err.message : err);
+    console.error(USAGE);
+    process.exit(1);
+  }
 
-  console.log("Replacing package name...");
-  replaceInFiles(root, OLD_PACKAGE, newPackage);
+  const walk: WalkOptions = {
+    exclude: cli.lists.get("--exclude"),
+    include: cli.lists.get("--include"),
+    gitignore: !cli.flags.has("--no-gitignore"),
+    rcloneignore: !cli.flags.has("--no-rcloneignore"),
+  };
+
+  if (cli.positional[0] === "verify") {
+    const report = verify({ root, ...walk });
+    if (cli.flags.has("--json")) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      printVerifyReport(report);
+    }
+    process.exit(report.ok ? 0 : 1);
+  }
 
-  console.log("Replacing app name...");
-  replaceInFiles(root, OLD_APP_NAME, newAppName);
+  if (cli.flags.has("--rollback")) {
+    try {
+      rollback({ root });
+    } catch (err) {
+      console.error("Error:", err instanceof Error ? err.message : err);
+      process.exit(1);
+    }
+    return;
+  }
 
-  console.log("Replacing project name...");
-  replaceInFiles(root, OLD_PROJECT_NAME, newProjectName);
+  if (cli.positional.length < 2) {
+    console.error(USAGE);
+    process.exit(1);
+  }
 
-  console.log("Replacing Compose resources package prefix...");
-  replaceInFiles(root, OLD_RES_PACKAGE_PREFIX, newResPackagePrefix);
+  const [newProjectName, newPackage] = cli.positional;
+  const dryRun = cli.flags.has("--dry-run");
+  const iconSource = cli.values.get("--icon");
+  if (!iconSource && cli.values.has("--icon-background")) {
+    console.error("Error: --icon-background needs --icon");
+    process.exit(1);
+  }
 
-  refactorDirs(root, OLD_PACKAGE, newPackage);
+  try {
+    rebrand({
+      root,
+      ...walk,
+      dryRun,
+      to: {
+        packageName: newPackage,
+        projectName: newProjectName,
+        displayName: cli.values.get("--display-name"),
+        bundleId: cli.values.get("--bundle-id"),
+        applicationId: cli.values.get("--application-id"),
+      },
+      icon: iconSource
+        ? { source: iconSource, background: cli.values.get("--icon-background") ?? "#FFFFFF" }
+        : undefined,
+    });
+  } catch (err) {
+    console.error("Error:", err instanceof Error ? err.message : err);
+    if (!dryRun && loadJournal(root)?.status === "in-progress") {
+      console.error("Fix the errors above and run `npx tsx rebrand.ts --rollback`.");
+    }
+    process.exit(1);
+  }
 
-  console.log("Rebrand done.");
+  if (!dryRun) console.log(`Rebrand done. Undo with \`npx tsx rebrand.ts --rollback\`.`);
 }
 
-main();
+if (process.argv[1]?.endsWith("rebrand.ts")) {
+  main();
+}
@@ -2,16 +2,28 @@
 
 /**
  * Usage: npx tsx genIpaUnsigned.ts [project_dir] [app_name] [export_path]
- * Pass path to Pistachio project. app_name must match iosApp/Configuration/Config.xcconfig. IPA is written to export_path (default: project_dir).
+ * Pass path to Pistachio project. app_name must match iosApp/Configuration/Config.xcconfig (default: read from it). IPA is written to export_path (default: project_dir).
  */
 
 import { execSync, type ExecSyncOptions } from "child_process";
-import { existsSync, mkdirSync, readdirSync, rmSync, cpSync, unlinkSync } from "fs";
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, cpSync, unlinkSync } from "fs";
 import { join } from "path";
 import { platform } from "os";
 
+/** APP_NAME from iosApp/Configuration/Config.xcconfig, i.e. the name of the built .app */
+function readAppName(projectDir: string): string {
+  const xcconfig = join(projectDir, "iosApp", "Configuration", "Config.xcconfig");
+  const appName = existsSync(xcconfig)
+    ? readFileSync(xcconfig, "utf8").match(/^\s*APP_NAME\s*=\s*(.+?)\s*$/m)?.[1]
+    : undefined;
+  if (!appName) {
+    throw new Error(`APP_NAME not found in ${xcconfig}; pass app_name explicitly.`);
+  }
+  return appName;
+}
+
 const PROJECT_DIR = process.argv[2] ?? ".";
-const APP_NAME = process.argv[3] ?? "KMP App";
+const APP_NAME = process.argv[3] ?? readAppName(PROJECT_DIR);
 const EXPORT_PATH = process.argv[4] ?? PROJECT_DIR;
 const WORK_DIR = join(PROJECT_DIR, "iosApp");
 const ARCHIVE_PATH = join(WORK_DIR, "iosApp.xcarchive");
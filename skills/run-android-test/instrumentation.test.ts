@@ -0,0 +1,105 @@
+/**
+ * Tests for instrumentation.ts against recorded `am instrument -r` output in
+ * fixtures/.
+ *
+ * Usage: npx tsx --test instrumentation.test.ts
+ */
+
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { instrumentationPassed, parseInstrumentationOutput } from "./instrumentation";
+
+const LIST_TEST = "com.example.app.ListScreenTest";
+const DETAIL_TEST = "com.example.app.DetailScreenTest";
+
+function fixture(name: string): string {
+    return readFileSync(join(__dirname, "fixtures", name), "utf8");
+}
+
+describe("parseInstrumentationOutput", () => {
+    it("reports every test of a passing run", () => {
+        const run = parseInstrumentationOutput(fixture("passing.txt"));
+        assert.deepEqual(
+            run.tests.map((t) => [t.className, t.method, t.status]),
+            [
+                [LIST_TEST, "scrollsList", "passed"],
+                [DETAIL_TEST, "showsDetails", "passed"],
+            ]
+        );
+        assert.equal(run.expectedTests, 2);
+        assert.equal(run.resultCode, -1);
+        assert.equal(run.crash, undefined);
+        assert.match(run.result.stream, /OK \(2 tests\)/);
+    });
+
+    it("passes a run whose test output mentions a handled exception", () => {
+        const run = parseInstrumentationOutput(fixture("passing.txt"));
+        assert.match(run.tests[1].stream ?? "", /java\.lang\.IllegalStateException/);
+        assert.equal(instrumentationPassed(run), true);
+    });
+
+    it("keeps the multi-line stack trace and stream of a failed test", () => {
+        const run = parseInstrumentationOutput(fixture("failure.txt"));
+        const [failed, passed] = run.tests;
+        assert.equal(failed.status, "failed");
+        assert.match(failed.stack ?? "", /^java\.lang\.AssertionError: Failed to assert/);
+        assert.match(failed.stack ?? "", /ListScreenTest\.kt:42\)$/);
+        assert.match(failed.stream ?? "", /^Error in scrollsList/);
+        assert.equal(passed.status, "passed");
+        assert.equal(instrumentationPassed(run), false);
+    });
+
+    it("reports the running test as an error when the process crashes", () => {
+        const run = parseInstrumentationOutput(fixture("crash.txt"));
+        assert.deepEqual(run.tests, [
+            { className: LIST_TEST, method: "scrollsList", status: "error", stack: "Process crashed." },
+        ]);
+        assert.equal(run.crash, "Process crashed.");
+        assert.equal(instrumentationPassed(run), false);
+    });
+
+    it("does not fail a run on an assumption failure", () => {
+        const run = parseInstrumentationOutput(fixture("assumption-failure.txt"));
+        assert.equal(run.tests[0].status, "assumption-failure");
+        assert.match(run.tests[0].stack ?? "", /^org\.junit\.AssumptionViolatedException/);
+        assert.equal(instrumentationPassed(run), true);
+    });
+
+    it("does not fail a run on an ignored test", () => {
+        const run = parseInstrumentationOutput(fixture("ignored.txt"));
+        assert.deepEqual(
+            run.tests.map((t) => t.status),
+            ["ignored", "passed"]
+        );
+        assert.equal(instrumentationPassed(run), true);
+    });
+
+    it("fails a run cut off before every announced test reported", () => {
+        const output = fixture("passing.txt");
+        const cut = output.slice(0, output.indexOf(`INSTRUMENTATION_STATUS: class=${DETAIL_TEST}`));
+        const run = parseInstrumentationOutput(cut);
+        assert.equal(run.tests.length, 1);
+        assert.match(run.crash ?? "", /did not report a result/);
+        assert.equal(instrumentationPassed(run), false);
+    });
+
+    it("times tests from the arrival of their start and end statuses", () => {
+        const lines = fixture("passing.txt")
+            .split("\n")
+            .map((text, i) => ({ at: 1000 + i * 100, text }));
+        const run = parseInstrumentationOutput(lines);
+        // Start and end status codes are 7 lines apart in the fixture
+        assert.equal(run.tests[0].durationMs, 700);
+    });
+
+    it("reports INSTRUMENTATION_FAILED as a crash", () => {
+        const run = parseInstrumentationOutput(
+            "INSTRUMENTATION_FAILED: com.example.app.test/androidx.test.runner.AndroidJUnitRunner\nINSTRUMENTATION_CODE: 0"
+        );
+        assert.deepEqual(run.tests, []);
+        assert.match(run.crash ?? "", /AndroidJUnitRunner/);
+        assert.equal(instrumentationPassed(run), false);
+    });
+});
@@ -0,0 +1,160 @@
+/**
+ * Parser for the status protocol `am instrument -r` prints while
+ * AndroidJUnitRunner runs tests. Each test reports a block of
+ * INSTRUMENTATION_STATUS key/value lines closed by an INSTRUMENTATION_STATUS_CODE
+ * line, once when it starts and once when it ends; the run itself ends with
+ * INSTRUMENTATION_RESULT lines and an INSTRUMENTATION_CODE.
+ */
+
+/** One line of instrumentation output with the time it arrived (ms since epoch) */
+export type TimedLine = { at?: number; text: string };
+
+/** Outcome of one test as reported by `am instrument -r` */
+export type InstrumentationTestStatus = "passed" | "failed" | "error" | "ignored" | "assumption-failure";
+
+/** Final INSTRUMENTATION_STATUS_CODE of a test, from androidx.test's InstrumentationResultPrinter */
+const STATUS_BY_CODE: Record<number, InstrumentationTestStatus> = {
+    0: "passed",
+    [-1]: "error",
+    [-2]: "failed",
+    [-3]: "ignored",
+    [-4]: "assumption-failure",
+};
+const STATUS_CODE_START = 1;
+
+export type InstrumentationTest = {
+    className: string;
+    method: string;
+    status: InstrumentationTestStatus;
+    /** Stack trace of the failure, assumption failure or crash */
+    stack?: string;
+    /** From the start status to the end status; only known for streamed (timed) lines */
+    durationMs?: number;
+    /** Text the runner streamed for this test (progress marks, failure summaries) */
+    stream?: string;
+};
+
+/** Everything `am instrument -r` reported for one run */
+export type InstrumentationRun = {
+    tests: InstrumentationTest[];
+    /** Number of tests the runner announced (numtests), when it got that far */
+    expectedTests?: number;
+    /** INSTRUMENTATION_CODE; -1 (Activity.RESULT_OK) when the runner finished normally */
+    resultCode?: number;
+    /** INSTRUMENTATION_RESULT values, e.g. stream, shortMsg, longMsg */
+    result: Record<string, string>;
+    /** Why the run did not finish normally (app crash, missing runner, ...); undefined if it did */
+    crash?: string;
+};
+
+const RESULT_CODE_OK = -1;
+
+const NOT_FINISHED_STACK = "Test did not finish (instrumentation process crashed or was killed)";
+
+/**
+ * Parse the `am instrument -r` output into one record per test plus the run's
+ * result. A test that started but never finished (the process died) is
+ * reported as an error. Accepts raw output or timed lines from a live stream.
+ */
+export function parseInstrumentationOutput(input: string | TimedLine[]): InstrumentationRun {
+    const lines: TimedLine[] = typeof input === "string" ? input.split(/\r?\n/).map((text) => ({ text })) : input;
+    const run: InstrumentationRun = { tests: [], result: {} };
+    // Values of the block being read; a key's value continues until the next key line
+    let values = new Map<string, string>();
+    let lastKey: string | undefined;
+    let started: { className: string; method: string; at?: number } | undefined;
+    const failures: string[] = [];
+    const takeResultValues = (): void => {
+        for (const [key, value] of values) {
+            if (key.startsWith("result:")) run.result[key.slice("result:".length)] = value.trim();
+        }
+    };
+
+    for (const { at, text } of lines) {
+        const keyValue = /^INSTRUMENTATION_(STATUS|RESULT): ([^=]+)=(.*)$/.exec(text);
+        if (keyValue) {
+            lastKey = keyValue[1] === "RESULT" ? `result:${keyValue[2]}` : keyValue[2];
+            values.set(lastKey, keyValue[3]);
+            continue;
+        }
+        const statusCode = /^INSTRUMENTATION_STATUS_CODE: (-?\d+)/.exec(text);
+        if (statusCode) {
+            const code = parseInt(statusCode[1], 10);
+            const className = values.get("class") ?? "";
+            const method = values.get("test") ?? "";
+            const numTests = parseInt(values.get("numtests") ?? "", 10);
+            if (!Number.isNaN(numTests)) run.expectedTests = numTests;
+            if (code === STATUS_CODE_START) {
+                started = { className, method, at };
+            } else if (className && method) {
+                const sameTest = started?.className === className && started.method === method;
+                run.tests.push({
+                    className,
+                    method,
+                    status: STATUS_BY_CODE[code] ?? "error",
+                    stack: values.get("stack")?.trim() || undefined,
+                    durationMs:
+                        sameTest && started?.at !== undefined && at !== undefined ? at - started.at : undefined,
+                    stream: values.get("stream")?.trim() || undefined,
+                });
+                started = undefined;
+            }
+            values = new Map();
+            lastKey = undefined;
+            continue;
+        }
+        const resultCode = /^INSTRUMENTATION_CODE: (-?\d+)/.exec(text);
+        if (resultCode) {
+            run.resultCode = parseInt(resultCode[1], 10);
+            takeResultValues();
+            values = new Map();
+            lastKey = undefined;
+            continue;
+        }
+        const failed = /^INSTRUMENTATION_FAILED: (.*)$/.exec(text);
+        if (failed) {
+            failures.push(failed[1]);
+            lastKey = undefined;
+            continue;
+        }
+        // Values such as stack traces continue on the following lines
+        if (lastKey) values.set(lastKey, `${values.get(lastKey)}\n${text}`);
+    }
+
+    // Output cut off before INSTRUMENTATION_CODE still carries the result values read so far
+    if (run.resultCode === undefined) takeResultValues();
+
+    if (started?.className && started.method) {
+        run.tests.push({
+            className: started.className,
+            method: started.method,
+            status: "error",
+            stack: run.result.longMsg ?? run.result.shortMsg ?? NOT_FINISHED_STACK,
+        });
+    }
+
+    if (failures.length > 0) {
+        run.crash = failures.join("\n");
+    } else if (run.result.shortMsg) {
+        // e.g. "Process crashed." when the app under test dies mid-run
+        run.crash = run.result.longMsg ? `${run.result.shortMsg} ${run.result.longMsg}` : run.result.shortMsg;
+    } else if (run.resultCode === undefined) {
+        run.crash = "Instrumentation did not report a result (process killed or adb disconnected)";
+    } else if (run.resultCode !== RESULT_CODE_OK) {
+        run.crash = `Instrumentation finished with code ${run.resultCode}`;
+    }
+    return run;
+}
+
+/**
+ * True when the run finished normally, every announced test reported, and no
+ * test failed or errored. Ignored tests and assumption failures do not fail a run.
+ */
+export function instrumentationPassed(run: InstrumentationRun): boolean {
+    return (
+        run.crash === undefined &&
+        run.tests.length > 0 &&
+        (run.expectedTests === undefined || run.tests.length >= run.expectedTests) &&
+        run.tests.every((test) => test.status !== "failed" && test.status !== "error")
+    );
+}
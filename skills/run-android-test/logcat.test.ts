@@ -0,0 +1,121 @@
+/**
+ * Tests for logcat.ts against recorded `logcat -v epoch` output and an ANR
+ * trace in fixtures/.
+ *
+ * Usage: npx tsx --test logcat.test.ts
+ */
+
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { parseAnrTrace, parseAppLogcat, parseLogcatLine } from "./logcat";
+
+const PACKAGE_NAME = "com.example.app";
+
+function fixture(name: string): string {
+    return readFileSync(join(__dirname, "fixtures", name), "utf8");
+}
+
+describe("parseLogcatLine", () => {
+    it("splits time, process, level, tag and message", () => {
+        assert.deepEqual(parseLogcatLine("1767607206.452  4431  4431 F DEBUG   : backtrace:"), {
+            time: 1767607206.452,
+            pid: 4431,
+            tid: 4431,
+            level: "F",
+            tag: "DEBUG",
+            message: "backtrace:",
+            text: "1767607206.452  4431  4431 F DEBUG   : backtrace:",
+        });
+        assert.equal(parseLogcatLine("--------- beginning of crash"), undefined);
+    });
+});
+
+describe("parseAppLogcat", () => {
+    it("reports a fatal exception with the app's own frames", () => {
+        const { appLog, crashes } = parseAppLogcat(fixture("logcat-crash.txt"), PACKAGE_NAME);
+        assert.deepEqual(crashes, [
+            {
+                kind: "crash",
+                process: PACKAGE_NAME,
+                pid: 4312,
+                type: "java.lang.IllegalStateException",
+                message: "Museum object 42 not found",
+                frames: [
+                    "com.example.app.data.MuseumRepository.getObject(MuseumRepository.kt:31)",
+                    "com.example.app.screens.detail.DetailViewModel.<init>(DetailViewModel.kt:14)",
+                    "com.example.app.data.InMemoryMuseumStorage.get(InMemoryMuseumStorage.kt:12)",
+                ],
+                time: 1767607203.118,
+            },
+        ]);
+        // Only what the app's process logged; the kill after the crash is not reported again
+        assert.ok(appLog.every((line) => line.pid === 4312));
+        assert.deepEqual(
+            appLog.map((line) => line.tag).filter((tag, i, tags) => tags.indexOf(tag) === i),
+            ["TestRunner", "TestStep", "MuseumRepository", "AndroidRuntime"]
+        );
+    });
+
+    it("reports a native crash with its signal, symbolised app frames and tombstone", () => {
+        const { appLog, crashes } = parseAppLogcat(fixture("logcat-native-crash.txt"), PACKAGE_NAME);
+        assert.deepEqual(crashes, [
+            {
+                kind: "native-crash",
+                process: PACKAGE_NAME,
+                pid: 4388,
+                type: "SIGSEGV",
+                message: "signal 11 (SIGSEGV), code 1 (SEGV_MAPERR), fault addr 0x0000000000000000",
+                frames: [
+                    "libimagedecoder.so (decode_tile+132)",
+                    "libimagedecoder.so (Java_com_example_app_images_NativeDecoder_decode+88)",
+                ],
+                time: 1767607206.452,
+                deviceFile: "/data/tombstones/tombstone_03",
+            },
+        ]);
+        assert.match(appLog.map((line) => line.text).join("\n"), /Fatal signal 11 \(SIGSEGV\)/);
+    });
+
+    it("reports ANRs with their trace file and kills that are not the end of the run", () => {
+        const { crashes } = parseAppLogcat(fixture("logcat-anr.txt"), PACKAGE_NAME);
+        assert.deepEqual(
+            crashes.map((crash) => [crash.kind, crash.process, crash.pid, crash.message, crash.deviceFile]),
+            [
+                [
+                    "anr",
+                    PACKAGE_NAME,
+                    4502,
+                    "Input dispatching timed out (c5e2b1a com.example.app/com.example.app.MainActivity is not responding. Waited 5001ms for MotionEvent)",
+                    "/data/anr/anr_2026-01-05-10-01-51-633",
+                ],
+                [
+                    "killed",
+                    "com.example.app:sync",
+                    4611,
+                    "excessive cpu 52030 during 300064 dur=1282451 limit=25",
+                    undefined,
+                ],
+            ]
+        );
+    });
+
+    it("ignores other apps", () => {
+        const { appLog, crashes } = parseAppLogcat(fixture("logcat-crash.txt"), "com.example.other");
+        assert.deepEqual([appLog, crashes], [[], []]);
+    });
+});
+
+describe("parseAnrTrace", () => {
+    it("reads the main thread of the process, the app's frames first", () => {
+        assert.deepEqual(parseAnrTrace(fixture("anr-trace.txt"), 4502, PACKAGE_NAME), [
+            "com.example.app.screens.detail.DetailScreenKt.loadImageBlocking(DetailScreen.kt:88)",
+            "com.example.app.screens.detail.DetailScreenKt$DetailScreen$1.invoke(DetailScreen.kt:41)",
+        ]);
+        assert.deepEqual(parseAnrTrace(fixture("anr-trace.txt"), 612, PACKAGE_NAME), [
+            "android.os.MessageQueue.nativePollOnce(Native method)",
+        ]);
+        assert.deepEqual(parseAnrTrace(fixture("anr-trace.txt"), 9999, PACKAGE_NAME), []);
+    });
+});
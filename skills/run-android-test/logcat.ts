@@ -0,0 +1,225 @@
+/**
+ * Parsers for what Android logs when an app crashes, hangs or is killed:
+ * `logcat -v epoch` output (AndroidRuntime fatal exceptions, debuggerd native
+ * crash dumps, ActivityManager ANR reports, kills) and the ANR traces the
+ * system writes to /data/anr.
+ */
+
+import type { ReportCrash } from "../test-runner-core/report";
+
+/** Stack frames kept per crash */
+const MAX_CRASH_FRAMES = 5;
+
+/** One line of `logcat -v epoch` output */
+export type LogcatLine = {
+    /** Seconds since 1970 */
+    time: number;
+    pid: number;
+    tid: number;
+    /** V, D, I, W, E, F or A */
+    level: string;
+    tag: string;
+    message: string;
+    text: string;
+};
+
+/** A crash found in logcat; deviceFile is its tombstone or ANR trace on the device, when logged */
+export type LogcatCrash = ReportCrash & { deviceFile?: string };
+
+/** What logcat recorded about the app during a run */
+export type AppLogcat = {
+    /** Lines the app's processes logged */
+    appLog: LogcatLine[];
+    crashes: LogcatCrash[];
+};
+
+/** Kill reasons of a normal end of the run, not worth reporting */
+const EXPECTED_KILL = /^(finished inst|stop |remove task)/;
+
+/** Parse "1767607203.118  4312  4330 E AndroidRuntime: FATAL EXCEPTION: main"; undefined for other lines */
+export function parseLogcatLine(text: string): LogcatLine | undefined {
+    const match = /^\s*(\d+\.\d+)\s+(\d+)\s+(\d+)\s+([VDIWEFA])\s+([^:]*?)\s*: ?(.*)$/.exec(text);
+    if (!match) return undefined;
+    return {
+        time: parseFloat(match[1]),
+        pid: parseInt(match[2], 10),
+        tid: parseInt(match[3], 10),
+        level: match[4],
+        tag: match[5],
+        message: match[6],
+        text,
+    };
+}
+
+/** The first frames in the app's own code, or the top of the stack when none are */
+function topFrames(frames: string[], isAppFrame: (frame: string) => boolean): string[] {
+    const app = frames.filter(isAppFrame);
+    return (app.length > 0 ? app : frames).slice(0, MAX_CRASH_FRAMES);
+}
+
+/**
+ * Find the app's processes, their log lines and their crashes, ANRs and kills
+ * in `logcat -v epoch` output of the main, system and crash buffers. A process
+ * belongs to the app when its name is the package or "<package>:<name>".
+ */
+export function parseAppLogcat(logcat: string, packageName: string): AppLogcat {
+    const isApp = (process: string): boolean => process === packageName || process.startsWith(`${packageName}:`);
+    const isJavaAppFrame = (frame: string): boolean => frame.startsWith(`${packageName}.`);
+    const appPids = new Set<number>();
+    const lines: LogcatLine[] = [];
+    const crashes: LogcatCrash[] = [];
+    // Frames of each crash; native ones keep their library path until the app's are picked
+    const frames = new Map<LogcatCrash, string[]>();
+    let java: { crash: LogcatCrash; pid: number } | undefined;
+    let native: { crash: LogcatCrash; inBacktrace: boolean } | undefined;
+    let anr: { crash: LogcatCrash; pid: number } | undefined;
+    // ActivityManager dumps the stack traces before it logs the ANR they belong to
+    let anrTraceFile: string | undefined;
+    const newCrash = (crash: LogcatCrash): LogcatCrash => {
+        crashes.push(crash);
+        frames.set(crash, []);
+        return crash;
+    };
+
+    for (const text of logcat.split(/\r?\n/)) {
+        const line = parseLogcatLine(text);
+        if (!line) continue;
+        lines.push(line);
+        const { tag, message, time } = line;
+
+        const started = /^Start proc (\d+):([^/\s]+)\//.exec(message);
+        if (started && isApp(started[2])) appPids.add(parseInt(started[1], 10));
+
+        if (tag === "AndroidRuntime") {
+            if (message.startsWith("FATAL EXCEPTION:")) {
+                java = {
+                    crash: newCrash({ kind: "crash", process: "", pid: line.pid, message: "", frames: [], time }),
+                    pid: line.pid,
+                };
+                continue;
+            }
+            if (java?.pid !== line.pid) continue;
+            const process = /^Process: ([^,]+), PID: (\d+)/.exec(message);
+            const frame = /^\s*at (.*)$/.exec(message);
+            if (process) {
+                java.crash.process = process[1];
+                java.crash.pid = parseInt(process[2], 10);
+            } else if (frame) {
+                frames.get(java.crash)?.push(frame[1]);
+            } else if (java.crash.type === undefined && message.trim()) {
+                const separator = message.indexOf(": ");
+                java.crash.type = separator === -1 ? message.trim() : message.slice(0, separator);
+                java.crash.message = separator === -1 ? "" : message.slice(separator + 2);
+            }
+            continue;
+        }
+
+        if (tag === "DEBUG") {
+            if (message.startsWith("*** *** ***")) {
+                native = {
+                    crash: newCrash({ kind: "native-crash", process: "", message: "", frames: [], time }),
+                    inBacktrace: false,
+                };
+                continue;
+            }
+            if (!native) continue;
+            const process = /^pid: (\d+), tid: \d+, name: .*>>> (\S+) <<</.exec(message);
+            const signal = /^signal \d+ \((\w+)\)/.exec(message);
+            const abort = /^Abort message: '(.*)'$/.exec(message);
+            const frame = /^\s*#\d+ pc [0-9a-f]+\s+(\S+)(?: \((.*?)\))?/.exec(message);
+            if (process) {
+                native.crash.pid = parseInt(process[1], 10);
+                native.crash.process = process[2];
+            } else if (signal) {
+                native.crash.type = signal[1];
+                if (!native.crash.message) native.crash.message = message;
+            } else if (abort) {
+                native.crash.message = abort[1];
+            } else if (message.trim() === "backtrace:") {
+                native.inBacktrace = true;
+            } else if (native.inBacktrace && frame) {
+                frames.get(native.crash)?.push(frame[2] ? `${frame[1]} (${frame[2]})` : frame[1]);
+            } else if (native.inBacktrace) {
+                native.inBacktrace = false;
+            }
+            continue;
+        }
+
+        const tombstone = /^Tombstone written to: (\S+)/.exec(message);
+        if (tombstone && native) {
+            native.crash.deviceFile = tombstone[1];
+            continue;
+        }
+
+        if (tag === "ActivityManager") {
+            const anrIn = /^ANR in (\S+)/.exec(message);
+            const killing = /^Killing (\d+):([^/\s]+)\/\S+ \(adj -?\d+\): (.*)$/.exec(message);
+            const dumping = /^Dumping to (\/data\/anr\/\S+)/.exec(message);
+            if (anrIn) {
+                const crash = newCrash({ kind: "anr", process: anrIn[1], message: "", frames: [], time });
+                if (anrTraceFile) crash.deviceFile = anrTraceFile;
+                anrTraceFile = undefined;
+                anr = { crash, pid: line.pid };
+            } else if (anr && line.pid === anr.pid && /^PID: (\d+)$/.test(message)) {
+                anr.crash.pid = parseInt(message.slice("PID: ".length), 10);
+            } else if (anr && line.pid === anr.pid && message.startsWith("Reason: ")) {
+                anr.crash.message = message.slice("Reason: ".length);
+            } else if (dumping) {
+                anrTraceFile = dumping[1];
+            } else if (killing && !EXPECTED_KILL.test(killing[3])) {
+                const pid = parseInt(killing[1], 10);
+                newCrash({ kind: "killed", process: killing[2], pid, message: killing[3], frames: [], time });
+            }
+            continue;
+        }
+
+        const lowMemory = /^Kill '([^']+)' \((\d+)\)/.exec(message);
+        if (lowMemory && (tag === "lowmemorykiller" || tag === "lmkd")) {
+            const pid = parseInt(lowMemory[2], 10);
+            newCrash({ kind: "killed", process: lowMemory[1], pid, message: "low memory killer", frames: [], time });
+        }
+    }
+
+    for (const crash of crashes) {
+        if (crash.kind !== "killed" && crash.pid !== undefined && isApp(crash.process)) appPids.add(crash.pid);
+    }
+    // A crashed or hung process is killed afterwards; the crash or ANR already tells why
+    const explained = new Set(crashes.filter((crash) => crash.kind !== "killed").map((crash) => crash.pid));
+    const appCrashes = crashes.filter(
+        (crash) => isApp(crash.process) && !(crash.kind === "killed" && explained.has(crash.pid))
+    );
+    for (const crash of appCrashes) {
+        const raw = frames.get(crash) ?? [];
+        // Native frames are "/data/app/~~x==/<package>-y==/lib/arm64/libapp.so (symbol+20)" until here
+        crash.frames =
+            crash.kind === "native-crash"
+                ? topFrames(raw, (frame) => frame.includes(`/${packageName}-`)).map((frame) =>
+                      frame.replace(/^\S*\//, "")
+                  )
+                : topFrames(raw, isJavaAppFrame);
+    }
+    return { appLog: lines.filter((line) => appPids.has(line.pid)), crashes: appCrashes };
+}
+
+/**
+ * Frames of the main thread of process pid in an ANR trace
+ * (/data/anr/anr_* or traces.txt), the app's own first.
+ */
+export function parseAnrTrace(trace: string, pid: number, packageName: string): string[] {
+    const lines = trace.split(/\r?\n/);
+    const start = lines.findIndex((line) => line.startsWith(`----- pid ${pid} at `));
+    if (start === -1) return [];
+    const frames: string[] = [];
+    let inMain = false;
+    for (const line of lines.slice(start + 1)) {
+        if (line.startsWith(`----- end ${pid} -----`)) break;
+        if (line.startsWith('"')) {
+            if (inMain) break;
+            inMain = line.startsWith('"main" ');
+            continue;
+        }
+        const frame = /^\s+at (.*)$/.exec(line);
+        if (inMain && frame) frames.push(frame[1]);
+    }
+    return topFrames(frames, (frame) => frame.startsWith(`${packageName}.`));
+}
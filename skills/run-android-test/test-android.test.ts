@@ -0,0 +1,591 @@
+/**
+ * Tests for the Android runner against a fake adb, emulator and gradlew that
+ * replay recorded output (see test-runner-core/fake-env.ts), so they run
+ * without the Android SDK or a device.
+ *
+ * Usage: npx tsx --test test-android.test.ts
+ */
+
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { createFakeEnv, type FakeCommand, type FakeEnv, fakeFrameExtraction } from "../test-runner-core/fake-env";
+import type { FramesIndex } from "../test-runner-core/frames";
+import {
+    parseArgs,
+    parseFocusedWindow,
+    parseStepMarkers,
+    resolveDevices,
+    runAndroidTest,
+    type TestSelection,
+} from "./test-android";
+
+const PROJECT_DIR = "/work/ExampleApp";
+const PACKAGE_NAME = "com.example.app";
+const ALL_TESTS: TestSelection = { scope: { kind: "all" } };
+
+function fixture(name: string): string {
+    return readFileSync(join(__dirname, "fixtures", name), "utf8");
+}
+
+const LAUNCHER = "com.google.android.apps.nexuslauncher/com.google.android.apps.nexuslauncher.NexusLauncherActivity";
+
+function focusedWindow(window: string): string {
+    return `WINDOW MANAGER WINDOWS (dumpsys window windows)\n  mCurrentFocus=Window{5e1c2a7 u0 ${window}}\n  mFocusedApp=null\n`;
+}
+
+function adbDevices(...serials: string[]): string {
+    return ["List of devices attached", ...serials.map((serial) => `${serial}\tdevice`), "", ""].join("\n");
+}
+
+/** Recorded output of a run on a running Android 14 emulator; earlier entries take precedence */
+function emulatorSession(env: FakeEnv, instrumentOutput = fixture("passing.txt")): FakeCommand[] {
+    return [
+        { match: /gradlew assembleDebug$/, stdout: "BUILD SUCCESSFUL in 41s\n" },
+        { match: "gradlew assembleDebugAndroidTest", stdout: "BUILD SUCCESSFUL in 12s\n" },
+        { match: "adb devices", stdout: adbDevices("emulator-5554") },
+        { match: "emu avd name", stdout: "Pixel_8_API_34\nOK\n" },
+        { match: "getprop ro.build.version.release", stdout: "14\n" },
+        { match: "getprop ro.build.version.sdk", stdout: "34\n" },
+        { match: "getprop sys.boot_completed", stdout: "1\n" },
+        { match: "getprop dev.bootcomplete", stdout: "1\n" },
+        { match: "pm path android", stdout: "package:/system/framework/framework-res.apk\n" },
+        { match: "dumpsys window", stdout: focusedWindow(LAUNCHER) },
+        { match: " install -r ", stdout: "Performing Streamed Install\nSuccess\n" },
+        { match: "logcat -c" },
+        { match: "am instrument", stdout: instrumentOutput, durationMs: 6204 },
+        { match: "logcat -d", stdout: "--------- beginning of main\n" },
+        {
+            match: " pull ",
+            stdout: "1 file pulled\n",
+            effect: (command) => {
+                const local = /"([^"]+)"$/.exec(command)?.[1];
+                if (local) env.fs.writeFile(local, "mp4");
+            },
+        },
+        { match: " shell rm -f " },
+        { match: " uninstall ", stdout: "Success\n" },
+        ...fakeFrameExtraction(env.fs, 2, [0, 1.4]),
+    ];
+}
+
+function projectEnv(): FakeEnv {
+    const env = createFakeEnv();
+    env.fs.mkdir(PROJECT_DIR, { recursive: true });
+    return env;
+}
+
+describe("runAndroidTest", () => {
+    it("builds, installs, instruments, pulls each test's recording and uninstalls", async () => {
+        const env = projectEnv();
+        env.executor.replay(...emulatorSession(env));
+        const result = await runAndroidTest(PROJECT_DIR, PACKAGE_NAME, ALL_TESTS, { env });
+
+        assert.equal(result.success, true);
+        const [device] = result.devices;
+        assert.equal(device.os, "Android 14 (API 34)");
+        assert.deepEqual(
+            device.tests.map((test) => [test.id, test.status, test.frameCount]),
+            [
+                ["com.example.app.ListScreenTest#scrollsList", "passed", 2],
+                ["com.example.app.DetailScreenTest#showsDetails", "passed", 2],
+            ]
+        );
+        assert.equal(device.tests[0].framesDir, `${PROJECT_DIR}/frames_scrollsList`);
+
+        const commands = env.executor.commands;
+        const index = (part: string): number => commands.findIndex((command) => command.includes(part));
+        assert.ok(index("install -r") < index("am instrument"));
+        assert.ok(index("am instrument") < index(" pull "));
+        assert.ok(commands.includes(`adb -s emulator-5554 uninstall ${PACKAGE_NAME}.test`));
+        assert.ok(commands.includes(`adb -s emulator-5554 uninstall ${PACKAGE_NAME}`));
+        // Pulled recordings and the device lock are gone afterwards
+        assert.deepEqual([...env.fs.dirs].filter((dir) => dir.startsWith("/tmp/")), []);
+    });
+
+    it("pulls and removes a recording per class when two classes share a method name", async () => {
+        const env = projectEnv();
+        env.executor.replay(...emulatorSession(env, fixture("passing.txt").replace(/scrollsList/g, "showsDetails")));
+        const result = await runAndroidTest(PROJECT_DIR, PACKAGE_NAME, ALL_TESTS, { env });
+
+        assert.deepEqual(
+            result.devices[0].tests.map((test) => [test.id, test.framesDir]),
+            [
+                ["com.example.app.ListScreenTest#showsDetails", `${PROJECT_DIR}/frames_ListScreenTest_showsDetails`],
+                ["com.example.app.DetailScreenTest#showsDetails", `${PROJECT_DIR}/frames_DetailScreenTest_showsDetails`],
+            ]
+        );
+        const files = `/storage/emulated/0/Android/data/${PACKAGE_NAME}/files`;
+        const deviceCommands = env.executor.commands.filter((command) => command.includes(files));
+        assert.deepEqual(
+            deviceCommands.map((command) => command.replace(/ "\/tmp\/[^"]+"$/, "")),
+            [
+                `adb -s emulator-5554 pull "${files}/screenrecord_com.example.app.ListScreenTest#showsDetails.mp4"`,
+                `adb -s emulator-5554 shell rm -f "${files}/screenrecord_com.example.app.ListScreenTest#showsDetails.mp4"`,
+                `adb -s emulator-5554 pull "${files}/screenrecord_com.example.app.DetailScreenTest#showsDetails.mp4"`,
+                `adb -s emulator-5554 shell rm -f "${files}/screenrecord_com.example.app.DetailScreenTest#showsDetails.mp4"`,
+            ]
+        );
+    });
+
+    it("reports failing tests with their stack traces", async () => {
+        const env = projectEnv();
+        env.executor.replay(...emulatorSession(env, fixture("failure.txt")));
+        const result = await runAndroidTest(PROJECT_DIR, PACKAGE_NAME, ALL_TESTS, { env });
+
+        assert.equal(result.success, false);
+        const [failed] = result.devices[0].tests;
+        assert.equal(failed.status, "failed");
+        assert.match(failed.failures[0].message, /^java\.lang\.AssertionError: Failed to assert/);
+        assert.match(failed.failures[0].details ?? "", /ListScreenTest\.kt:42/);
+    });
+
+    it("reports an app crash from logcat and keeps the app's log", async () => {
+        const env = projectEnv();
+        env.executor.replay(
+            { match: "logcat -d -v epoch -b main,system,crash", stdout: fixture("logcat-crash.txt") },
+            ...emulatorSession(env, fixture("crash.txt"))
+        );
+        const result = await runAndroidTest(PROJECT_DIR, PACKAGE_NAME, ALL_TESTS, { env });
+
+        const [device] = result.devices;
+        const commands = env.executor.commands;
+        const instrument = commands.findIndex((command) => command.includes("am instrument"));
+        assert.ok(commands.indexOf("adb -s emulator-5554 logcat -c") < instrument);
+        assert.deepEqual(
+            device.crashes?.map((crash) => [crash.kind, crash.type, crash.message, crash.frames[0]]),
+            [
+                [
+                    "crash",
+                    "java.lang.IllegalStateException",
+                    "Museum object 42 not found",
+                    "com.example.app.data.MuseumRepository.getObject(MuseumRepository.kt:31)",
+                ],
+            ]
+        );
+        assert.equal(device.logsDir, `${PROJECT_DIR}/logs_emulator-5554`);
+        const appLog = env.fs.readFile(`${PROJECT_DIR}/logs_emulator-5554/logcat.txt`);
+        assert.match(appLog, /MuseumRepository: Object 42 is not in the loaded page/);
+        assert.doesNotMatch(appLog, /GoogleApiManager|ActivityManager/);
+        assert.equal(device.log?.title, "App logcat");
+        assert.ok(
+            env.logs.includes(
+                "✗ Crash in com.example.app (pid 4312): java.lang.IllegalStateException: Museum object 42 not found"
+            )
+        );
+    });
+
+    it("instruments, pulls from, watches and uninstalls the applicationId set in build.gradle.kts", async () => {
+        const env = projectEnv();
+        env.fs.mkdir(`${PROJECT_DIR}/composeApp`);
+        env.fs.writeFile(
+            `${PROJECT_DIR}/composeApp/build.gradle.kts`,
+            `android {\n    namespace = "${PACKAGE_NAME}"\n    defaultConfig {\n        applicationId = "com.example.shop"\n    }\n}\n`
+        );
+        // The app's processes are named after its applicationId, its classes after the namespace
+        const logcat = fixture("logcat-crash.txt").replace(/com\.example\.app(?![.\w])/g, "com.example.shop");
+        env.executor.replay(
+            { match: "logcat -d -v epoch -b main,system,crash", stdout: logcat },
+            ...emulatorSession(env, fixture("crash.txt"))
+        );
+        const result = await runAndroidTest(PROJECT_DIR, PACKAGE_NAME, ALL_TESTS, { env });
+
+        const commands = env.executor.commands;
+        assert.ok(
+            commands.some((command) => command.endsWith("com.example.shop.test/androidx.test.runner.AndroidJUnitRunner"))
+        );
+        assert.ok(commands.some((command) => command.includes('pull "/storage/emulated/0/Android/data/com.example.shop/')));
+        assert.ok(commands.includes("adb -s emulator-5554 uninstall com.example.shop.test"));
+        assert.ok(commands.includes("adb -s emulator-5554 uninstall com.example.shop"));
+        assert.ok(!commands.some((command) => command.includes(`uninstall ${PACKAGE_NAME}`)));
+        assert.deepEqual(
+            result.devices[0].crashes?.map((crash) => [crash.process, crash.type]),
+            [["com.example.shop", "java.lang.IllegalStateException"]]
+        );
+    });
+
+    it("pulls ANR traces for their frames and still reports crashes whose tombstone cannot be pulled", async () => {
+        const env = projectEnv();
+        const logsDir = `${PROJECT_DIR}/logs_emulator-5554`;
+        env.executor.replay(
+            {
+                match: "logcat -d -v epoch -b main,system,crash",
+                stdout: fixture("logcat-native-crash.txt") + fixture("logcat-anr.txt"),
+            },
+            {
+                match: 'pull "/data/tombstones/',
+                stderr: "adb: error: failed to stat remote object: Permission denied",
+                exitCode: 1,
+            },
+            {
+                match: 'pull "/data/anr/',
+                effect: () => env.fs.writeFile(`${logsDir}/anr_2026-01-05-10-01-51-633`, fixture("anr-trace.txt")),
+            },
+            ...emulatorSession(env, fixture("crash.txt"))
+        );
+        const result = await runAndroidTest(PROJECT_DIR, PACKAGE_NAME, ALL_TESTS, { env });
+
+        const [native, anr, killed] = result.devices[0].crashes ?? [];
+        assert.deepEqual([native.type, native.file], ["SIGSEGV", undefined]);
+        assert.ok(env.logs.some((line) => line.startsWith("Could not pull /data/tombstones/tombstone_03")));
+        assert.equal(anr.file, `${logsDir}/anr_2026-01-05-10-01-51-633`);
+        assert.deepEqual(anr.frames, [
+            "com.example.app.screens.detail.DetailScreenKt.loadImageBlocking(DetailScreen.kt:88)",
+            "com.example.app.screens.detail.DetailScreenKt$DetailScreen$1.invoke(DetailScreen.kt:41)",
+        ]);
+        assert.equal(killed.process, "com.example.app:sync");
+    });
+
+    it("labels the frames with the steps the test logged and flags the frame at failure", async () => {
+        const env = projectEnv();
+        const test = "com.example.app.ListScreenTest#scrollsList";
+        env.executor.replay(
+            {
+                match: "logcat -d -v epoch -s TestStep:I",
+                stdout:
+                    `1767607200.000  4312  4330 I TestStep: recording ${test}\n` +
+                    `1767607200.900  4312  4330 I TestStep: step ${test}: Scroll to Mona Lisa\n` +
+                    // Logged once the recording has stopped, so the last frame is the one at failure
+                    `1767607203.100  4312  4330 I TestStep: failed ${test}: java.lang.AssertionError: Failed to assert\n`,
+            },
+            ...emulatorSession(env, fixture("failure.txt"))
+        );
+        const result = await runAndroidTest(PROJECT_DIR, PACKAGE_NAME, ALL_TESTS, { env });
+
+        const [failed, passed] = result.devices[0].tests;
+        assert.equal(failed.failureFrame, "frame_0002_1.400s.jpg");
+        const index = JSON.parse(env.fs.readFile(`${failed.framesDir}/frames.json`)) as FramesIndex;
+        assert.deepEqual(index.frames, [
+            { file: "frame_0001_0.000s.jpg", time: 0 },
+            { file: "frame_0002_1.400s.jpg", time: 1.4, step: "Scroll to Mona Lisa", failure: true },
+        ]);
+        // A test that logged no markers keeps plain frames
+        assert.equal(passed.failureFrame, undefined);
+        assert.equal(passed.timeline, undefined);
+    });
+
+    it("stops with the Gradle error when the debug APK does not build", async () => {
+        const env = projectEnv();
+        env.executor.replay(
+            { match: /gradlew assembleDebug$/, stderr: "FAILURE: Build failed with an exception.", exitCode: 1 },
+            ...emulatorSession(env)
+        );
+        await assert.rejects(
+            runAndroidTest(PROJECT_DIR, PACKAGE_NAME, ALL_TESTS, { env }),
+            /Failed to assemble debug APK: .*Build failed with an exception/s
+        );
+        assert.ok(!env.executor.commands.some((command) => command.startsWith("adb")));
+    });
+
+    it("reports a failed install, skips the run and still uninstalls", async () => {
+        const env = projectEnv();
+        env.executor.replay(
+            {
+                match: "composeApp-debug.apk",
+                stdout: "Performing Streamed Install\n",
+                stderr: "adb: failed to install: Failure [INSTALL_FAILED_INSUFFICIENT_STORAGE]",
+                exitCode: 1,
+            },
+            ...emulatorSession(env)
+        );
+        const result = await runAndroidTest(PROJECT_DIR, PACKAGE_NAME, ALL_TESTS, { env });
+
+        const [device] = result.devices;
+        assert.equal(device.success, false);
+        assert.match(device.error ?? "", /^Failed to install debug APK: .*INSTALL_FAILED_INSUFFICIENT_STORAGE/s);
+        assert.ok(!env.executor.commands.some((command) => command.includes("am instrument")));
+        assert.ok(env.executor.commands.includes(`adb -s emulator-5554 uninstall ${PACKAGE_NAME}`));
+        assert.equal(env.fs.exists("/tmp/pistachio-device-lock-emulator-5554"), false);
+    });
+
+    it("gives up on an emulator that never comes up and cleans up", async () => {
+        const env = projectEnv();
+        env.executor.replay(
+            { match: "adb devices", stdout: adbDevices() },
+            { match: "emulator -list-avds", stdout: "Pixel_8_API_34\n" },
+            { match: "emulator -avd Pixel_8_API_34 -port 5554" },
+            ...emulatorSession(env)
+        );
+        const result = await runAndroidTest(PROJECT_DIR, PACKAGE_NAME, ALL_TESTS, { env });
+
+        const [device] = result.devices;
+        assert.equal(device.error, "Emulator failed to start within 120 seconds. Please check emulator logs.");
+        assert.ok(env.clock.slept() >= 120000);
+        assert.ok(!env.executor.commands.some((command) => command.includes("install -r")));
+        assert.ok(env.executor.commands.includes(`adb -s emulator-5554 uninstall ${PACKAGE_NAME}`));
+        assert.equal(env.fs.exists("/tmp/pistachio-device-lock-emulator-5554"), false);
+    });
+
+    it("boots the first AVD and waits until adb lists it", async () => {
+        const env = projectEnv();
+        env.executor.replay(
+            { match: "adb devices", stdout: adbDevices(), times: 3 },
+            { match: "emulator -list-avds", stdout: "Pixel_8_API_34\n" },
+            { match: "emulator -avd Pixel_8_API_34 -port 5554" },
+            ...emulatorSession(env)
+        );
+        const result = await runAndroidTest(PROJECT_DIR, PACKAGE_NAME, ALL_TESTS, { env });
+
+        assert.equal(result.success, true);
+        assert.ok(env.executor.commands.includes("emulator -avd Pixel_8_API_34 -port 5554 -no-snapshot-load -no-audio"));
+        assert.ok(env.logs.includes("✓ Emulator started successfully"));
+    });
+
+    it("boots headless from a saved snapshot and shuts the emulator down afterwards", async () => {
+        const env = projectEnv();
+        env.variables.ANDROID_AVD_HOME = "/avd";
+        env.fs.mkdir("/avd/Pixel_8_API_34.avd/snapshots/clean", { recursive: true });
+        env.executor.replay(
+            { match: "adb devices", stdout: adbDevices(), times: 1 },
+            { match: "emulator -list-avds", stdout: "Pixel_8_API_34\n" },
+            { match: "emulator -avd Pixel_8_API_34 -port 5554" },
+            { match: "emu kill", effect: () => env.executor.running.delete(5001) },
+            ...emulatorSession(env)
+        );
+        const result = await runAndroidTest(PROJECT_DIR, PACKAGE_NAME, ALL_TESTS, {
+            setup: { headless: true, snapshot: "clean", shutdownAfter: true },
+            env,
+        });
+
+        assert.equal(result.success, true);
+        const commands = env.executor.commands;
+        assert.ok(
+            commands.includes(
+                "emulator -avd Pixel_8_API_34 -port 5554 -snapshot clean -no-snapshot-save -no-audio -no-window -gpu swiftshader_indirect"
+            )
+        );
+        assert.ok(!commands.some((command) => command.includes("snapshot save")));
+        const uninstall = commands.lastIndexOf(`adb -s emulator-5554 uninstall ${PACKAGE_NAME}`);
+        assert.ok(commands.indexOf("adb -s emulator-5554 emu kill") > uninstall);
+        assert.deepEqual(env.executor.signals, []);
+        assert.ok(env.logs.includes("✓ Emulator shut down"));
+    });
+
+    it("saves a missing snapshot once the wiped emulator is ready and kills one that will not exit", async () => {
+        const env = projectEnv();
+        env.executor.replay(
+            { match: "adb devices", stdout: adbDevices(), times: 1 },
+            { match: "emulator -list-avds", stdout: "Pixel_8_API_34\n" },
+            { match: "emulator -avd Pixel_8_API_34 -port 5554" },
+            { match: "emu avd snapshot save", stdout: "OK\n" },
+            { match: "emu kill", stdout: "OK: killing emulator, bye bye\n" },
+            ...emulatorSession(env)
+        );
+        const result = await runAndroidTest(PROJECT_DIR, PACKAGE_NAME, ALL_TESTS, {
+            setup: { wipeData: true, snapshot: "clean", shutdownAfter: true },
+            env,
+        });
+
+        assert.equal(result.success, true);
+        const commands = env.executor.commands;
+        assert.ok(commands.some((command) => command.endsWith("-no-snapshot-save -no-audio -wipe-data")));
+        const save = commands.indexOf("adb -s emulator-5554 emu avd snapshot save clean");
+        assert.ok(save > commands.lastIndexOf("adb -s emulator-5554 shell dumpsys window"));
+        assert.ok(save < commands.findIndex((command) => command.includes("install -r")));
+        assert.ok(env.logs.includes("✓ Snapshot clean saved"));
+        assert.deepEqual(env.executor.signals, ["SIGKILL 5001"]);
+    });
+
+    it("leaves a booted emulator running without --shutdown-after", async () => {
+        const env = projectEnv();
+        env.executor.replay(
+            { match: "adb devices", stdout: adbDevices(), times: 1 },
+            { match: "emulator -list-avds", stdout: "Pixel_8_API_34\n" },
+            { match: "emulator -avd Pixel_8_API_34 -port 5554" },
+            ...emulatorSession(env)
+        );
+        await runAndroidTest(PROJECT_DIR, PACKAGE_NAME, ALL_TESTS, { env });
+
+        assert.ok(!env.executor.commands.some((command) => command.includes("emu kill")));
+        assert.ok(env.executor.running.has(5001));
+    });
+
+    it("leaves a device alone while another run holds its lock", async () => {
+        const env = projectEnv();
+        env.executor.replay(...emulatorSession(env));
+        env.fs.mkdir("/tmp/pistachio-device-lock-emulator-5554");
+        env.fs.writeFile("/tmp/pistachio-device-lock-emulator-5554/pid", "999");
+        env.executor.running.add(999);
+        const result = await runAndroidTest(PROJECT_DIR, PACKAGE_NAME, ALL_TESTS, { env });
+
+        assert.match(result.devices[0].error ?? "", /Failed to acquire device lock within 30 seconds/);
+        assert.ok(!env.executor.commands.some((command) => command.includes("install") || command.includes("uninstall")));
+        assert.equal(env.fs.readFile("/tmp/pistachio-device-lock-emulator-5554/pid"), "999");
+    });
+    it("waits for sys.boot_completed before installing", async () => {
+        const env = projectEnv();
+        env.executor.replay({ match: "getprop sys.boot_completed", stdout: "\n", times: 2 }, ...emulatorSession(env));
+        const result = await runAndroidTest(PROJECT_DIR, PACKAGE_NAME, ALL_TESTS, { env });
+
+        assert.equal(result.success, true);
+        assert.ok(env.logs.includes("✓ Boot completed"));
+        assert.ok(env.logs.includes("✓ Device ready"));
+        const commands = env.executor.commands;
+        const lastBootCheck = commands.lastIndexOf("adb -s emulator-5554 shell getprop sys.boot_completed");
+        assert.ok(lastBootCheck < commands.findIndex((command) => command.includes("install -r")));
+    });
+
+    it("reports what the boot properties said when boot does not complete", async () => {
+        const env = projectEnv();
+        env.executor.replay({ match: "getprop sys.boot_completed", stdout: "\n" }, ...emulatorSession(env));
+        const result = await runAndroidTest(PROJECT_DIR, PACKAGE_NAME, ALL_TESTS, {
+            setup: { bootTimeoutMs: 300000 },
+            env,
+        });
+
+        const [device] = result.devices;
+        assert.match(
+            device.error ?? "",
+            /^emulator-5554 did not finish booting within 300 seconds \(sys\.boot_completed="", dev\.bootcomplete="1"\)/
+        );
+        assert.match(device.error ?? "", /--boot-timeout/);
+        assert.ok(!env.executor.commands.some((command) => command.includes("install -r")));
+    });
+
+    it("names the dialog in front of the launcher when the device is not ready", async () => {
+        const env = projectEnv();
+        env.executor.replay(
+            { match: "dumpsys window", stdout: focusedWindow("Application Not Responding: com.android.systemui") },
+            ...emulatorSession(env)
+        );
+        const result = await runAndroidTest(PROJECT_DIR, PACKAGE_NAME, ALL_TESTS, { env });
+
+        const error = result.devices[0].error ?? "";
+        assert.match(error, /^emulator-5554 booted but was not ready within 60 seconds: the launcher is not idle/);
+        assert.match(error, /focused window: Application Not Responding: com\.android\.systemui/);
+        assert.match(error, /A system dialog reports an app not responding/);
+    });
+
+    it("disables animations and locks the orientation for the run, then restores them", async () => {
+        const env = projectEnv();
+        env.executor.replay(
+            { match: "settings get global", stdout: "1.0\n" },
+            { match: "settings get system accelerometer_rotation", stdout: "1\n" },
+            { match: "settings get system user_rotation", stdout: "null\n" },
+            { match: "settings put" },
+            { match: "settings delete" },
+            ...emulatorSession(env)
+        );
+        const result = await runAndroidTest(PROJECT_DIR, PACKAGE_NAME, ALL_TESTS, {
+            setup: { disableAnimations: true, orientation: "landscape" },
+            env,
+        });
+
+        assert.equal(result.success, true);
+        const settings = env.executor.commands
+            .filter((command) => /am instrument|settings (put|delete)/.test(command))
+            .map((command) => command.replace(/^adb -s emulator-5554 shell /, ""));
+        assert.deepEqual(settings.slice(0, 5), [
+            "settings put global window_animation_scale 0",
+            "settings put global transition_animation_scale 0",
+            "settings put global animator_duration_scale 0",
+            "settings put system accelerometer_rotation 0",
+            "settings put system user_rotation 1",
+        ]);
+        assert.match(settings[5], /^am instrument/);
+        assert.deepEqual(settings.slice(6), [
+            "settings delete system user_rotation",
+            "settings put system accelerometer_rotation 1",
+            "settings put global animator_duration_scale 1.0",
+            "settings put global transition_animation_scale 1.0",
+            "settings put global window_animation_scale 1.0",
+        ]);
+    });
+});
+
+describe("parseStepMarkers", () => {
+    it("starts a test's timeline over at its latest recording marker", () => {
+        const test = "com.example.app.MapExampleTest#testMapExampleDisplaysAllElements";
+        const logcat = [
+            "--------- beginning of main",
+            `1767600000.000  3101  3120 I TestStep: recording ${test}`,
+            `1767600001.000  3101  3120 I TestStep: failed ${test}: Timed out`,
+            `1767607200.000  4312  4330 I TestStep: recording ${test}`,
+            `1767607200.250  4312  4330 I TestStep: step ${test}: Show the map example`,
+            `1767607200.250  4312  4330 I MapExampleTest: unrelated`,
+            `1767607201.750  4312  4330 I TestStep: step ${test}: Wait for the map`,
+        ].join("\n");
+
+        assert.deepEqual(parseStepMarkers(logcat).get(test), {
+            recordingStart: 1767607200,
+            steps: [
+                { title: "Show the map example", time: 1767607200.25 },
+                { title: "Wait for the map", time: 1767607201.75 },
+            ],
+        });
+    });
+});
+
+describe("parseFocusedWindow", () => {
+    it("reads the window with input focus from dumpsys window", () => {
+        assert.equal(parseFocusedWindow(focusedWindow(LAUNCHER)), LAUNCHER);
+        assert.equal(parseFocusedWindow("  mCurrentFocus=null\n"), undefined);
+    });
+});
+
+describe("parseArgs", () => {
+    it("reads the emulator options", () => {
+        const parsed = parseArgs([
+            "/work/app",
+            "com.example",
+            "--all",
+            "--boot-timeout=300",
+            "--ready-timeout",
+            "90",
+            "--disable-animations",
+            "--orientation",
+            "landscape",
+            "--headless",
+            "--snapshot=clean",
+            "--shutdown-after",
+        ]);
+        assert.ok(parsed.ok);
+        assert.deepEqual(parsed.setup, {
+            bootTimeoutMs: 300000,
+            readyTimeoutMs: 90000,
+            disableAnimations: true,
+            orientation: "landscape",
+            headless: true,
+            snapshot: "clean",
+            shutdownAfter: true,
+        });
+    });
+
+    it("reads an applicationId that differs from the package", () => {
+        const parsed = parseArgs(["--application-id", "com.example.shop", "/work/app", "com.example", "--all"]);
+        assert.ok(parsed.ok);
+        assert.deepEqual([parsed.package_name, parsed.application_id], ["com.example", "com.example.shop"]);
+    });
+
+    it("rejects a timeout that is not a positive number and an unknown orientation", () => {
+        const timeout = parseArgs(["/work/app", "com.example", "--boot-timeout", "soon"]);
+        assert.equal(timeout.ok, false);
+        assert.match(timeout.ok ? "" : timeout.message, /--boot-timeout: must be a positive number of seconds/);
+        const orientation = parseArgs(["/work/app", "com.example", "--orientation=upside-down"]);
+        assert.match(orientation.ok ? "" : orientation.message, /--orientation: must be portrait or landscape/);
+    });
+});
+
+describe("resolveDevices", () => {
+    it("finds an AVD by the API level in its config.ini", async () => {
+        const env = createFakeEnv();
+        env.variables.ANDROID_AVD_HOME = "/avd";
+        env.fs.mkdir("/avd/Pixel_6_API_30.avd", { recursive: true });
+        env.fs.writeFile("/avd/Pixel_6_API_30.avd/config.ini", "image.sysdir.1=system-images/android-30/google_apis/x86/\n");
+        env.fs.mkdir("/avd/Pixel_8_API_34.avd", { recursive: true });
+        env.fs.writeFile("/avd/Pixel_8_API_34.avd/config.ini", "image.sysdir.1=system-images/android-34/google_apis/x86_64/\n");
+        env.executor.replay(
+            { match: "adb devices", stdout: adbDevices("emulator-5554") },
+            { match: "emu avd name", stdout: "Pixel_8_API_34\nOK\n" },
+            { match: "getprop ro.build.version.sdk", stdout: "34\n" },
+            { match: "emulator -list-avds", stdout: "Pixel_6_API_30\nPixel_8_API_34\n" }
+        );
+
+        const devices = await resolveDevices([{ kind: "api-level", apiLevel: 30 }], false, env);
+        assert.deepEqual(
+            devices.map((device) => [device.serial, device.avd, device.boot]),
+            [["emulator-5556", "Pixel_6_API_30", true]]
+        );
+    });
+});
@@ -1,49 +1,157 @@
 #!/usr/bin/env tsx
 
-import { exec } from "child_process";
-import { promisify } from "util";
 import { join } from "path";
-import { existsSync, unlinkSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs";
-import { tmpdir, platform } from "os";
+import { existsSync } from "fs";
+import { platform } from "os";
+import {
+    type InstrumentationTest,
+    instrumentationPassed,
+    parseInstrumentationOutput,
+    type TimedLine,
+} from "./instrumentation";
+import { parseAnrTrace, parseAppLogcat } from "./logcat";
+import { type ParseArgsFailure, runCli } from "../test-runner-core/cli";
+import { nodeEnv, type RunnerEnv } from "../test-runner-core/env";
+import { type FrameOptions, frameOptions, FRAMES_USAGE, type TestTimeline } from "../test-runner-core/frames";
+import { VISUAL_USAGE, type VisualOptions, visualOptions } from "../test-runner-core/visual";
+import { trackProcess, untrackProcess } from "../test-runner-core/processes";
+import {
+    crashText,
+    excerpt,
+    type ReportCrash,
+    REPORT_USAGE,
+    type ReportOptions,
+    reportOptions,
+    type ReportTestStatus,
+} from "../test-runner-core/report";
+import {
+    type DeviceDriver,
+    type DriverDevice,
+    type RunResult,
+    runTests,
+    type TestCaseResult,
+} from "../test-runner-core/runner";
 
 // Constants
-const PORT = 5554;
-const LOCK_TIMEOUT_MS = 30000;
-const LOCK_POLL_INTERVAL_MS = 1000;
+const DEFAULT_EMULATOR_PORT = 5554;
+// Emulators listen on even console ports; adb scans 5554-5584
+const MAX_EMULATOR_PORT = 5584;
 const EMULATOR_BOOT_TIMEOUT_MS = 120000;
 const EMULATOR_POLL_INTERVAL_MS = 2000;
-const EMULATOR_BOOT_WAIT_MS = 10000;
+const DEVICE_READY_TIMEOUT_MS = 60000;
+const EMULATOR_SHUTDOWN_TIMEOUT_MS = 30000;
 const DEBUG_APK_PATH_SUFFIX = "composeApp/build/outputs/apk/debug/composeApp-debug.apk";
 const TEST_APK_PATH_SUFFIX = "composeApp/build/outputs/apk/androidTest/debug/composeApp-debug-androidTest.apk";
+// Logcat tag of the recording, step and failure markers BaseComposeTest logs
+const STEP_MARKER_TAG = "TestStep";
+// A run's main, system and crash buffers; a long run with a chatty app can be tens of MB
+const LOGCAT_MAX_BUFFER = 64 * 1024 * 1024;
 
-const execAsync = promisify(exec);
+const USAGE =
+    "Usage: npx tsx test-android.ts [options] <project_dir> <package_name> [<test_suite_name> [<test_name>]]\n\n" +
+    "Test selection (one of):\n" +
+    "  <test_suite_name> <test_name>   One test method of a class in <package_name>\n" +
+    "  <test_suite_name>               Every test in the class\n" +
+    "  --package <package>             Every test in a package (fully qualified)\n" +
+    "  --all                           Every test under androidInstrumentedTest\n" +
+    "Filters (combine with any selection; alone they imply --all):\n" +
+    "  --annotation <class>            Only tests with this annotation (fully qualified)\n" +
+    "  --filter <regex>                Only tests whose <class>#<method> matches the regex\n\n" +
+    "App options:\n" +
+    "  --application-id <id>  applicationId of the installed app, when it differs from <package_name>\n" +
+    "                         (default: applicationId in composeApp/build.gradle.kts)\n\n" +
+    "Device options (default: emulator-5554, booting the first AVD if it is not running):\n" +
+    "  --serial <serial>     Run on an attached device or emulator from `adb devices`; repeatable\n" +
+    "  --avd <name>          Run on this AVD, booting it on a free port if needed; repeatable\n" +
+    "  --api-level <level>   Run on an attached device or AVD with this API level; repeatable\n" +
+    "  --all-devices         Run on every attached device\n" +
+    "Several devices run the tests in parallel.\n\n" +
+    "Emulator options:\n" +
+    `  --boot-timeout <s>    Seconds from starting the emulator until it has booted (default: ${EMULATOR_BOOT_TIMEOUT_MS / 1000})\n` +
+    `  --ready-timeout <s>   Seconds after boot until the package manager and launcher are ready (default: ${DEVICE_READY_TIMEOUT_MS / 1000})\n` +
+    "  --disable-animations  Turn off window, transition and animator animations during the run\n" +
+    "  --orientation <o>     Lock the screen to portrait or landscape during the run\n" +
+    "  --headless            Boot AVDs without a window, rendering with SwiftShader (no GPU needed)\n" +
+    "  --wipe-data           Boot AVDs with factory-fresh user data\n" +
+    "  --snapshot <name>     Boot AVDs from this snapshot; when it does not exist, cold boot and save it once ready.\n" +
+    "                        Tests never change the snapshot\n" +
+    "  --shutdown-after      Shut down the emulators this run booted once their tests finish\n" +
+    "Emulators this run boots are shut down on Ctrl-C.\n\n" +
+    FRAMES_USAGE +
+    "\n" +
+    VISUAL_USAGE +
+    "\n" +
+    REPORT_USAGE +
+    "\n" +
+    "Example:\n" +
+    "  npx tsx test-android.ts /path/to/{PISTACHIO_PROJECT_NAME} {PISTACHIO_PACKAGE_NAME} SvgIconExampleTest testSvgIconExampleDisplaysAllElements\n" +
+    "  npx tsx test-android.ts --all --filter 'Map' /path/to/{PISTACHIO_PROJECT_NAME} {PISTACHIO_PACKAGE_NAME}\n" +
+    "  npx tsx test-android.ts --avd Pixel_8_API_35 --serial R58M123ABC /path/to/{PISTACHIO_PROJECT_NAME} {PISTACHIO_PACKAGE_NAME} SvgIconExampleTest testSvgIconExampleDisplaysAllElements";
 
 /** Gradle wrapper command: gradlew.bat on Windows, ./gradlew on Unix */
 const GRADLEW = platform() === "win32" ? "gradlew.bat" : "./gradlew";
 
+/** How a target device is chosen on the command line */
+export type DeviceSelector =
+    | { kind: "serial"; serial: string }
+    | { kind: "avd"; avd: string }
+    | { kind: "api-level"; apiLevel: number };
+
 /**
- * Type guard to check if an error has stdout/stderr properties
+ * How to start the AVDs the runner boots, how long to wait for emulators to
+ * become usable and how to prepare devices. Settings changed for the run are
+ * restored afterwards.
  */
-interface ExecError extends Error {
-    stdout?: string;
-    stderr?: string;
-}
+export type DeviceSetup = {
+    /** From starting the emulator (or finding it running) until sys.boot_completed; default 120 s */
+    bootTimeoutMs?: number;
+    /** From boot completed until the package manager answers and the launcher is idle; default 60 s */
+    readyTimeoutMs?: number;
+    /** Set the window, transition and animator duration scales to 0 */
+    disableAnimations?: boolean;
+    /** Turn off auto-rotate and lock the screen to this orientation */
+    orientation?: "portrait" | "landscape";
+    /** Boot AVDs with -no-window and the swiftshader_indirect GPU, for machines without a display or GPU */
+    headless?: boolean;
+    /** Boot AVDs with -wipe-data; a snapshot is then saved again */
+    wipeData?: boolean;
+    /** Boot AVDs from this snapshot, saving it once the emulator is ready when it does not exist yet */
+    snapshot?: string;
+    /** Shut down the emulators the runner booted after cleanup */
+    shutdownAfter?: boolean;
+};
 
-function isExecError(error: unknown): error is ExecError {
-    return error instanceof Error && ('stdout' in error || 'stderr' in error);
-}
+/** Which tests one instrumentation run executes */
+export type TestSelection = {
+    scope:
+        | { kind: "method"; className: string; method: string }
+        | { kind: "class"; className: string }
+        | { kind: "package"; packageName: string }
+        | { kind: "all" };
+    /** Fully qualified annotation class the tests must carry */
+    annotation?: string;
+    /** Regex matched against "<class>#<method>" */
+    regex?: string;
+};
 
 /** Result of successful argument parsing */
 export type ParseArgsSuccess = {
     ok: true;
     project_dir: string;
     package_name: string;
-    test_suite_name: string;
-    test_name: string;
+    /** From --application-id; otherwise read from the project */
+    application_id?: string;
+    selection: TestSelection;
+    /** Requested devices; empty means the default emulator */
+    devices: DeviceSelector[];
+    all_devices: boolean;
+    setup: DeviceSetup;
+    frames: FrameOptions;
+    visual?: VisualOptions;
+    report?: ReportOptions;
 };
 
-/** Result of failed argument parsing; message is full text for stderr */
-export type ParseArgsFailure = { ok: false; message: string };
+export type { ParseArgsFailure };
 
 export type ParseArgsResult = ParseArgsSuccess | ParseArgsFailure;
 
@@ -53,15 +161,176 @@ export type ParseArgsResult = ParseArgsSuccess | ParseArgsFailure;
 export function parseArgs(argv?: string[]): ParseArgsResult {
     const args = argv ?? process.argv.slice(2);
 
-    if (args.length !== 4) {
+    const positional: string[] = [];
+    const devices: DeviceSelector[] = [];
+    let all_devices = false;
+    let all = false;
+    let testPackage: string | undefined;
+    let annotation: string | undefined;
+    let regex: string | undefined;
+    let application_id: string | undefined;
+    let reportFormat: string | undefined;
+    let reportOut: string | undefined;
+    let maxFrames: string | undefined;
+    let frameWidth: string | undefined;
+    let baseline = false;
+    let compare = false;
+    let baselineDir: string | undefined;
+    let tolerance: string | undefined;
+    const ignoreRegions: string[] = [];
+    const setup: DeviceSetup = {};
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (!arg.startsWith("--")) {
+            positional.push(arg);
+            continue;
+        }
+        const eq = arg.indexOf("=");
+        const name = eq === -1 ? arg : arg.slice(0, eq);
+        if (name === "--all-devices") {
+            all_devices = true;
+            continue;
+        }
+        if (name === "--all") {
+            all = true;
+            continue;
+        }
+        if (name === "--disable-animations") {
+            setup.disableAnimations = true;
+            continue;
+        }
+        if (name === "--headless") {
+            setup.headless = true;
+            continue;
+        }
+        if (name === "--wipe-data") {
+            setup.wipeData = true;
+            continue;
+        }
+        if (name === "--shutdown-after") {
+            setup.shutdownAfter = true;
+            continue;
+        }
+        if (name === "--baseline") {
+            baseline = true;
+            continue;
+        }
+        if (name === "--compare") {
+            compare = true;
+            continue;
+        }
+        if (
+            ![
+                "--serial",
+                "--avd",
+                "--api-level",
+                "--package",
+                "--annotation",
+                "--filter",
+                "--application-id",
+                "--boot-timeout",
+                "--ready-timeout",
+                "--orientation",
+                "--snapshot",
+                "--max-frames",
+                "--frame-width",
+                "--baseline-dir",
+                "--tolerance",
+                "--ignore-region",
+                "--report",
+                "--out",
+            ].includes(name)
+        ) {
+            return { ok: false, message: `Unknown option: ${arg}\n\n${USAGE}` };
+        }
+        const value = eq === -1 ? args[++i] : arg.slice(eq + 1);
+        if (!value || value.trim().length === 0) {
+            return { ok: false, message: `Invalid arguments:\n  - ${name}: must be a non-empty string` };
+        }
+        if (name === "--report") {
+            reportFormat = value;
+        } else if (name === "--out") {
+            reportOut = value;
+        } else if (name === "--max-frames") {
+            maxFrames = value;
+        } else if (name === "--frame-width") {
+            frameWidth = value;
+        } else if (name === "--baseline-dir") {
+            baselineDir = value;
+        } else if (name === "--tolerance") {
+            tolerance = value;
+        } else if (name === "--ignore-region") {
+            ignoreRegions.push(value);
+        } else if (name === "--package") {
+            testPackage = value;
+        } else if (name === "--application-id") {
+            application_id = value;
+        } else if (name === "--annotation") {
+            annotation = value;
+        } else if (name === "--filter") {
+            try {
+                new RegExp(value);
+            } catch {
+                return { ok: false, message: `Invalid arguments:\n  - --filter: not a valid regex: ${value}` };
+            }
+            regex = value;
+        } else if (name === "--boot-timeout" || name === "--ready-timeout") {
+            const seconds = Number(value);
+            if (!Number.isFinite(seconds) || seconds <= 0) {
+                return { ok: false, message: `Invalid arguments:\n  - ${name}: must be a positive number of seconds` };
+            }
+            if (name === "--boot-timeout") {
+                setup.bootTimeoutMs = seconds * 1000;
+            } else {
+                setup.readyTimeoutMs = seconds * 1000;
+            }
+        } else if (name === "--orientation") {
+            if (value !== "portrait" && value !== "landscape") {
+                return { ok: false, message: "Invalid arguments:\n  - --orientation: must be portrait or landscape" };
+            }
+            setup.orientation = value;
+        } else if (name === "--snapshot") {
+            setup.snapshot = value;
+        } else if (name === "--serial") {
+            devices.push({ kind: "serial", serial: value });
+        } else if (name === "--avd") {
+            devices.push({ kind: "avd", avd: value });
+        } else {
+            const apiLevel = Number(value);
+            if (!Number.isInteger(apiLevel) || apiLevel <= 0) {
+                return { ok: false, message: "Invalid arguments:\n  - --api-level: must be a positive integer" };
+            }
+            devices.push({ kind: "api-level", apiLevel });
+        }
+    }
+
+    if (all_devices && devices.length > 0) {
         return {
             ok: false,
-            message:
-                "Usage: npx tsx test-android.ts <project_dir> <package_name> <test_suite_name> <test_name>\n\nExample:\n  npx tsx test-android.ts /path/to/{PISTACHIO_PROJECT_NAME} {PISTACHIO_PACKAGE_NAME} SvgIconExampleTest testSvgIconExampleDisplaysAllElements",
+            message: "Invalid arguments:\n  - --all-devices: cannot be combined with --serial, --avd or --api-level",
         };
     }
 
-    const [project_dir, package_name, test_suite_name, test_name] = args;
+    const frames = frameOptions(maxFrames, frameWidth);
+    if (!frames.ok) {
+        return frames;
+    }
+
+    const visual = visualOptions({ baseline, compare, baselineDir, tolerance, ignoreRegions });
+    if (!visual.ok) {
+        return visual;
+    }
+
+    const report = reportOptions(reportFormat, reportOut);
+    if (!report.ok) {
+        return report;
+    }
+
+    if (positional.length < 2 || positional.length > 4) {
+        return { ok: false, message: USAGE };
+    }
+
+    const [project_dir, package_name, test_suite_name, test_name] = positional;
 
     if (!project_dir || project_dir.trim().length === 0) {
         return { ok: false, message: "Invalid arguments:\n  - project_dir: must be a non-empty string" };
@@ -69,106 +338,72 @@ export function parseArgs(argv?: string[]): ParseArgsResult {
     if (!package_name || package_name.trim().length === 0) {
         return { ok: false, message: "Invalid arguments:\n  - package_name: must be a non-empty string" };
     }
-    if (!test_suite_name || test_suite_name.trim().length === 0) {
+    if (test_suite_name !== undefined && test_suite_name.trim().length === 0) {
         return { ok: false, message: "Invalid arguments:\n  - test_suite_name: must be a non-empty string" };
     }
-    if (!test_name || test_name.trim().length === 0) {
+    if (test_name !== undefined && test_name.trim().length === 0) {
         return { ok: false, message: "Invalid arguments:\n  - test_name: must be a non-empty string" };
     }
 
-    return { ok: true, project_dir, package_name, test_suite_name, test_name };
-}
-
-/**
- * Acquire a device lock to prevent concurrent use. Returns a release callback.
- * Throws on timeout or non-EEXIST mkdir errors.
- */
-export async function acquireDeviceLock(
-    serial: string,
-    options?: { timeoutMs?: number; pollIntervalMs?: number }
-): Promise<{ release: () => void }> {
-    const timeoutMs = options?.timeoutMs ?? LOCK_TIMEOUT_MS;
-    const pollIntervalMs = options?.pollIntervalMs ?? LOCK_POLL_INTERVAL_MS;
-    const lockDir = join(tmpdir(), `pistachio-device-lock-${serial}`);
-    const lockPidFile = join(lockDir, "pid");
-    let acquired = false;
-
-    const release = (): void => {
-        if (!acquired) return;
-        try {
-            if (existsSync(lockDir)) {
-                rmSync(lockDir, { recursive: true, force: true });
-                console.log("✓ Device lock released");
-            }
-        } catch {
-            // Ignore cleanup errors
-        } finally {
-            acquired = false;
-        }
-    };
-
-    console.log("Acquiring device lock...");
-    const lockStartTime = Date.now();
-
-    while (!acquired) {
-        if (Date.now() - lockStartTime >= timeoutMs) {
-            throw new Error(`Failed to acquire device lock within ${timeoutMs / 1000} seconds. Please try again later.`);
-        }
+    const scopes = [test_suite_name !== undefined, testPackage !== undefined, all].filter(Boolean).length;
+    if (scopes > 1) {
+        return {
+            ok: false,
+            message: "Invalid arguments:\n  - use only one of <test_suite_name>, --package and --all",
+        };
+    }
 
-        try {
-            mkdirSync(lockDir);
-            writeFileSync(lockPidFile, process.pid.toString());
-            acquired = true;
-            console.log("✓ Device lock acquired");
-        } catch (err: unknown) {
-            if (err && typeof err === "object" && "code" in err && (err as NodeJS.ErrnoException).code === "EEXIST") {
-                try {
-                    const lockedPid = parseInt(readFileSync(lockPidFile, "utf8"), 10);
-                    if (!Number.isNaN(lockedPid)) {
-                        // process.kill(pid, 0) checks if process exists without killing it
-                        process.kill(lockedPid, 0);
-                    }
-                    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
-                } catch {
-                    // PID invalid, missing, or process no longer exists — treat as stale lock
-                    console.log("Removing stale device lock...");
-                    try {
-                        rmSync(lockDir, { recursive: true, force: true });
-                    } catch {
-                        // Ignore
-                    }
-                }
-            } else {
-                const errorMessage = err instanceof Error ? err.message : String(err);
-                throw new Error(`Error acquiring device lock: ${errorMessage}`);
-            }
-        }
+    let scope: TestSelection["scope"];
+    if (test_suite_name !== undefined) {
+        const className = `${package_name}.${test_suite_name}`;
+        scope = test_name !== undefined ? { kind: "method", className, method: test_name } : { kind: "class", className };
+    } else if (testPackage !== undefined) {
+        scope = { kind: "package", packageName: testPackage };
+    } else if (all || annotation !== undefined || regex !== undefined) {
+        scope = { kind: "all" };
+    } else {
+        return {
+            ok: false,
+            message: `Invalid arguments:\n  - specify a test class, --package, --all or a filter\n\n${USAGE}`,
+        };
     }
 
-    return { release };
+    return {
+        ok: true,
+        project_dir,
+        package_name,
+        application_id,
+        selection: { scope, annotation, regex },
+        devices,
+        all_devices,
+        setup,
+        frames: frames.frames,
+        visual: visual.visual,
+        report: report.report,
+    };
 }
 
-/** Result returned by runAndroidTest when the test run has completed */
-export type RunAndroidTestResult = {
-    success: boolean;
-    output: string;
-    logcatErrors: string;
-    frameCount: number;
-    framesDir?: string;
-};
-
-/**
- * Check instrumentation output for test failure indicators.
- */
-export function hasTestFailureIndicators(output: string): boolean {
-    return (
-        output.includes("FAILURES!!!") ||
-        /Tests run:\s*\d+,\s*Failures:\s*[1-9]\d*/.test(output) ||
-        /INSTRUMENTATION_(?:FAILED|STATUS_CODE:\s*-1)\b/.test(output) ||
-        /INSTRUMENTATION_RESULT:.*(?:shortMsg|longMsg)=.*(?:fail|crash|exception)/i.test(output) ||
-        output.includes("Test failed") ||
-        /(java\.lang\.\w+(?:Exception|Error)|kotlin\.\w+Exception)/.test(output)
-    );
+/** Human-readable description of a test selection, for logs */
+export function describeSelection(selection: TestSelection): string {
+    const { scope } = selection;
+    let text: string;
+    switch (scope.kind) {
+        case "method":
+            text = `${scope.className}#${scope.method}`;
+            break;
+        case "class":
+            text = `all tests in ${scope.className}`;
+            break;
+        case "package":
+            text = `all tests in package ${scope.packageName}`;
+            break;
+        case "all":
+            text = "all tests";
+            break;
+    }
+    if (selection.annotation) text += ` annotated @${selection.annotation}`;
+    if (selection.regex) text += ` matching /${selection.regex}/`;
+    return text;
 }
 
 /**
@@ -180,268 +415,884 @@ export function extractLogcatErrors(output: string): string {
     return matches.map((match) => match[1]).join("\n").trim();
 }
 
+/** Text with the characters special in regular expressions escaped */
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
 /**
- * Extract frames from a screen recording video. Caller is responsible for deleting the video file.
+ * Timelines of the tests from BaseComposeTest's markers in `logcat -v epoch`
+ * output, keyed by "<class>#<method>". Marker lines look like
+ * "1733740800.118  4312  4330 I TestStep: step com.example.ListTest#scrolls: Open list".
+ * A test's "recording" marker starts its timeline over, so markers an earlier
+ * run left in the log buffer are dropped.
  */
-export async function extractFramesFromVideo(
-    localScreenRecordPath: string,
-    framesDir: string
-): Promise<{ frameCount: number }> {
-    mkdirSync(framesDir, { recursive: true });
-
-    let duration = 0;
-    try {
-        const { stdout: durationStr } = await execAsync(
-            `ffprobe -v error -show_entries format=duration -of default=noprint_wrappers=1:nokey=1 "${localScreenRecordPath}"`
-        );
-        duration = parseFloat(durationStr.trim());
-    } catch {
-        // ignore ffprobe errors
+export function parseStepMarkers(logcat: string): Map<string, TestTimeline> {
+    const timelines = new Map<string, TestTimeline>();
+    const tag = escapeRegExp(STEP_MARKER_TAG);
+    const marker = new RegExp(`^\\s*(\\d+\\.\\d+)\\s.*\\b${tag}\\s*: (recording|step|failed) ([^\\s:]+)(?:: (.*))?$`);
+    for (const line of logcat.split(/\r?\n/)) {
+        const match = marker.exec(line);
+        if (!match) continue;
+        const [, time, event, testId, text = ""] = match;
+        if (event === "recording") {
+            timelines.set(testId, { recordingStart: parseFloat(time), steps: [] });
+            continue;
+        }
+        const timeline = timelines.get(testId);
+        if (!timeline) continue;
+        if (event === "step") timeline.steps.push({ title: text, time: parseFloat(time) });
+        else timeline.failureTime ??= parseFloat(time);
     }
+    return timelines;
+}
 
-    let frameCount = 0;
+/** Quote a value for the device shell that `adb shell` hands its arguments to */
+function deviceShellQuote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
 
-    if (duration > 0 && duration < 1) {
-        await execAsync(
-            `ffmpeg -i "${localScreenRecordPath}" -vf "scale=320:-1" -vsync vfr -q:v 6 "${join(framesDir, "frame_%05d.jpg")}"`
-        );
-        const frameFiles = readdirSync(framesDir)
-            .filter((file) => file.startsWith("frame_") && file.endsWith(".jpg"))
-            .sort();
-        for (let i = 0; i < frameFiles.length - 1; i++) {
-            unlinkSync(join(framesDir, frameFiles[i]));
+/** `am instrument` extras selecting the tests to run */
+export function instrumentationArgs(selection: TestSelection): string[] {
+    const extras: [string, string][] = [];
+    const { scope } = selection;
+    if (scope.kind === "method") extras.push(["class", `${scope.className}#${scope.method}`]);
+    if (scope.kind === "class") extras.push(["class", scope.className]);
+    if (scope.kind === "package") extras.push(["package", scope.packageName]);
+    if (selection.annotation) extras.push(["annotation", selection.annotation]);
+    if (selection.regex) extras.push(["tests_regex", selection.regex]);
+    return extras.flatMap(([key, value]) => ["-e", key, deviceShellQuote(value)]);
+}
+
+/**
+ * Run `am instrument -w -r` and stream its output, stamping each line with its
+ * arrival time so per-test durations can be computed.
+ */
+async function runInstrumentation(
+    serial: string,
+    applicationId: string,
+    selection: TestSelection,
+    env: RunnerEnv
+): Promise<{ output: string; lines: TimedLine[] }> {
+    const lines: TimedLine[] = [];
+    let pending = "";
+    const { stderr } = await env.executor.spawn(
+        "adb",
+        [
+            "-s",
+            serial,
+            "shell",
+            "am",
+            "instrument",
+            "-w",
+            "-r",
+            ...instrumentationArgs(selection),
+            `${applicationId}.test/androidx.test.runner.AndroidJUnitRunner`,
+        ],
+        (chunk) => {
+            const at = env.clock.now();
+            const parts = (pending + chunk).split(/\r?\n/);
+            pending = parts.pop() ?? "";
+            for (const text of parts) lines.push({ at, text });
         }
-        frameCount = frameFiles.length > 0 ? 1 : 0;
-    } else {
-        await execAsync(
-            `ffmpeg -i "${localScreenRecordPath}" -vf "fps=1,scale=320:-1" -q:v 6 "${join(framesDir, "frame_%04d.jpg")}"`
-        );
-        const frameFiles = readdirSync(framesDir)
-            .filter((file) => file.startsWith("frame_") && file.endsWith(".jpg"))
-            .sort();
-        frameCount = frameFiles.length;
+    );
+    if (pending) lines.push({ at: env.clock.now(), text: pending });
+    const output = lines.map((line) => line.text).join("\n");
+    return { output: output + (stderr ? `\n${stderr}` : ""), lines };
+}
+
+/**
+ * Read logcat since it was cleared before the run: write the lines of the
+ * app's processes to logsDir/logcat.txt, find the app's crashes, ANRs and
+ * kills, and pull the tombstones and ANR traces they name into logsDir.
+ * Pulling those needs a userdebug or rooted device; without one the crashes
+ * are still reported from logcat. Never throws.
+ */
+async function collectAppLogs(
+    serial: string,
+    applicationId: string,
+    logsDir: string,
+    env: RunnerEnv,
+    log: (message: string) => void
+): Promise<{ crashes: ReportCrash[]; appLog?: string; logsDir?: string }> {
+    const { executor, fs } = env;
+    let logcat: string;
+    try {
+        ({ stdout: logcat } = await executor.exec(`adb -s ${serial} logcat -d -v epoch -b main,system,crash`, {
+            maxBuffer: LOGCAT_MAX_BUFFER,
+        }));
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        log(`Could not read logcat: ${errorMessage}`);
+        return { crashes: [] };
     }
 
-    if (frameCount === 0) {
-        await execAsync(
-            `ffmpeg -i "${localScreenRecordPath}" -vf "scale=320:-1" -vsync vfr -q:v 6 "${join(framesDir, "frame_%05d.jpg")}"`
-        );
-        const frameFiles = readdirSync(framesDir)
-            .filter((file) => file.startsWith("frame_") && file.endsWith(".jpg"))
-            .sort();
-        for (let i = 0; i < frameFiles.length - 1; i++) {
-            unlinkSync(join(framesDir, frameFiles[i]));
+    const { appLog, crashes } = parseAppLogcat(logcat, applicationId);
+    const appLogText = appLog.map((line) => line.text).join("\n");
+    fs.remove(logsDir);
+    fs.mkdir(logsDir, { recursive: true });
+    fs.writeFile(join(logsDir, "logcat.txt"), appLogText ? `${appLogText}\n` : "");
+
+    const reports: ReportCrash[] = [];
+    for (const { deviceFile, ...crash } of crashes) {
+        if (deviceFile) {
+            const localFile = join(logsDir, deviceFile.slice(deviceFile.lastIndexOf("/") + 1));
+            try {
+                await executor.exec(`adb -s ${serial} pull "${deviceFile}" "${localFile}"`);
+                if (fs.exists(localFile)) crash.file = localFile;
+                if (crash.file && crash.kind === "anr" && crash.pid !== undefined) {
+                    const frames = parseAnrTrace(fs.readFile(localFile), crash.pid, applicationId);
+                    if (frames.length > 0) crash.frames = frames;
+                }
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                log(`Could not pull ${deviceFile} (needs a userdebug or rooted device): ${errorMessage}`);
+            }
         }
-        frameCount = frameFiles.length > 0 ? 1 : 0;
+        log(`✗ ${crashText(crash).split("\n")[0]}`);
+        reports.push(crash);
     }
+    return { crashes: reports, appLog: appLogText || undefined, logsDir };
+}
 
-    return { frameCount };
+/**
+ * The applicationId set in composeApp/build.gradle.kts; undefined when the file
+ * cannot be read or does not set one.
+ */
+function gradleApplicationId(project_dir: string, env: RunnerEnv): string | undefined {
+    const buildFile = join(project_dir, "composeApp", "build.gradle.kts");
+    if (!env.fs.exists(buildFile)) return undefined;
+    return /\bapplicationId\s*=\s*"([^"]+)"/.exec(env.fs.readFile(buildFile))?.[1];
 }
 
+/** A device a test run targets: attached already, or an AVD to boot on the serial's port */
+export type AndroidDevice = DriverDevice & {
+    serial: string;
+    physical: boolean;
+    avd?: string;
+    /** The AVD must be booted on the port in `serial` before use */
+    boot: boolean;
+};
+
 /**
- * Run the Android test (build, emulator, install, instrument, screen record, cleanup).
- * Throws on fatal errors; returns a result when the test run has completed (pass or fail).
+ * Serials of attached devices that are ready ("device" state in `adb devices`).
  */
-export async function runAndroidTest(
-    project_dir: string,
-    package_name: string,
-    test_suite_name: string,
-    test_name: string
-): Promise<RunAndroidTestResult> {
-    const serial = `emulator-${PORT}`;
+export function parseAdbDevices(stdout: string): string[] {
+    return stdout
+        .split("\n")
+        .map((line) => line.trim().split(/\s+/))
+        .filter((parts) => parts.length >= 2 && parts[1] === "device")
+        .map((parts) => parts[0]);
+}
 
-    if (!existsSync(project_dir)) {
-        throw new Error(`Project directory not found: ${project_dir}`);
+async function listAttachedDevices(env: RunnerEnv): Promise<string[]> {
+    try {
+        const { stdout } = await env.executor.exec("adb devices");
+        return parseAdbDevices(stdout);
+    } catch {
+        throw new Error(
+            "adb command not found. Please ensure Android SDK platform-tools are installed and available in PATH."
+        );
     }
+}
 
-    // Step 1: Build debug APK
-    console.log("Step 1: Building debug APK...");
+/** Name of the AVD a running emulator was started from */
+async function runningAvdName(serial: string, env: RunnerEnv): Promise<string | undefined> {
     try {
-        await execAsync(`${GRADLEW} assembleDebug`, { cwd: project_dir });
-        console.log("✓ Debug APK built successfully");
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        throw new Error(`Failed to assemble debug APK: ${errorMessage}`);
+        const { stdout } = await env.executor.exec(`adb -s ${serial} emu avd name`);
+        return stdout.split("\n")[0]?.trim() || undefined;
+    } catch {
+        return undefined;
     }
+}
 
-    // Step 2: Build test APK
-    console.log("Step 2: Building test APK...");
+async function deviceApiLevel(serial: string, env: RunnerEnv): Promise<number | undefined> {
     try {
-        await execAsync(`${GRADLEW} assembleDebugAndroidTest`, { cwd: project_dir });
-        console.log("✓ Test APK built successfully");
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        throw new Error(`Failed to assemble debug Android test APK: ${errorMessage}`);
+        const { stdout } = await env.executor.exec(`adb -s ${serial} shell getprop ro.build.version.sdk`);
+        const level = parseInt(stdout.trim(), 10);
+        return Number.isNaN(level) ? undefined : level;
+    } catch {
+        return undefined;
     }
+}
 
-    // Step 3: Check if an emulator is already running
-    let hasRunningEmulator = false;
-    console.log("Step 3: Checking for running emulator...");
+/** Android version and API level of a running device, e.g. "Android 14 (API 34)" */
+async function deviceOsVersion(serial: string, env: RunnerEnv): Promise<string | undefined> {
+    let release = "";
     try {
-        const { stdout } = await execAsync("adb devices");
-        const lines = stdout.split("\n").filter((line) => line.trim());
-        for (const line of lines) {
-            if (line.includes(serial) && line.includes("\tdevice")) {
-                hasRunningEmulator = true;
-                break;
-            }
-        }
+        const { stdout } = await env.executor.exec(`adb -s ${serial} shell getprop ro.build.version.release`);
+        release = stdout.trim();
     } catch {
-        throw new Error(
-            "adb command not found. Please ensure Android SDK platform-tools are installed and available in PATH."
-        );
+        // Report the API level alone
     }
+    const level = await deviceApiLevel(serial, env);
+    if (!release) return level !== undefined ? `API ${level}` : undefined;
+    return level !== undefined ? `Android ${release} (API ${level})` : `Android ${release}`;
+}
 
-    // Step 4: Start emulator if one is not running
-    if (!hasRunningEmulator) {
-        console.log("Step 4: Starting emulator...");
-        try {
-            const { stdout: avdList } = await execAsync("emulator -list-avds");
-            const avds = avdList
-                .split("\n")
-                .map((line) => line.trim())
-                .filter((line) => line.length > 0);
-
-            if (avds.length === 0) {
-                throw new Error(
-                    "No Android Virtual Devices (AVDs) found. Please create an AVD using Android Studio."
-                );
+async function listAvds(env: RunnerEnv): Promise<string[]> {
+    const { stdout } = await env.executor.exec("emulator -list-avds");
+    return stdout
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0);
+}
+
+/** Directory holding <name>.avd folders, as resolved by the emulator */
+function avdHome(env: RunnerEnv): string {
+    const { ANDROID_AVD_HOME, ANDROID_USER_HOME } = env.variables;
+    if (ANDROID_AVD_HOME) return ANDROID_AVD_HOME;
+    if (ANDROID_USER_HOME) return join(ANDROID_USER_HOME, "avd");
+    return join(env.homeDir, ".android", "avd");
+}
+
+/** API level of an AVD's system image (image.sysdir.1=system-images/android-NN/...) */
+function avdApiLevel(avd: string, env: RunnerEnv): number | undefined {
+    try {
+        const config = env.fs.readFile(join(avdHome(env), `${avd}.avd`, "config.ini"));
+        const match = /^image\.sysdir\.1\s*=\s*system-images[\\/]android-(\d+)/m.exec(config);
+        return match ? parseInt(match[1], 10) : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Resolve device selectors to concrete devices. AVDs that are not running are
+ * assigned free emulator ports. Throws when a selector matches nothing.
+ */
+export async function resolveDevices(
+    selectors: DeviceSelector[],
+    allDevices: boolean,
+    env: RunnerEnv = nodeEnv
+): Promise<AndroidDevice[]> {
+    const attached = await listAttachedDevices(env);
+    const attachedDevice = (serial: string): AndroidDevice => ({
+        id: serial,
+        name: serial,
+        serial,
+        physical: !serial.startsWith("emulator-"),
+        boot: false,
+    });
+    const avdDevice = (serial: string, avd: string): AndroidDevice => ({
+        id: serial,
+        name: serial,
+        serial,
+        physical: false,
+        avd,
+        boot: true,
+    });
+
+    if (allDevices) {
+        if (attached.length === 0) {
+            throw new Error("No attached devices found (adb devices).");
+        }
+        return attached.map(attachedDevice);
+    }
+
+    const usedPorts = new Set(
+        attached.filter((s) => s.startsWith("emulator-")).map((s) => parseInt(s.slice("emulator-".length), 10))
+    );
+    const claimPort = (): number => {
+        for (let port = DEFAULT_EMULATOR_PORT; port <= MAX_EMULATOR_PORT; port += 2) {
+            if (!usedPorts.has(port)) {
+                usedPorts.add(port);
+                return port;
             }
+        }
+        throw new Error(`No free emulator port between ${DEFAULT_EMULATOR_PORT} and ${MAX_EMULATOR_PORT}.`);
+    };
 
-            const avdName = avds[0];
-            console.log(`Using AVD: ${avdName}`);
+    let avds: string[] | undefined;
+    const getAvds = async (): Promise<string[]> => {
+        if (!avds) avds = await listAvds(env);
+        return avds;
+    };
+    const runningAvds = new Map<string, string>();
+    for (const serial of attached.filter((s) => s.startsWith("emulator-"))) {
+        const name = await runningAvdName(serial, env);
+        if (name) runningAvds.set(name, serial);
+    }
 
-            exec(`emulator -avd ${avdName} -port ${PORT} -no-snapshot-load -no-audio`, (error) => {
-                if (error) {
-                    console.error(`Error starting emulator on port ${PORT}: ${error.message}`);
-                }
-            });
+    if (selectors.length === 0) {
+        const serial = `emulator-${DEFAULT_EMULATOR_PORT}`;
+        if (attached.includes(serial)) return [attachedDevice(serial)];
+        const all = await getAvds();
+        if (all.length === 0) {
+            throw new Error("No Android Virtual Devices (AVDs) found. Please create an AVD using Android Studio.");
+        }
+        usedPorts.add(DEFAULT_EMULATOR_PORT);
+        return [avdDevice(serial, all[0])];
+    }
 
-            let deviceAvailable = false;
-            const startTime = Date.now();
-            console.log("Waiting for emulator to boot...");
-            while (!deviceAvailable && Date.now() - startTime < EMULATOR_BOOT_TIMEOUT_MS) {
-                await new Promise((resolve) => setTimeout(resolve, EMULATOR_POLL_INTERVAL_MS));
-                try {
-                    const { stdout } = await execAsync("adb devices");
-                    const lines = stdout.split("\n").filter((line) => line.trim());
-                    for (const line of lines) {
-                        if (line.includes(serial) && line.includes("\tdevice")) {
-                            deviceAvailable = true;
-                            break;
-                        }
-                    }
-                } catch {
-                    // Continue polling
+    const devices: AndroidDevice[] = [];
+    const chosen = (serial: string): boolean => devices.some((d) => d.serial === serial);
+    for (const selector of selectors) {
+        if (selector.kind === "serial") {
+            if (!attached.includes(selector.serial)) {
+                throw new Error(`Device ${selector.serial} is not attached (see adb devices).`);
+            }
+            if (!chosen(selector.serial)) devices.push(attachedDevice(selector.serial));
+        } else if (selector.kind === "avd") {
+            const running = runningAvds.get(selector.avd);
+            if (running) {
+                if (!chosen(running)) devices.push({ ...attachedDevice(running), avd: selector.avd });
+                continue;
+            }
+            if (devices.some((d) => d.avd === selector.avd)) continue;
+            if (!(await getAvds()).includes(selector.avd)) {
+                throw new Error(`AVD not found: ${selector.avd} (see emulator -list-avds).`);
+            }
+            devices.push(avdDevice(`emulator-${claimPort()}`, selector.avd));
+        } else {
+            let found: AndroidDevice | undefined;
+            for (const serial of attached) {
+                if (!chosen(serial) && (await deviceApiLevel(serial, env)) === selector.apiLevel) {
+                    found = attachedDevice(serial);
+                    break;
                 }
             }
-
-            if (!deviceAvailable) {
-                throw new Error(
-                    `Emulator failed to start within ${EMULATOR_BOOT_TIMEOUT_MS / 1000} seconds. Please check emulator logs.`
+            if (!found) {
+                const avd = (await getAvds()).find(
+                    (name) =>
+                        !runningAvds.has(name) &&
+                        !devices.some((d) => d.avd === name) &&
+                        avdApiLevel(name, env) === selector.apiLevel
                 );
+                if (avd) found = avdDevice(`emulator-${claimPort()}`, avd);
+            }
+            if (!found) {
+                throw new Error(`No attached device or AVD with API level ${selector.apiLevel}.`);
             }
-            // Wait for Android to finish booting
-            await new Promise((resolve) => setTimeout(resolve, EMULATOR_BOOT_WAIT_MS));
-            console.log("✓ Emulator started successfully");
-        } catch (error) {
-            if (error instanceof Error) throw error;
-            throw new Error(`Failed to start emulator: ${String(error)}`);
+            devices.push(found);
         }
+    }
+    return devices;
+}
+
+/** Whether the AVD has a saved snapshot with this name */
+function avdHasSnapshot(avd: string, snapshot: string, env: RunnerEnv): boolean {
+    return env.fs.exists(join(avdHome(env), `${avd}.avd`, "snapshots", snapshot));
+}
+
+/**
+ * Start an AVD on the console port in the device's serial. Without a snapshot
+ * it cold boots; with one it never saves over it on exit. Returns the emulator's PID.
+ */
+function startEmulator(device: AndroidDevice, env: RunnerEnv, setup: DeviceSetup): number | undefined {
+    const port = parseInt(device.serial.slice("emulator-".length), 10);
+    const args = ["-avd", `${device.avd}`, "-port", String(port)];
+    if (setup.snapshot) {
+        args.push("-snapshot", setup.snapshot, "-no-snapshot-save");
     } else {
-        console.log("✓ Emulator already running");
+        args.push("-no-snapshot-load");
     }
+    args.push("-no-audio");
+    if (setup.wipeData) args.push("-wipe-data");
+    if (setup.headless) args.push("-no-window", "-gpu", "swiftshader_indirect");
 
-    // Step 5: Install debug APK
-    console.log("Step 5: Installing debug APK...");
-    const debugApkPath = join(project_dir, DEBUG_APK_PATH_SUFFIX);
-    try {
-        await execAsync(`adb -s ${serial} install -r "${debugApkPath}"`);
-        console.log("✓ Debug APK installed successfully");
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        throw new Error(`Failed to install debug APK: ${errorMessage}`);
+    return env.executor.start("emulator", args, (error) => {
+        env.logger.error(`Error starting emulator on port ${port}: ${error.message}`);
+    });
+}
+
+/**
+ * Wait until adb sees a started emulator.
+ */
+async function waitForEmulator(
+    device: AndroidDevice,
+    env: RunnerEnv,
+    timeoutMs: number,
+    log: (message: string) => void
+): Promise<void> {
+    const { clock } = env;
+    let deviceAvailable = false;
+    const startTime = clock.now();
+    log("Waiting for emulator to start...");
+    while (!deviceAvailable && clock.now() - startTime < timeoutMs) {
+        await clock.sleep(EMULATOR_POLL_INTERVAL_MS);
+        try {
+            deviceAvailable = (await listAttachedDevices(env)).includes(device.serial);
+        } catch {
+            // Continue polling
+        }
     }
 
-    // Step 6: Install test APK
-    console.log("Step 6: Installing test APK...");
-    const testApkPath = join(project_dir, TEST_APK_PATH_SUFFIX);
+    if (!deviceAvailable) {
+        throw new Error(`Emulator failed to start within ${timeoutMs / 1000} seconds. Please check emulator logs.`);
+    }
+    log("✓ Emulator started successfully");
+}
+
+/**
+ * Shut down an emulator this run started: ask it over its console, then kill
+ * the process if it is still running after EMULATOR_SHUTDOWN_TIMEOUT_MS.
+ */
+async function shutdownEmulator(
+    serial: string,
+    pid: number,
+    env: RunnerEnv,
+    log: (message: string) => void
+): Promise<void> {
+    const { executor, clock } = env;
+    log("Shutting down emulator...");
     try {
-        await execAsync(`adb -s ${serial} install -r "${testApkPath}"`);
-        console.log("✓ Test APK installed successfully");
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        throw new Error(`Failed to install test APK: ${errorMessage}`);
+        await executor.exec(`adb -s ${serial} emu kill`);
+    } catch {
+        // The console may be gone already; the process is killed below if needed
+    }
+    const deadline = clock.now() + EMULATOR_SHUTDOWN_TIMEOUT_MS;
+    while (executor.isRunning(pid) && clock.now() < deadline) {
+        await clock.sleep(EMULATOR_POLL_INTERVAL_MS);
     }
+    if (executor.isRunning(pid)) {
+        log(`Emulator did not exit within ${EMULATOR_SHUTDOWN_TIMEOUT_MS / 1000} seconds, killing it`);
+        executor.kill(pid, "SIGKILL");
+    }
+    untrackProcess(pid);
+    log("✓ Emulator shut down");
+}
 
-    // Step 7: Run instrument
-    console.log(`Step 7: Running test: ${test_name}...`);
-    let output = "";
+/** Output of a shell command on the device, or "" when adb fails */
+async function adbShell(serial: string, command: string, env: RunnerEnv): Promise<string> {
     try {
-        const { stdout, stderr } = await execAsync(
-            `adb -s ${serial} shell am instrument -w -r -e class "${package_name}.${test_suite_name}#${test_name}" ${package_name}.test/androidx.test.runner.AndroidJUnitRunner`
-        );
-        output = stdout + (stderr ? `\n${stderr}` : "");
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        if (isExecError(error)) {
-            output = (error.stdout || "") + (error.stderr ? `\n${error.stderr}` : "");
-        } else {
-            output = errorMessage;
-        }
+        const { stdout } = await env.executor.exec(`adb -s ${serial} shell ${command}`);
+        return stdout.trim();
+    } catch {
+        return "";
     }
+}
 
-    const logcatErrors = extractLogcatErrors(output);
+/**
+ * Window with input focus in `dumpsys window` output, e.g.
+ * "com.google.android.apps.nexuslauncher/com.google.android.apps.nexuslauncher.NexusLauncherActivity"
+ * or "Application Not Responding: com.android.systemui".
+ */
+export function parseFocusedWindow(dumpsys: string): string | undefined {
+    const match = /mCurrentFocus=Window\{\S+ \S+ ([^}]+)\}/.exec(dumpsys);
+    return match?.[1].trim();
+}
 
-    // Step 8: Screen recording and frames
-    const screenRecordPath = `/storage/emulated/0/Android/data/${package_name}/files/screenrecord_${test_name}.mp4`;
-    const localScreenRecordPath = join(project_dir, `screenrecord_${test_name}.mp4`);
-    let frameCount = 0;
-    let framesDir: string | undefined;
-    try {
-        await execAsync(`adb -s ${serial} pull "${screenRecordPath}" "${localScreenRecordPath}"`);
-        console.log("✓ Screen recording retrieved");
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.warn(`Could not pull screen recording: ${errorMessage}`);
+/**
+ * Wait until an emulator can run tests: sys.boot_completed and dev.bootcomplete
+ * are 1 by bootDeadline, then within readyTimeoutMs the package manager answers
+ * and the launcher has focus. Throws with what was last seen when a stage stalls.
+ */
+async function waitUntilReady(
+    serial: string,
+    env: RunnerEnv,
+    timeouts: { bootDeadline: number; bootTimeoutMs: number; readyTimeoutMs: number },
+    log: (message: string) => void
+): Promise<void> {
+    const { clock } = env;
+
+    log("Waiting for boot to complete...");
+    for (;;) {
+        const bootCompleted = await adbShell(serial, "getprop sys.boot_completed", env);
+        const devBootComplete = await adbShell(serial, "getprop dev.bootcomplete", env);
+        if (bootCompleted === "1" && devBootComplete === "1") break;
+        if (clock.now() >= timeouts.bootDeadline) {
+            throw new Error(
+                `${serial} did not finish booting within ${timeouts.bootTimeoutMs / 1000} seconds ` +
+                    `(sys.boot_completed=${JSON.stringify(bootCompleted)}, dev.bootcomplete=${JSON.stringify(devBootComplete)}). ` +
+                    "Check the emulator window and logs, or raise --boot-timeout for slow machines and cold boots."
+            );
+        }
+        await clock.sleep(EMULATOR_POLL_INTERVAL_MS);
     }
+    log("✓ Boot completed");
 
-    if (existsSync(localScreenRecordPath)) {
-        try {
-            console.log("Extracting frames from video...");
-            framesDir = join(project_dir, `frames_${test_name}`);
-            const result = await extractFramesFromVideo(localScreenRecordPath, framesDir);
-            frameCount = result.frameCount;
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            console.warn(`Could not extract frames from video: ${errorMessage}`);
+    log("Waiting for the package manager and launcher...");
+    const readyDeadline = clock.now() + timeouts.readyTimeoutMs;
+    let packageManager = false;
+    let focus: string | undefined;
+    for (;;) {
+        if (!packageManager) {
+            packageManager = (await adbShell(serial, "pm path android", env)).startsWith("package:");
         }
-        try {
-            unlinkSync(localScreenRecordPath);
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            console.warn(`Failed to delete screen recording file: ${errorMessage}`);
+        if (packageManager) {
+            focus = parseFocusedWindow(await adbShell(serial, "dumpsys window", env));
+            if (focus && /launcher/i.test(focus)) break;
+        }
+        if (clock.now() >= readyDeadline) {
+            const stalled = packageManager
+                ? `the launcher is not idle (focused window: ${focus ?? "none"})`
+                : "the package manager does not respond";
+            const hint = focus?.includes("Not Responding")
+                ? " A system dialog reports an app not responding; dismiss it or wipe the AVD's data."
+                : " Check the emulator screen, or raise --ready-timeout.";
+            throw new Error(
+                `${serial} booted but was not ready within ${timeouts.readyTimeoutMs / 1000} seconds: ${stalled}.${hint}`
+            );
         }
+        await clock.sleep(EMULATOR_POLL_INTERVAL_MS);
     }
+    log("✓ Device ready");
+}
 
-    const success = !hasTestFailureIndicators(output);
+/** A value in the device's settings provider */
+type DeviceSetting = { namespace: "global" | "system"; key: string; value: string };
 
-    // Step 9: Clean up
-    console.log("Step 9: Cleaning up...");
-    try {
-        await execAsync(`adb -s ${serial} uninstall ${package_name}.test`);
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.warn(`Could not uninstall test APK: ${errorMessage}`);
+const ANIMATION_SCALE_SETTINGS = ["window_animation_scale", "transition_animation_scale", "animator_duration_scale"];
+
+/** Settings a device setup asks for, in the order they are applied */
+function setupSettings(setup: DeviceSetup): DeviceSetting[] {
+    const settings: DeviceSetting[] = [];
+    if (setup.disableAnimations) {
+        for (const key of ANIMATION_SCALE_SETTINGS) settings.push({ namespace: "global", key, value: "0" });
     }
-    try {
-        await execAsync(`adb -s ${serial} uninstall ${package_name}`);
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.warn(`Could not uninstall main app: ${errorMessage}`);
+    if (setup.orientation) {
+        settings.push(
+            { namespace: "system", key: "accelerometer_rotation", value: "0" },
+            { namespace: "system", key: "user_rotation", value: setup.orientation === "portrait" ? "0" : "1" }
+        );
     }
+    return settings;
+}
+
+const REPORT_STATUS: Record<InstrumentationTest["status"], ReportTestStatus> = {
+    passed: "passed",
+    failed: "failed",
+    error: "error",
+    ignored: "skipped",
+    "assumption-failure": "skipped",
+};
+
+/**
+ * Common result of one instrumentation test. The first line of a stack trace
+ * is the failure message, the rest its details.
+ */
+function testCaseResult(test: InstrumentationTest, timeline?: TestTimeline): TestCaseResult<InstrumentationTest> {
+    const [message = "", ...details] = (test.stack ?? "").split("\n");
+    return {
+        id: `${test.className}#${test.method}`,
+        className: test.className,
+        name: test.method,
+        status: REPORT_STATUS[test.status],
+        durationMs: test.durationMs,
+        failures: test.stack ? [{ message, details: details.join("\n") || undefined }] : [],
+        log: test.stream ? excerpt(test.stream) : undefined,
+        timeline,
+        frameCount: 0,
+        record: test,
+    };
+}
+
+/** What to test and where; without devices the default emulator is used */
+export type AndroidDriverOptions = {
+    project_dir: string;
+    package_name: string;
+    /** The installed app's ID; default: applicationId in composeApp/build.gradle.kts, else package_name */
+    applicationId?: string;
+    selection: TestSelection;
+    devices?: DeviceSelector[];
+    allDevices?: boolean;
+    setup?: DeviceSetup;
+    /** Commands, clock, files and logging; nodeEnv unless testing */
+    env?: RunnerEnv;
+};
+
+/**
+ * Driver running instrumented tests with Gradle, adb and `am instrument`.
+ * BaseComposeTest records screenrecord_<class>#<method>.mp4 per test on the device;
+ * each is removed once pulled, so a test that recorded nothing never gets an
+ * earlier run's video.
+ */
+export function androidDriver(options: AndroidDriverOptions): DeviceDriver<AndroidDevice, InstrumentationTest> {
+    const { project_dir, package_name, selection } = options;
+    const env = options.env ?? nodeEnv;
+    const { executor, fs } = env;
+    const applicationId = options.applicationId ?? gradleApplicationId(project_dir, env) ?? package_name;
+    const setup = options.setup ?? {};
+    const bootTimeoutMs = setup.bootTimeoutMs ?? EMULATOR_BOOT_TIMEOUT_MS;
+    const readyTimeoutMs = setup.readyTimeoutMs ?? DEVICE_READY_TIMEOUT_MS;
+    // Directory each device's screen recordings are pulled into, removed in cleanup
+    const videoDirs = new Map<string, string>();
+    // Previous values of the settings changed on each device, restored in cleanup
+    const changedSettings = new Map<string, DeviceSetting[]>();
+    // PIDs of the emulators this run started, shut down in cleanup with --shutdown-after
+    const startedEmulators = new Map<string, number>();
+
+    return {
+        platform: "android",
+
+        async build(log) {
+            log("Building debug APK...");
+            try {
+                await executor.exec(`${GRADLEW} assembleDebug`, { cwd: project_dir });
+                log("✓ Debug APK built successfully");
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                throw new Error(`Failed to assemble debug APK: ${errorMessage}`);
+            }
+
+            log("Building test APK...");
+            try {
+                await executor.exec(`${GRADLEW} assembleDebugAndroidTest`, { cwd: project_dir });
+                log("✓ Test APK built successfully");
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                throw new Error(`Failed to assemble debug Android test APK: ${errorMessage}`);
+            }
+        },
+
+        async resolveDevices() {
+            const devices = await resolveDevices(options.devices ?? [], options.allDevices ?? false, env);
+            return Promise.all(
+                devices.map(async (device) => ({
+                    ...device,
+                    description: device.physical
+                        ? "physical device"
+                        : device.boot
+                          ? `AVD ${device.avd}, to boot`
+                          : "emulator",
+                    // Serials of emulators depend on the port they happened to start on; AVD names do not
+                    profile: device.physical ? device.serial : (device.avd ?? (await runningAvdName(device.serial, env))),
+                }))
+            );
+        },
+
+        async boot(device, log) {
+            const bootStart = env.clock.now();
+            // A snapshot is saved once the emulator is ready when it is missing or its data was wiped
+            let saveSnapshot = false;
+            if (device.boot) {
+                log("Starting emulator...");
+                log(`Using AVD: ${device.avd}`);
+                if (setup.snapshot) {
+                    saveSnapshot = setup.wipeData || !avdHasSnapshot(`${device.avd}`, setup.snapshot, env);
+                    log(
+                        saveSnapshot
+                            ? `Cold booting, snapshot ${setup.snapshot} is saved once the emulator is ready`
+                            : `Booting from snapshot ${setup.snapshot}`
+                    );
+                }
+                const pid = startEmulator(device, env, setup);
+                if (pid !== undefined) {
+                    startedEmulators.set(device.id, pid);
+                    trackProcess(pid, env);
+                }
+                await waitForEmulator(device, env, bootTimeoutMs, log);
+            }
+            // Physical devices are in use by a person and booted; emulators may still be starting up
+            if (!device.physical) {
+                await waitUntilReady(
+                    device.serial,
+                    env,
+                    { bootDeadline: bootStart + bootTimeoutMs, bootTimeoutMs, readyTimeoutMs },
+                    log
+                );
+            }
+            if (saveSnapshot) {
+                log(`Saving snapshot ${setup.snapshot}...`);
+                try {
+                    const { stdout } = await executor.exec(
+                        `adb -s ${device.serial} emu avd snapshot save ${setup.snapshot}`
+                    );
+                    // The console answers KO: <reason> instead of failing the command
+                    if (stdout.includes("KO")) throw new Error(stdout.trim());
+                    log(`✓ Snapshot ${setup.snapshot} saved`);
+                } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    log(`Could not save snapshot ${setup.snapshot}: ${errorMessage}`);
+                }
+            }
+            return deviceOsVersion(device.serial, env);
+        },
+
+        async install(device, log) {
+            log("Installing debug APK...");
+            try {
+                await executor.exec(`adb -s ${device.serial} install -r "${join(project_dir, DEBUG_APK_PATH_SUFFIX)}"`);
+                log("✓ Debug APK installed successfully");
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                throw new Error(`Failed to install debug APK: ${errorMessage}`);
+            }
+
+            log("Installing test APK...");
+            try {
+                await executor.exec(`adb -s ${device.serial} install -r "${join(project_dir, TEST_APK_PATH_SUFFIX)}"`);
+                log("✓ Test APK installed successfully");
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                throw new Error(`Failed to install test APK: ${errorMessage}`);
+            }
+        },
+
+        async run(device, log) {
+            const settings = setupSettings(setup);
+            if (settings.length > 0) {
+                if (setup.disableAnimations) log("Disabling animations...");
+                if (setup.orientation) log(`Locking orientation to ${setup.orientation}...`);
+                const previous: DeviceSetting[] = [];
+                changedSettings.set(device.id, previous);
+                for (const { namespace, key, value } of settings) {
+                    try {
+                        const { stdout } = await executor.exec(
+                            `adb -s ${device.serial} shell settings get ${namespace} ${key}`
+                        );
+                        previous.push({ namespace, key, value: stdout.trim() });
+                        await executor.exec(`adb -s ${device.serial} shell settings put ${namespace} ${key} ${value}`);
+                    } catch (error) {
+                        const errorMessage = error instanceof Error ? error.message : String(error);
+                        throw new Error(`Failed to set ${namespace} setting ${key}: ${errorMessage}`);
+                    }
+                }
+            }
+
+            // Crashes and the app's log are read from what logcat records from here on
+            try {
+                await executor.exec(`adb -s ${device.serial} logcat -c`);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                log(`Could not clear logcat: ${errorMessage}`);
+            }
+
+            log(`Running ${describeSelection(selection)}...`);
+            const instrumentation = await runInstrumentation(device.serial, applicationId, selection, env);
+            const run = parseInstrumentationOutput(instrumentation.lines);
+            const success = instrumentationPassed(run);
+
+            let error: string | undefined;
+            if (run.crash) {
+                error = `Instrumentation did not complete: ${run.crash}`;
+            } else if (run.tests.length === 0) {
+                error = "No tests ran; check the test selection.";
+            }
+            const logcatErrors = excerpt(extractLogcatErrors(instrumentation.output));
+            const output = success ? undefined : excerpt(instrumentation.output);
+
+            let timelines = new Map<string, TestTimeline>();
+            try {
+                const { stdout } = await executor.exec(
+                    `adb -s ${device.serial} logcat -d -v epoch -s ${STEP_MARKER_TAG}:I`
+                );
+                timelines = parseStepMarkers(stdout);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                log(`Could not read test step markers from logcat: ${errorMessage}`);
+            }
+            const logsDir = join(project_dir, `logs_${device.serial.replace(/[^\w.-]/g, "_")}`);
+            const appLogs = await collectAppLogs(device.serial, applicationId, logsDir, env, log);
+            const appLog = appLogs.crashes.length > 0 && appLogs.appLog ? excerpt(appLogs.appLog) : undefined;
+            return {
+                success,
+                output: instrumentation.output,
+                tests: run.tests.map((test) => testCaseResult(test, timelines.get(`${test.className}#${test.method}`))),
+                error,
+                log: logcatErrors
+                    ? { title: "Logcat errors", text: logcatErrors }
+                    : appLog
+                      ? { title: "App logcat", text: appLog }
+                      : output
+                        ? { title: "Instrumentation output", text: output }
+                        : undefined,
+                crashes: appLogs.crashes.length > 0 ? appLogs.crashes : undefined,
+                logsDir: appLogs.logsDir,
+            };
+        },
+
+        async collectVideos(device, run, log) {
+            const videos = new Map<TestCaseResult<InstrumentationTest>, string>();
+            const dir = fs.mkdtemp(join(env.tmpDir, "pistachio-screenrecord-"));
+            videoDirs.set(device.id, dir);
+            for (const [index, test] of run.tests.entries()) {
+                if (test.record.status === "ignored") continue;
+                const screenRecordPath = `/storage/emulated/0/Android/data/${applicationId}/files/screenrecord_${test.id}.mp4`;
+                const localScreenRecordPath = join(dir, `${index}_${test.name}.mp4`);
+                try {
+                    await executor.exec(`adb -s ${device.serial} pull "${screenRecordPath}" "${localScreenRecordPath}"`);
+                } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    log(`Could not pull screen recording for ${test.id}: ${errorMessage}`);
+                }
+                try {
+                    await executor.exec(`adb -s ${device.serial} shell rm -f "${screenRecordPath}"`);
+                } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    log(`Could not remove screen recording for ${test.id} from the device: ${errorMessage}`);
+                }
+                if (fs.exists(localScreenRecordPath)) videos.set(test, localScreenRecordPath);
+            }
+            return videos;
+        },
 
-    return { success, output, logcatErrors, frameCount, framesDir };
+        async cleanup(device, log) {
+            try {
+                await executor.exec(`adb -s ${device.serial} uninstall ${applicationId}.test`);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                log(`Could not uninstall test APK: ${errorMessage}`);
+            }
+            try {
+                await executor.exec(`adb -s ${device.serial} uninstall ${applicationId}`);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                log(`Could not uninstall main app: ${errorMessage}`);
+            }
+            // Restore in reverse so a setting changed twice ends up at its original value
+            for (const { namespace, key, value } of [...(changedSettings.get(device.id) ?? [])].reverse()) {
+                // "null" is what `settings get` prints for a setting that was never set
+                const command = value === "null" ? `delete ${namespace} ${key}` : `put ${namespace} ${key} ${value}`;
+                try {
+                    await executor.exec(`adb -s ${device.serial} shell settings ${command}`);
+                } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    log(`Could not restore ${namespace} setting ${key}: ${errorMessage}`);
+                }
+            }
+            changedSettings.delete(device.id);
+            const dir = videoDirs.get(device.id);
+            if (dir) {
+                fs.remove(dir);
+                videoDirs.delete(device.id);
+            }
+            const pid = startedEmulators.get(device.id);
+            if (pid !== undefined) {
+                startedEmulators.delete(device.id);
+                if (setup.shutdownAfter) {
+                    await shutdownEmulator(device.serial, pid, env, log);
+                } else {
+                    // Left running for the next run; Ctrl-C after this point no longer stops it
+                    untrackProcess(pid);
+                }
+            }
+        },
+    };
+}
+
+/** Options for runAndroidTest; without devices the default emulator is used */
+export type RunAndroidTestOptions = {
+    /** The installed app's ID; default: applicationId in composeApp/build.gradle.kts, else package_name */
+    applicationId?: string;
+    devices?: DeviceSelector[];
+    allDevices?: boolean;
+    setup?: DeviceSetup;
+    /** Commands, clock, files and logging; nodeEnv unless testing */
+    env?: RunnerEnv;
+};
+
+export type RunAndroidTestResult = RunResult<InstrumentationTest>;
+
+/**
+ * Build once, then run the selected tests on every requested device in parallel.
+ * Throws on fatal errors (build, device resolution); per-device failures are in the result.
+ */
+export async function runAndroidTest(
+    project_dir: string,
+    package_name: string,
+    selection: TestSelection,
+    options: RunAndroidTestOptions = {}
+): Promise<RunAndroidTestResult> {
+    const env = options.env ?? nodeEnv;
+    if (!env.fs.exists(project_dir)) {
+        throw new Error(`Project directory not found: ${project_dir}`);
+    }
+    return runTests(androidDriver({ project_dir, package_name, selection, ...options, env }), {
+        outputDir: project_dir,
+        env,
+    });
 }
 
 /**
@@ -454,13 +1305,23 @@ async function main() {
         process.exit(1);
     }
 
-    const { project_dir, package_name, test_suite_name, test_name } = parsed;
-    const serial = `emulator-${PORT}`;
+    const {
+        project_dir,
+        package_name,
+        application_id,
+        selection,
+        devices,
+        all_devices,
+        setup,
+        frames,
+        visual,
+        report,
+    } = parsed;
 
-    console.log(`Running Android test: ${test_name}`);
+    console.log(`Running Android tests: ${describeSelection(selection)}`);
     console.log(`Project Directory: ${project_dir}`);
     console.log(`Package: ${package_name}`);
-    console.log(`Device: ${serial}`);
+    if (application_id) console.log(`Application ID: ${application_id}`);
     console.log("");
 
     if (!existsSync(project_dir)) {
@@ -468,57 +1329,21 @@ async function main() {
         process.exit(1);
     }
 
-    let release: () => void;
-    try {
-        const lock = await acquireDeviceLock(serial);
-        release = lock.release;
-    } catch (e) {
-        const message = e instanceof Error ? e.message : String(e);
-        console.error(message);
-        process.exit(1);
-    }
-
-    process.on("exit", release);
-    process.on("SIGINT", () => {
-        release();
-        process.exit(130);
+    const driver = androidDriver({
+        project_dir,
+        package_name,
+        applicationId: application_id,
+        selection,
+        devices,
+        allDevices: all_devices,
+        setup,
     });
-    process.on("SIGTERM", () => {
-        release();
-        process.exit(143);
+    await runCli(driver, {
+        outputDir: project_dir,
+        frames,
+        visual,
+        report,
     });
-
-    let result: RunAndroidTestResult;
-    try {
-        result = await runAndroidTest(project_dir, package_name, test_suite_name, test_name);
-    } catch (e) {
-        console.error("Fatal error:", e);
-        process.exit(1);
-    } finally {
-        release();
-    }
-
-    console.log("");
-    console.log("TEST RESULTS");
-    console.log(`Status: ${result.success ? "✓ PASSED" : "✗ FAILED"}`);
-    if (result.frameCount > 0) {
-        console.log(
-            `Frames Extracted: ${result.frameCount}${result.framesDir ? ` (from ${result.framesDir})` : ""}`
-        );
-    }
-    console.log("");
-    if (!result.success) {
-        console.log("Output:");
-        console.log("-".repeat(60));
-        if (result.logcatErrors && result.logcatErrors.length > 0) {
-            console.log(result.logcatErrors);
-        } else {
-            console.log(result.output);
-        }
-        console.log("-".repeat(60));
-    }
-
-    process.exit(result.success ? 0 : 1);
 }
 
 // CLI entrypoint — only run when executed directly (not when imported for tests)
@@ -0,0 +1,80 @@
+/**
+ * Tests for simulator-logs.ts against recorded `log stream` output and a
+ * crash report in fixtures/.
+ *
+ * Usage: npx tsx --test simulator-logs.test.ts
+ */
+
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { logStreamErrors, parseCrashReport, parseLogStreamLine } from "./simulator-logs";
+
+function fixture(name: string): string {
+    return readFileSync(join(__dirname, "fixtures", name), "utf8");
+}
+
+describe("parseLogStreamLine", () => {
+    it("splits time, type, process and message", () => {
+        const text = "2026-01-05 10:00:19.511 I  Example App[4812:2c1a3] (UIKitCore) [com.apple.UIKit:Scene] Scene became active";
+        assert.deepEqual(parseLogStreamLine(text), {
+            timestamp: "2026-01-05 10:00:19.511",
+            type: "I",
+            process: "Example App",
+            pid: 4812,
+            message: "(UIKitCore) [com.apple.UIKit:Scene] Scene became active",
+            text,
+        });
+        assert.equal(parseLogStreamLine("Timestamp               Ty Process[PID:TID]"), undefined);
+    });
+});
+
+describe("logStreamErrors", () => {
+    it("keeps errors and faults", () => {
+        assert.deepEqual(
+            logStreamErrors(fixture("log-stream.txt")).map((line) => [line.type, line.timestamp]),
+            [
+                ["E", "2026-01-05 10:00:24.930"],
+                ["F", "2026-01-05 10:00:31.118"],
+            ]
+        );
+    });
+});
+
+describe("parseCrashReport", () => {
+    it("reads the exception, the fatal error message and the app's frames of the crashed thread", () => {
+        assert.deepEqual(parseCrashReport(fixture("crash-report.ips")), {
+            kind: "crash",
+            process: "Example App",
+            pid: 4812,
+            type: "EXC_BREAKPOINT (SIGTRAP)",
+            message: "iosApp/DetailView.swift:37: Fatal error: Unexpectedly found nil while unwrapping an Optional value",
+            frames: [
+                "Example App: DetailView.body.getter (DetailView.swift:37)",
+                "Shared: kfun:com.example.app.data.MuseumRepository#getObjectById(kotlin.Int){} (MuseumRepository.kt:22)",
+                "Example App: iOSApp.init() (iOSApp.swift:12)",
+                "Example App: main + 28",
+            ],
+            time: Date.UTC(2026, 0, 5, 10, 0, 31) / 1000,
+            bundleId: "com.example.app",
+        });
+    });
+
+    it("falls back to the termination reason and the top of the stack", () => {
+        const report = fixture("crash-report.ips")
+            .replace(/"asi" : .*\n/, "")
+            .replace(/\.app\\\//g, "/");
+        const crash = parseCrashReport(report);
+        assert.equal(crash?.message, "Trace/BPT trap: 5");
+        assert.deepEqual(crash?.frames.slice(0, 2), [
+            "libswiftCore.dylib: _assertionFailure(_:_:file:line:flags:) + 264",
+            "Example App: DetailView.body.getter (DetailView.swift:37)",
+        ]);
+    });
+
+    it("ignores other diagnostic reports", () => {
+        assert.equal(parseCrashReport('{"bug_type":"288","name":"spindump"}\n{}'), undefined);
+        assert.equal(parseCrashReport("not a crash report"), undefined);
+    });
+});
@@ -0,0 +1,131 @@
+/**
+ * Parsers for what a simulator records about the app under test: its unified
+ * log as printed by `log stream --style compact`, and the .ips crash reports
+ * macOS writes to ~/Library/Logs/DiagnosticReports when a simulator app
+ * crashes.
+ */
+
+import type { ReportCrash } from "../test-runner-core/report";
+
+/** Stack frames kept per crash */
+const MAX_CRASH_FRAMES = 5;
+
+/** Log stream types of errors and faults */
+const ERROR_TYPES = new Set(["E", "F"]);
+
+/** One entry of `log stream --style compact` output */
+export type LogStreamLine = {
+    /** Local time as printed, e.g. "2026-01-05 10:00:24.930" */
+    timestamp: string;
+    /** Df (default), I (info), Db (debug), E (error), F (fault), ... */
+    type: string;
+    process: string;
+    pid: number;
+    message: string;
+    text: string;
+};
+
+/** A crash read from an .ips report; bundleId is the crashed app's, when recorded */
+export type IpsCrash = ReportCrash & { bundleId?: string };
+
+/** Parse "2026-01-05 10:00:24.930 E  Example App[4812:2c1b7] message"; undefined for other lines */
+export function parseLogStreamLine(text: string): LogStreamLine | undefined {
+    const match = /^(\d{4}-\d\d-\d\d \d\d:\d\d:\d\d\.\d+)\s+(\w+)\s+(.+?)\[(\d+):[0-9a-f]+\] (.*)$/.exec(text);
+    if (!match) return undefined;
+    return {
+        timestamp: match[1],
+        type: match[2],
+        process: match[3],
+        pid: parseInt(match[4], 10),
+        message: match[5],
+        text,
+    };
+}
+
+/** The error and fault entries of `log stream --style compact` output */
+export function logStreamErrors(logStream: string): LogStreamLine[] {
+    return logStream
+        .split(/\r?\n/)
+        .map(parseLogStreamLine)
+        .filter((line): line is LogStreamLine => line !== undefined && ERROR_TYPES.has(line.type));
+}
+
+type IpsFrame = {
+    symbol?: string;
+    symbolLocation?: number;
+    imageIndex?: number;
+    imageOffset?: number;
+    sourceFile?: string;
+    sourceLine?: number;
+};
+
+/** The parts of an .ips crash report (bug type 309) read here */
+type IpsReport = {
+    procName?: string;
+    pid?: number;
+    exception?: { type?: string; signal?: string; subtype?: string };
+    termination?: { indicator?: string };
+    /** Application specific information, e.g. Swift fatal error messages, by image */
+    asi?: Record<string, string[]>;
+    faultingThread?: number;
+    threads?: { triggered?: boolean; frames?: IpsFrame[] }[];
+    usedImages?: { name?: string; path?: string }[];
+};
+
+/** "2026-01-05 10:00:31.00 +0000" as seconds since 1970 */
+function ipsTime(timestamp: string | undefined): number | undefined {
+    if (!timestamp) return undefined;
+    const ms = Date.parse(timestamp.replace(" ", "T").replace(/ ([+-]\d\d)(\d\d)$/, "$1:$2"));
+    return Number.isNaN(ms) ? undefined : ms / 1000;
+}
+
+/** "Example App: DetailView.body.getter (DetailView.swift:37)", or offsets where the location or symbol is missing */
+function frameText(frame: IpsFrame, image: string): string {
+    if (!frame.symbol) return `${image} + ${frame.imageOffset ?? 0}`;
+    const location = frame.sourceFile
+        ? ` (${frame.sourceFile}:${frame.sourceLine ?? 0})`
+        : ` + ${frame.symbolLocation ?? 0}`;
+    return `${image}: ${frame.symbol}${location}`;
+}
+
+/**
+ * Read an .ips crash report: a JSON header line followed by the JSON report.
+ * Frames come from the crashed thread, the app bundle's own (its executable
+ * and frameworks) first. Undefined when the text is not a crash report.
+ */
+export function parseCrashReport(ips: string): IpsCrash | undefined {
+    const newline = ips.indexOf("\n");
+    if (newline === -1) return undefined;
+    let header: { app_name?: string; name?: string; timestamp?: string; bundleID?: string; bug_type?: string };
+    let report: IpsReport;
+    try {
+        header = JSON.parse(ips.slice(0, newline)) as typeof header;
+        report = JSON.parse(ips.slice(newline + 1)) as IpsReport;
+    } catch {
+        return undefined;
+    }
+    if (header.bug_type !== undefined && header.bug_type !== "309") return undefined;
+
+    const images = report.usedImages ?? [];
+    const thread =
+        report.threads?.find((candidate) => candidate.triggered) ??
+        report.threads?.[report.faultingThread ?? 0];
+    const frames = (thread?.frames ?? []).map((frame) => {
+        const image = images[frame.imageIndex ?? -1];
+        return { text: frameText(frame, image?.name ?? "???"), inApp: image?.path?.includes(".app/") ?? false };
+    });
+    const app = frames.filter((frame) => frame.inApp);
+
+    const { exception, termination } = report;
+    const applicationMessage = Object.values(report.asi ?? {}).flat()[0];
+    return {
+        kind: "crash",
+        process: report.procName ?? header.app_name ?? header.name ?? "",
+        pid: report.pid,
+        type: exception?.type ? `${exception.type}${exception.signal ? ` (${exception.signal})` : ""}` : undefined,
+        message: applicationMessage ?? exception?.subtype ?? termination?.indicator ?? "",
+        frames: (app.length > 0 ? app : frames).slice(0, MAX_CRASH_FRAMES).map((frame) => frame.text),
+        time: ipsTime(header.timestamp),
+        bundleId: header.bundleID,
+    };
+}
@@ -0,0 +1,220 @@
+/**
+ * Tests for the iOS runner against a fake xcrun and xcodebuild that replay
+ * recorded output (see test-runner-core/fake-env.ts), so they run without
+ * Xcode or a simulator.
+ *
+ * Usage: npx tsx --test test-ios.test.ts
+ */
+
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { createFakeEnv, type FakeCommand, type FakeEnv, fakeFrameExtraction } from "../test-runner-core/fake-env";
+import type { FramesIndex } from "../test-runner-core/frames";
+import { runIosTest, type TestSelection } from "./test-ios";
+
+const PROJECT_DIR = "/work/ExampleApp/iosApp";
+const UDID = "8A1D3F5B-7C9E-4B2D-A6F8-0E1C3A5B7D9F";
+const SELECTION: TestSelection = { only: [], skip: [], testPlan: "iosApp" };
+
+function fixture(name: string): string {
+    return readFileSync(join(__dirname, "fixtures", name), "utf8");
+}
+
+function quoted(command: string, option: string): string | undefined {
+    return new RegExp(`${option} "([^"]+)"`).exec(command)?.[1];
+}
+
+/** Recorded output of a run on a booted iPhone simulator; earlier entries take precedence */
+function simulatorSession(env: FakeEnv): FakeCommand[] {
+    return [
+        { match: "simctl list devices available", stdout: fixture("simctl-devices.txt") },
+        { match: /simctl list devices$/, stdout: `    iPhone 16 Pro (${UDID}) (Booted)\n` },
+        {
+            match: "xcodebuild test",
+            stdout: "** TEST FAILED **\n",
+            exitCode: 65,
+            durationMs: 42000,
+            effect: (command) => {
+                const bundle = quoted(command, "-resultBundlePath");
+                if (bundle) env.fs.mkdir(bundle, { recursive: true });
+            },
+        },
+        { match: "get build-results", stdout: JSON.stringify({ status: "succeeded", errors: [], warnings: [] }) },
+        { match: "get test-results tests", stdout: fixture("test-results.json") },
+        { match: "get test-results activities", stdout: fixture("activities.json") },
+        {
+            match: "export attachments",
+            effect: (command) => {
+                const dir = quoted(command, "--output-path");
+                if (!dir) return;
+                env.fs.writeFile(`${dir}/manifest.json`, fixture("attachments-manifest.json"));
+                env.fs.writeFile(`${dir}/5B1E7D3A-2C4F-4A6B-8D0E-1F3A5C7E9B2D.mp4`, "mp4");
+            },
+        },
+        ...fakeFrameExtraction(env.fs, 7.3, [0, 0.8, 1.5, 2.9, 4.1, 5.6, 7.2]),
+    ];
+}
+
+function projectEnv(): FakeEnv {
+    const env = createFakeEnv();
+    env.fs.mkdir(PROJECT_DIR, { recursive: true });
+    return env;
+}
+
+describe("runIosTest", () => {
+    it("runs the test plan, reads per-test results and frames, then removes the result bundle", async () => {
+        const env = projectEnv();
+        env.executor.replay(...simulatorSession(env));
+        const result = await runIosTest(PROJECT_DIR, SELECTION, undefined, env);
+
+        assert.equal(result.success, false);
+        const [device] = result.devices;
+        assert.deepEqual([device.name, device.os], ["iPhone 16 Pro", "iOS 18.1"]);
+        assert.deepEqual(
+            device.tests.map((test) => [test.id, test.status]),
+            [
+                ["iosAppUITests/iosAppUITests/testScrollingDownGesture", "failed"],
+                ["iosAppUITests/iosAppUITests/testOpensDetail", "passed"],
+                ["iosAppUITests/iosAppUITestsLaunchTests/testLaunch", "passed"],
+                ["iosAppUITests/iosAppUITestsLaunchTests/testLaunchPerformance", "skipped"],
+            ]
+        );
+        const [failed] = device.tests;
+        assert.equal(failed.frameCount, 7);
+        assert.equal(failed.framesDir, `${PROJECT_DIR}/frames_testScrollingDownGesture`);
+        assert.match(failed.log ?? "", /✗ XCTAssertTrue failed/);
+        // The video started with Set Up; the assertion failed 7.18s in, while the sixth frame was shown
+        const index = JSON.parse(env.fs.readFile(`${failed.framesDir}/frames.json`)) as FramesIndex;
+        assert.deepEqual(
+            index.frames.map((frame) => [frame.time, frame.step, frame.failure]),
+            [
+                [0, "Set Up", undefined],
+                [0.8, "Open com.example.app", undefined],
+                [1.5, "Open com.example.app", undefined],
+                [2.9, "Open com.example.app", undefined],
+                [4.1, 'Swipe up "Museum list" ScrollView', undefined],
+                [5.6, 'Swipe up "Museum list" ScrollView', true],
+                [7.2, 'Swipe up "Museum list" ScrollView', undefined],
+            ]
+        );
+        assert.equal(failed.failureFrame, "frame_0006_5.600s.jpg");
+
+        const xcodebuild = env.executor.commands.find((command) => command.startsWith("xcodebuild"));
+        assert.match(xcodebuild ?? "", /-destination 'platform=iOS Simulator,name=iPhone 16 Pro,OS=18\.1'/);
+        assert.match(xcodebuild ?? "", /-testPlan "iosApp"/);
+        assert.ok(!env.executor.commands.some((command) => command.includes("simctl boot")));
+        assert.deepEqual(
+            [...env.fs.dirs].filter((dir) => dir.endsWith(".xcresult") || dir.includes("/results_")),
+            []
+        );
+    });
+
+    it("boots a shut down simulator and waits until simctl reports it booted", async () => {
+        const env = projectEnv();
+        env.executor.replay(
+            { match: /simctl list devices$/, stdout: `    iPhone 16 Pro (${UDID}) (Shutdown)\n`, times: 3 },
+            { match: `simctl boot ${UDID}` },
+            ...simulatorSession(env)
+        );
+        await runIosTest(PROJECT_DIR, SELECTION, undefined, env);
+
+        assert.ok(env.executor.commands.includes(`xcrun simctl boot ${UDID}`));
+        // One check before booting, then polls every 2 seconds until the third reports it booted
+        assert.equal(env.clock.slept() - 42000, 6000);
+        assert.ok(env.logs.includes("✓ Simulator booted"));
+    });
+
+    it("gives up on a simulator that does not boot", async () => {
+        const env = projectEnv();
+        env.executor.replay(
+            { match: /simctl list devices$/, stdout: `    iPhone 16 Pro (${UDID}) (Shutdown)\n` },
+            { match: `simctl boot ${UDID}` },
+            ...simulatorSession(env)
+        );
+        const result = await runIosTest(PROJECT_DIR, SELECTION, undefined, env);
+
+        assert.equal(
+            result.devices[0].error,
+            "Simulator failed to boot within 120 seconds. Please check simulator logs."
+        );
+        assert.ok(!env.executor.commands.some((command) => command.startsWith("xcodebuild")));
+        assert.equal(env.fs.exists(`/tmp/pistachio-device-lock-${UDID}`), false);
+    });
+
+    it("reports the xcodebuild output when no result bundle was written", async () => {
+        const env = projectEnv();
+        env.executor.replay(
+            {
+                match: "xcodebuild test",
+                stdout: "xcodebuild: error: 'iosApp.xcodeproj' does not exist.\n",
+                exitCode: 66,
+            },
+            ...simulatorSession(env)
+        );
+        const result = await runIosTest(PROJECT_DIR, SELECTION, undefined, env);
+
+        const [device] = result.devices;
+        assert.match(device.error ?? "", /^No result bundle found in .*\.xcresult$/);
+        assert.deepEqual(device.log?.title, "xcodebuild output");
+        assert.match(device.log?.text ?? "", /does not exist/);
+    });
+
+    it("streams the app's log and collects its crash reports of the run", async () => {
+        const env = projectEnv();
+        env.fs.mkdir(`${PROJECT_DIR}/Configuration`);
+        env.fs.writeFile(
+            `${PROJECT_DIR}/Configuration/Config.xcconfig`,
+            "TEAM_ID=\nBUNDLE_ID=com.example.app\nAPP_NAME=Example App"
+        );
+        const reportsDir = "/home/tester/Library/Logs/DiagnosticReports";
+        const report = fixture("crash-report.ips");
+        env.fs.mkdir(reportsDir, { recursive: true });
+        env.fs.writeFile(`${reportsDir}/Example App-2026-01-05-100031.ips`, report);
+        // From an earlier run, and another app crashing during this one
+        env.fs.writeFile(
+            `${reportsDir}/Example App-2026-01-04-173012.ips`,
+            report.replace("2026-01-05 10:00:31", "2026-01-04 17:30:12")
+        );
+        env.fs.writeFile(
+            `${reportsDir}/Maps-2026-01-05-100020.ips`,
+            report.replace(/com\.example\.app/g, "com.apple.Maps")
+        );
+        env.executor.replay({ match: "log stream", stdout: fixture("log-stream.txt") }, ...simulatorSession(env));
+        const result = await runIosTest(PROJECT_DIR, SELECTION, undefined, env);
+
+        const logsDir = `${PROJECT_DIR}/logs_${UDID}`;
+        assert.ok(
+            env.executor.commands.includes(
+                `xcrun simctl spawn ${UDID} log stream --style compact --predicate subsystem == "com.example.app" OR process == "Example App"`
+            )
+        );
+        assert.deepEqual(env.executor.signals, ["SIGINT 5001"]);
+        assert.equal(env.fs.readFile(`${logsDir}/simulator.log`), fixture("log-stream.txt"));
+
+        const [device] = result.devices;
+        assert.equal(device.logsDir, logsDir);
+        assert.deepEqual(
+            device.crashes?.map((crash) => [crash.process, crash.type, crash.file]),
+            [["Example App", "EXC_BREAKPOINT (SIGTRAP)", `${logsDir}/Example App-2026-01-05-100031.ips`]]
+        );
+        assert.ok(env.fs.exists(`${logsDir}/Example App-2026-01-05-100031.ips`));
+        assert.ok(
+            env.logs.includes(
+                "✗ Crash in Example App (pid 4812): EXC_BREAKPOINT (SIGTRAP): iosApp/DetailView.swift:37: Fatal error: Unexpectedly found nil while unwrapping an Optional value"
+            )
+        );
+        assert.equal(device.log?.title, "Simulator errors");
+        assert.deepEqual(
+            device.log?.text.split("\n").map((line) => line.slice(0, 26)),
+            ["2026-01-05 10:00:24.930 E ", "2026-01-05 10:00:31.118 F "]
+        );
+    });
+
+    it("fails when no iPhone simulator is installed", async () => {
+        const env = projectEnv();
+        env.executor.replay({ match: "simctl list devices available", stdout: "== Devices ==\n-- iOS 18.1 --\n" });
+        await assert.rejects(runIosTest(PROJECT_DIR, SELECTION, undefined, env), /No available iPhone simulator/);
+    });
+});
@@ -1,21 +1,46 @@
 #!/usr/bin/env tsx
 
-import { exec } from "child_process";
-import { promisify } from "util";
 import { join } from "path";
-import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, unlinkSync, writeFileSync } from "fs";
-import { tmpdir } from "os";
+import { existsSync } from "fs";
 import { randomUUID } from "crypto";
+import { type XcresultActivity, type XcresultSummary, type XcresultTestCase, readXcresult, xcresultPassed } from "./xcresult";
+import { logStreamErrors, parseCrashReport } from "./simulator-logs";
+import { type ParseArgsFailure, runCli } from "../test-runner-core/cli";
+import { nodeEnv, type RunnerEnv } from "../test-runner-core/env";
+import { execErrorOutput } from "../test-runner-core/exec";
+import { type FrameOptions, frameOptions, FRAMES_USAGE, type TestTimeline } from "../test-runner-core/frames";
+import { VISUAL_USAGE, type VisualOptions, visualOptions } from "../test-runner-core/visual";
+import { trackProcess, untrackProcess } from "../test-runner-core/processes";
+import {
+    crashText,
+    excerpt,
+    type ReportCrash,
+    REPORT_USAGE,
+    type ReportOptions,
+    reportOptions,
+    type ReportTestStatus,
+} from "../test-runner-core/report";
+import {
+    type DeviceDriver,
+    type DriverDevice,
+    type RunResult,
+    runTests,
+    type TestCaseResult,
+} from "../test-runner-core/runner";
 
 // Constants
 const SCHEME = "iosApp";
+const UI_TEST_TARGET = "iosAppUITests";
+const DEFAULT_TEST_CLASS = "iosAppUITests";
 const MIN_SIMULATOR_OS = "15.3";
-const LOCK_TIMEOUT_MS = 30000;
-const LOCK_POLL_INTERVAL_MS = 1000;
 const SIMULATOR_BOOT_TIMEOUT_MS = 120000;
 const SIMULATOR_POLL_INTERVAL_MS = 2000;
-
-const execAsync = promisify(exec);
+/** Build settings of the app target, relative to the project directory */
+const APP_CONFIG = join("Configuration", "Config.xcconfig");
+/** Where macOS writes crash reports of simulator apps, relative to the home directory */
+const DIAGNOSTIC_REPORTS_DIR = join("Library", "Logs", "DiagnosticReports");
+const LOG_STREAM_STOP_TIMEOUT_MS = 5000;
+const LOG_STREAM_POLL_INTERVAL_MS = 500;
 
 /**
  * Returns true if version string a is >= b (e.g. "26.1" >= "26.1", "27.0" >= "26.1").
@@ -66,18 +91,6 @@ export function getFirstIphoneSimulator(stdout: string): FirstIphoneSimulator |
     return null;
 }
 
-/**
- * Type guard to check if an error has stdout/stderr properties
- */
-interface ExecError extends Error {
-    stdout?: string;
-    stderr?: string;
-}
-
-function isExecError(error: unknown): error is ExecError {
-    return error instanceof Error && ("stdout" in error || "stderr" in error);
-}
-
 /**
  * Checks if simulator is booted
  */
@@ -85,352 +98,610 @@ export function isSimulatorBooted(stdout: string, udid: string): boolean {
     return stdout.includes(udid) && stdout.includes("(Booted)");
 }
 
+/** Which tests one xcodebuild run executes */
+export type TestSelection = {
+    /** Identifiers for -only-testing (Target[/Class[/method]]); empty runs the whole test plan */
+    only: string[];
+    /** Identifiers for -skip-testing */
+    skip: string[];
+    /** Test plan to run (-testPlan); the scheme's default plan when unset */
+    testPlan?: string;
+};
+
 /** Result of successful argument parsing */
 export type ParseArgsSuccess = {
     ok: true;
     project_dir: string;
-    test_name: string;
+    selection: TestSelection;
+    frames: FrameOptions;
+    visual?: VisualOptions;
+    report?: ReportOptions;
 };
 
-/** Result of failed argument parsing; message is full text for stderr */
-export type ParseArgsFailure = { ok: false; message: string };
+export type { ParseArgsFailure };
 
 export type ParseArgsResult = ParseArgsSuccess | ParseArgsFailure;
 
+const USAGE =
+    "Usage: npx tsx test-ios.ts [options] <project_dir> [<test> ...]\n\n" +
+    "Each <test> is one of:\n" +
+    `  testName               A test method of ${UI_TEST_TARGET}/${DEFAULT_TEST_CLASS}\n` +
+    `  ClassName              Every test in a class of ${UI_TEST_TARGET}\n` +
+    "  ClassName/testName     One test method of a class\n" +
+    "  Target/ClassName[/testName]\n\n" +
+    "Options:\n" +
+    "  --all                  Run every test in the test plan instead of listing tests\n" +
+    `  --test-plan <name>     Use this test plan (default: the scheme's, ${SCHEME}.xctestplan)\n` +
+    "  --skip <test>          Skip a test, class or target (same forms as <test>); repeatable\n\n" +
+    FRAMES_USAGE +
+    "\n" +
+    VISUAL_USAGE +
+    "\n" +
+    REPORT_USAGE +
+    "\n" +
+    "Example:\n" +
+    "  npx tsx test-ios.ts /path/to/iosApp testScrollingDownGesture\n" +
+    "  npx tsx test-ios.ts --all --skip iosAppUITestsLaunchTests /path/to/iosApp";
+
+/**
+ * Expand a test argument to an xcodebuild test identifier. Names starting with
+ * "test" are methods, anything else a class (see USAGE).
+ */
+export function testIdentifier(arg: string): string {
+    const parts = arg.split("/");
+    const isMethod = (name: string): boolean => name.startsWith("test");
+    if (parts.length === 1) {
+        return isMethod(arg) ? `${UI_TEST_TARGET}/${DEFAULT_TEST_CLASS}/${arg}` : `${UI_TEST_TARGET}/${arg}`;
+    }
+    if (parts.length === 2 && isMethod(parts[1])) {
+        return `${UI_TEST_TARGET}/${arg}`;
+    }
+    return arg;
+}
+
 /**
  * Parse command line arguments. Returns a discriminated union; does not exit or log.
  */
 export function parseArgs(argv?: string[]): ParseArgsResult {
     const args = argv ?? process.argv.slice(2);
 
-    if (args.length !== 2) {
-        return {
-            ok: false,
-            message:
-                "Usage: npx tsx test-ios.ts <project_dir> <test_name>\n\nExample:\n  npx tsx test-ios.ts /path/to/iosApp testScrollingDownGesture",
-        };
+    const positional: string[] = [];
+    const skip: string[] = [];
+    let all = false;
+    let testPlan: string | undefined;
+    let reportFormat: string | undefined;
+    let reportOut: string | undefined;
+    let maxFrames: string | undefined;
+    let frameWidth: string | undefined;
+    let baseline = false;
+    let compare = false;
+    let baselineDir: string | undefined;
+    let tolerance: string | undefined;
+    const ignoreRegions: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (!arg.startsWith("--")) {
+            positional.push(arg);
+            continue;
+        }
+        const eq = arg.indexOf("=");
+        const name = eq === -1 ? arg : arg.slice(0, eq);
+        if (name === "--all") {
+            all = true;
+            continue;
+        }
+        if (name === "--baseline") {
+            baseline = true;
+            continue;
+        }
+        if (name === "--compare") {
+            compare = true;
+            continue;
+        }
+        if (
+            ![
+                "--skip",
+                "--test-plan",
+                "--max-frames",
+                "--frame-width",
+                "--baseline-dir",
+                "--tolerance",
+                "--ignore-region",
+                "--report",
+                "--out",
+            ].includes(name)
+        ) {
+            return { ok: false, message: `Unknown option: ${arg}\n\n${USAGE}` };
+        }
+        const value = eq === -1 ? args[++i] : arg.slice(eq + 1);
+        if (!value || value.trim().length === 0) {
+            return { ok: false, message: `Invalid arguments:\n  - ${name}: must be a non-empty string` };
+        }
+        if (name === "--skip") {
+            skip.push(testIdentifier(value));
+        } else if (name === "--report") {
+            reportFormat = value;
+        } else if (name === "--out") {
+            reportOut = value;
+        } else if (name === "--max-frames") {
+            maxFrames = value;
+        } else if (name === "--frame-width") {
+            frameWidth = value;
+        } else if (name === "--baseline-dir") {
+            baselineDir = value;
+        } else if (name === "--tolerance") {
+            tolerance = value;
+        } else if (name === "--ignore-region") {
+            ignoreRegions.push(value);
+        } else {
+            testPlan = value;
+        }
+    }
+
+    const frames = frameOptions(maxFrames, frameWidth);
+    if (!frames.ok) {
+        return frames;
+    }
+
+    const visual = visualOptions({ baseline, compare, baselineDir, tolerance, ignoreRegions });
+    if (!visual.ok) {
+        return visual;
+    }
+
+    const report = reportOptions(reportFormat, reportOut);
+    if (!report.ok) {
+        return report;
+    }
+
+    if (positional.length === 0) {
+        return { ok: false, message: USAGE };
     }
 
-    const [project_dir, test_name] = args;
+    const [project_dir, ...tests] = positional;
 
     if (!project_dir || project_dir.trim().length === 0) {
         return { ok: false, message: "Invalid arguments:\n  - project_dir: must be a non-empty string (path to iosApp directory)" };
     }
-    if (!test_name || test_name.trim().length === 0) {
-        return { ok: false, message: "Invalid arguments:\n  - test_name: must be a non-empty string" };
+    if (tests.some((test) => test.trim().length === 0)) {
+        return { ok: false, message: "Invalid arguments:\n  - test: must be a non-empty string" };
     }
+    if (all && tests.length > 0) {
+        return { ok: false, message: "Invalid arguments:\n  - --all: cannot be combined with a list of tests" };
+    }
+    if (!all && !testPlan && tests.length === 0) {
+        return { ok: false, message: `Invalid arguments:\n  - specify tests, --all or --test-plan\n\n${USAGE}` };
+    }
+
+    return {
+        ok: true,
+        project_dir,
+        selection: { only: tests.map(testIdentifier), skip, testPlan },
+        frames: frames.frames,
+        visual: visual.visual,
+        report: report.report,
+    };
+}
 
-    return { ok: true, project_dir, test_name };
+/** Human-readable description of a test selection, for logs */
+export function describeSelection(selection: TestSelection): string {
+    let text = selection.only.length > 0 ? selection.only.join(", ") : "all tests";
+    if (selection.testPlan) text += ` in test plan ${selection.testPlan}`;
+    if (selection.skip.length > 0) text += ` (skipping ${selection.skip.join(", ")})`;
+    return text;
 }
 
+/** The simulator a test run targets; `id` is its UDID */
+export type IosSimulator = DriverDevice & FirstIphoneSimulator;
+
 /**
- * Acquire a device lock to prevent concurrent use. Returns a release callback.
- * Throws on timeout or non-EEXIST mkdir errors.
+ * Find the first available iPhone simulator. Throws when there is none.
  */
-export async function acquireDeviceLock(
-    serial: string,
-    options?: { timeoutMs?: number; pollIntervalMs?: number }
-): Promise<{ release: () => void }> {
-    const timeoutMs = options?.timeoutMs ?? LOCK_TIMEOUT_MS;
-    const pollIntervalMs = options?.pollIntervalMs ?? LOCK_POLL_INTERVAL_MS;
-    const lockDir = join(tmpdir(), `pistachio-device-lock-${serial}`);
-    const lockPidFile = join(lockDir, "pid");
-    let acquired = false;
-
-    const release = (): void => {
-        if (!acquired) return;
-        try {
-            if (existsSync(lockDir)) {
-                rmSync(lockDir, { recursive: true, force: true });
-                console.log("✓ Device lock released");
-            }
-        } catch {
-            // Ignore cleanup errors
-        } finally {
-            acquired = false;
-        }
-    };
+async function findSimulator(env: RunnerEnv): Promise<FirstIphoneSimulator> {
+    let stdout: string;
+    try {
+        ({ stdout } = await env.executor.exec("xcrun simctl list devices available"));
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to list simulators: ${errorMessage}`);
+    }
+    const simulator = getFirstIphoneSimulator(stdout);
+    if (!simulator) {
+        throw new Error(`No available iPhone simulator found (OS >= ${MIN_SIMULATOR_OS}).`);
+    }
+    return simulator;
+}
 
-    console.log("Acquiring device lock...");
-    const lockStartTime = Date.now();
+/**
+ * Boot the simulator unless it is already running and wait until simctl reports it booted.
+ */
+async function bootSimulator(udid: string, env: RunnerEnv, log: (message: string) => void): Promise<void> {
+    const { executor, clock } = env;
+    let isBooted = false;
+    try {
+        const { stdout } = await executor.exec("xcrun simctl list devices");
+        isBooted = isSimulatorBooted(stdout, udid);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to check simulator status: ${errorMessage}`);
+    }
 
-    while (!acquired) {
-        if (Date.now() - lockStartTime >= timeoutMs) {
-            throw new Error(`Failed to acquire device lock within ${timeoutMs / 1000} seconds. Please try again later.`);
-        }
+    if (isBooted) {
+        log("✓ Simulator already running");
+        return;
+    }
 
-        try {
-            mkdirSync(lockDir);
-            writeFileSync(lockPidFile, process.pid.toString());
-            acquired = true;
-            console.log("✓ Device lock acquired");
-        } catch (err: unknown) {
-            if (err && typeof err === "object" && "code" in err && (err as NodeJS.ErrnoException).code === "EEXIST") {
-                try {
-                    const lockedPid = parseInt(readFileSync(lockPidFile, "utf8"), 10);
-                    if (!Number.isNaN(lockedPid)) {
-                        process.kill(lockedPid, 0);
-                    }
-                    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
-                } catch {
-                    console.log("Removing stale device lock...");
-                    try {
-                        rmSync(lockDir, { recursive: true, force: true });
-                    } catch {
-                        // Ignore
-                    }
+    log("Booting simulator...");
+    try {
+        await executor.exec(`xcrun simctl boot ${udid}`);
+
+        let deviceReady = false;
+        const startTime = clock.now();
+        while (!deviceReady && clock.now() - startTime < SIMULATOR_BOOT_TIMEOUT_MS) {
+            await clock.sleep(SIMULATOR_POLL_INTERVAL_MS);
+            try {
+                const { stdout } = await executor.exec("xcrun simctl list devices");
+                if (isSimulatorBooted(stdout, udid)) {
+                    deviceReady = true;
+                    break;
                 }
-            } else {
-                const errorMessage = err instanceof Error ? err.message : String(err);
-                throw new Error(`Error acquiring device lock: ${errorMessage}`);
+            } catch {
+                // Continue polling
             }
         }
-    }
 
-    return { release };
+        if (!deviceReady) {
+            throw new Error(
+                `Simulator failed to boot within ${SIMULATOR_BOOT_TIMEOUT_MS / 1000} seconds. Please check simulator logs.`
+            );
+        }
+        log("✓ Simulator booted");
+    } catch (error) {
+        if (error instanceof Error) throw error;
+        throw new Error(`Failed to boot simulator: ${String(error)}`);
+    }
 }
 
-/** Result returned by runIosTest when the test run has completed */
-export type RunIosTestResult = {
-    success: boolean;
-    output: string;
-    frameCount: number;
-    framesDir?: string;
+/** The app under test, as its build settings name it */
+type AppUnderTest = {
+    bundleId: string;
+    /** Product and executable name, e.g. "Example App" */
+    name?: string;
 };
 
 /**
- * Check xcodebuild/test output for test failure indicators.
+ * Read the app's bundle ID and name from Configuration/Config.xcconfig, which
+ * the app target builds PRODUCT_BUNDLE_IDENTIFIER ("${BUNDLE_ID}${TEAM_ID}")
+ * and PRODUCT_NAME from. Undefined when there is no BUNDLE_ID.
+ */
+function readAppUnderTest(project_dir: string, env: RunnerEnv): AppUnderTest | undefined {
+    const path = join(project_dir, APP_CONFIG);
+    if (!env.fs.exists(path)) return undefined;
+    const settings = new Map<string, string>();
+    for (const line of env.fs.readFile(path).split(/\r?\n/)) {
+        const match = /^\s*(\w+)\s*=\s*(.*?)\s*$/.exec(line);
+        if (match) settings.set(match[1], match[2]);
+    }
+    const bundleId = settings.get("BUNDLE_ID");
+    if (!bundleId) return undefined;
+    return { bundleId: bundleId + (settings.get("TEAM_ID") ?? ""), name: settings.get("APP_NAME") || undefined };
+}
+
+/**
+ * Stream the simulator's unified log of the app into logFile (`log stream`
+ * run inside the simulator) until stopLogStream. Returns the PID of the
+ * stream, or undefined when it could not be started.
  */
-export function hasTestFailureIndicators(output: string): boolean {
-    return (
-        output.includes("Test Suite 'All tests' failed") ||
-        output.includes("Test Failed") ||
-        /Test Suite '[^']+' failed/.test(output) ||
-        /\bTest\s+.*\s+failed\b/i.test(output) ||
-        output.includes("BUILD FAILED") ||
-        output.includes("xcodebuild: error:")
+function startLogStream(
+    udid: string,
+    app: AppUnderTest,
+    logFile: string,
+    env: RunnerEnv,
+    log: (message: string) => void
+): number | undefined {
+    const predicate = app.name
+        ? `subsystem == "${app.bundleId}" OR process == "${app.name}"`
+        : `subsystem == "${app.bundleId}"`;
+    const args = ["simctl", "spawn", udid, "log", "stream", "--style", "compact", "--predicate", predicate];
+    const pid = env.executor.start(
+        "xcrun",
+        args,
+        (error) => {
+            log(`Simulator log stream stopped: ${error.message}`);
+        },
+        logFile
     );
+    if (pid === undefined) {
+        log("Could not start the simulator log stream");
+        return undefined;
+    }
+    trackProcess(pid, env);
+    return pid;
 }
 
 /**
- * Extract frames from a screen recording video. Caller is responsible for deleting the video file.
+ * Stop a log stream like Ctrl-C does, so it writes what it holds, and kill it
+ * if it is still running after LOG_STREAM_STOP_TIMEOUT_MS.
  */
-export async function extractFramesFromVideo(
-    localScreenRecordPath: string,
-    framesDir: string
-): Promise<{ frameCount: number }> {
-    mkdirSync(framesDir, { recursive: true });
+async function stopLogStream(pid: number, env: RunnerEnv): Promise<void> {
+    const { executor, clock } = env;
+    executor.kill(pid, "SIGINT");
+    const deadline = clock.now() + LOG_STREAM_STOP_TIMEOUT_MS;
+    while (executor.isRunning(pid) && clock.now() < deadline) {
+        await clock.sleep(LOG_STREAM_POLL_INTERVAL_MS);
+    }
+    if (executor.isRunning(pid)) executor.kill(pid, "SIGKILL");
+    untrackProcess(pid);
+}
 
-    let duration = 0;
+/**
+ * Find the app's crash reports written between since and until (milliseconds
+ * since 1970) and copy them into logsDir. Never throws.
+ */
+function collectCrashReports(
+    app: AppUnderTest,
+    logsDir: string,
+    since: number,
+    until: number,
+    env: RunnerEnv,
+    log: (message: string) => void
+): ReportCrash[] {
+    const { fs } = env;
+    const reportsDir = join(env.homeDir, DIAGNOSTIC_REPORTS_DIR);
+    let names: string[];
     try {
-        const { stdout: durationStr } = await execAsync(
-            `ffprobe -v error -show_entries format=duration -of default=noprint_wrappers=1:nokey=1 "${localScreenRecordPath}"`
-        );
-        duration = parseFloat(durationStr.trim());
-    } catch {
-        // ignore ffprobe errors
+        names = fs.exists(reportsDir) ? fs.readdir(reportsDir).filter((name) => name.endsWith(".ips")) : [];
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        log(`Could not read crash reports: ${errorMessage}`);
+        return [];
     }
 
-    let frameCount = 0;
-
-    if (duration > 0 && duration < 1) {
-        await execAsync(
-            `ffmpeg -i "${localScreenRecordPath}" -vf "scale=320:-1" -vsync vfr -q:v 6 "${join(framesDir, "frame_%05d.jpg")}"`
-        );
-        const frameFiles = readdirSync(framesDir)
-            .filter((file) => file.startsWith("frame_") && file.endsWith(".jpg"))
-            .sort();
-        for (let i = 0; i < frameFiles.length - 1; i++) {
-            unlinkSync(join(framesDir, frameFiles[i]));
+    const crashes: ReportCrash[] = [];
+    for (const name of names.sort()) {
+        const path = join(reportsDir, name);
+        try {
+            const report = parseCrashReport(fs.readFile(path));
+            if (!report) continue;
+            const { bundleId, ...crash } = report;
+            if (bundleId !== app.bundleId || crash.time === undefined) continue;
+            if (crash.time * 1000 < since || crash.time * 1000 > until) continue;
+            crash.file = join(logsDir, name);
+            fs.copyFile(path, crash.file);
+            log(`✗ ${crashText(crash).split("\n")[0]}`);
+            crashes.push(crash);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            log(`Could not read crash report ${name}: ${errorMessage}`);
         }
-        frameCount = frameFiles.length > 0 ? 1 : 0;
-    } else {
-        await execAsync(
-            `ffmpeg -i "${localScreenRecordPath}" -vf "fps=1,scale=320:-1" -q:v 6 "${join(framesDir, "frame_%04d.jpg")}"`
-        );
-        const frameFiles = readdirSync(framesDir)
-            .filter((file) => file.startsWith("frame_") && file.endsWith(".jpg"))
-            .sort();
-        frameCount = frameFiles.length;
     }
+    return crashes;
+}
 
-    if (frameCount === 0) {
-        await execAsync(
-            `ffmpeg -i "${localScreenRecordPath}" -vf "scale=320:-1" -vsync vfr -q:v 6 "${join(framesDir, "frame_%05d.jpg")}"`
-        );
-        const frameFiles = readdirSync(framesDir)
-            .filter((file) => file.startsWith("frame_") && file.endsWith(".jpg"))
-            .sort();
-        for (let i = 0; i < frameFiles.length - 1; i++) {
-            unlinkSync(join(framesDir, frameFiles[i]));
-        }
-        frameCount = frameFiles.length > 0 ? 1 : 0;
-    }
+const REPORT_STATUS: Record<XcresultTestCase["status"], ReportTestStatus> = {
+    passed: "passed",
+    failed: "failed",
+    skipped: "skipped",
+    "expected-failure": "passed",
+};
 
-    return { frameCount };
+/** Activity log as indented titles, failing steps marked */
+function activityLog(activities: XcresultActivity[], depth = 0): string[] {
+    return activities.flatMap((activity) => [
+        `${"  ".repeat(depth)}${activity.failure ? "✗ " : ""}${activity.title}`,
+        ...activityLog(activity.children, depth + 1),
+    ]);
 }
 
 /**
- * Run the iOS test (simulator check/boot, xcodebuild test, extract attachments/frames, cleanup).
- * Throws on fatal errors; returns a result when the test run has completed (pass or fail).
+ * Steps and failure time of a test from its activity log, aligned with its
+ * first video. Nested activities are steps of their own, so the innermost one
+ * running labels a frame.
  */
-export async function runIosTest(
-    project_dir: string,
-    test_name: string,
-    simulator: FirstIphoneSimulator
-): Promise<RunIosTestResult> {
-    const { udid, name, os } = simulator;
-    const destination = `platform=iOS Simulator,name=${name},OS=${os}`;
-    const test_path = `iosAppUITests/iosAppUITests/${test_name}`;
-
-    if (!existsSync(project_dir)) {
-        throw new Error(`Project directory not found: ${project_dir}`);
-    }
+function activityTimeline(test: XcresultTestCase): TestTimeline | undefined {
+    if (test.videoStartTime === undefined) return undefined;
+    const flatten = (activities: XcresultActivity[]): XcresultActivity[] =>
+        activities.flatMap((activity) => [activity, ...flatten(activity.children)]);
+    const timed = flatten(test.activities).filter((activity) => activity.startTime !== undefined);
+    return {
+        recordingStart: test.videoStartTime,
+        steps: timed
+            .filter((activity) => !activity.failure)
+            .map((activity) => ({ title: activity.title, time: activity.startTime as number })),
+        failureTime: timed.find((activity) => activity.failure)?.startTime,
+    };
+}
 
-    const testResultUuid = randomUUID();
-    const resultBundleName = `${testResultUuid}.xcresult`;
-    const resultBundlePath = join(project_dir, resultBundleName);
-    const attachmentsOutputDir = join(project_dir, `results_${testResultUuid}`);
+/** Common result of one test case read from the result bundle */
+function testCaseResult(test: XcresultTestCase): TestCaseResult<XcresultTestCase> {
+    return {
+        id: test.identifier,
+        className: test.className,
+        name: test.method,
+        status: REPORT_STATUS[test.status],
+        durationMs: test.durationMs,
+        failures: test.failures,
+        log: test.activities.length > 0 ? excerpt(activityLog(test.activities).join("\n")) : undefined,
+        timeline: activityTimeline(test),
+        frameCount: 0,
+        record: test,
+    };
+}
 
-    // Step 1: Check simulator and boot if needed
-    console.log("Step 1: Checking simulator...");
-    let isBooted = false;
-    try {
-        const { stdout } = await execAsync("xcrun simctl list devices");
-        isBooted = isSimulatorBooted(stdout, udid);
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        throw new Error(`Failed to check simulator status: ${errorMessage}`);
-    }
+/** What to test and where; without a simulator the first available iPhone is used */
+export type IosDriverOptions = {
+    project_dir: string;
+    selection: TestSelection;
+    simulator?: FirstIphoneSimulator;
+    /** Commands, clock, files and logging; nodeEnv unless testing */
+    env?: RunnerEnv;
+};
 
-    if (!isBooted) {
-        console.log("Booting simulator...");
-        try {
-            await execAsync(`xcrun simctl boot ${udid}`);
-
-            let deviceReady = false;
-            const startTime = Date.now();
-            while (!deviceReady && Date.now() - startTime < SIMULATOR_BOOT_TIMEOUT_MS) {
-                await new Promise((resolve) => setTimeout(resolve, SIMULATOR_POLL_INTERVAL_MS));
-                try {
-                    const { stdout } = await execAsync("xcrun simctl list devices");
-                    if (isSimulatorBooted(stdout, udid)) {
-                        deviceReady = true;
-                        break;
-                    }
-                } catch {
-                    // Continue polling
-                }
+/**
+ * Driver running XCUITests with `xcodebuild test`. xcodebuild builds and
+ * installs as part of the run; per-test results and the video attachments
+ * come from the result bundle.
+ */
+export function iosDriver(options: IosDriverOptions): DeviceDriver<IosSimulator, XcresultTestCase> {
+    const { project_dir, selection } = options;
+    const env = options.env ?? nodeEnv;
+    const { fs } = env;
+    // Result bundle and exported attachments of each simulator's run, removed in cleanup
+    const resultPaths = new Map<string, { bundle: string; attachments: string }>();
+
+    return {
+        platform: "ios",
+
+        async resolveDevices() {
+            const simulator = options.simulator ?? (await findSimulator(env));
+            return [{ ...simulator, id: simulator.udid, description: `iOS ${simulator.os}` }];
+        },
+
+        async boot(device, log) {
+            await bootSimulator(device.udid, env, log);
+            return `iOS ${device.os}`;
+        },
+
+        async run(device, log) {
+            const destination = `platform=iOS Simulator,name=${device.name},OS=${device.os}`;
+            const testArgs = [
+                ...(selection.testPlan ? [`-testPlan "${selection.testPlan}"`] : []),
+                ...selection.only.map((id) => `"-only-testing:${id}"`),
+                ...selection.skip.map((id) => `"-skip-testing:${id}"`),
+            ].join(" ");
+            const testResultUuid = randomUUID();
+            const paths = {
+                bundle: join(project_dir, `${testResultUuid}.xcresult`),
+                attachments: join(project_dir, `results_${testResultUuid}`),
+            };
+            resultPaths.set(device.id, paths);
+
+            // The app's log and crash reports of this run go to logs_<udid>
+            const app = readAppUnderTest(project_dir, env);
+            const logsDir = join(project_dir, `logs_${device.udid}`);
+            const logFile = join(logsDir, "simulator.log");
+            let logStream: number | undefined;
+            if (app) {
+                fs.remove(logsDir);
+                fs.mkdir(logsDir, { recursive: true });
+                logStream = startLogStream(device.udid, app, logFile, env, log);
+            } else {
+                log(`No BUNDLE_ID in ${join(project_dir, APP_CONFIG)}; not collecting the app's log and crash reports`);
             }
 
-            if (!deviceReady) {
-                throw new Error(
-                    `Simulator failed to boot within ${SIMULATOR_BOOT_TIMEOUT_MS / 1000} seconds. Please check simulator logs.`
+            log(`Running ${describeSelection(selection)}...`);
+            const runStart = env.clock.now();
+            let output = "";
+            try {
+                const { stdout, stderr } = await env.executor.exec(
+                    `xcodebuild test -scheme ${SCHEME} -destination '${destination}' -resultBundlePath "${paths.bundle}" ${testArgs}`,
+                    { cwd: project_dir, maxBuffer: 64 * 1024 * 1024 }
                 );
+                output = stdout + (stderr ? `\n${stderr}` : "");
+            } catch (error) {
+                output = execErrorOutput(error);
             }
-            console.log("✓ Simulator booted");
-        } catch (error) {
-            if (error instanceof Error) throw error;
-            throw new Error(`Failed to boot simulator: ${String(error)}`);
-        }
-    } else {
-        console.log("✓ Simulator already running");
-    }
 
-    // Step 2: Run xcodebuild test
-    console.log(`Step 2: Running test: ${test_name}...`);
-    let output = "";
-    try {
-        const { stdout, stderr } = await execAsync(
-            `xcodebuild test -scheme ${SCHEME} -destination '${destination}' -resultBundlePath "${resultBundlePath}" -only-testing:${test_path}`,
-            { cwd: project_dir }
-        );
-        output = stdout + (stderr ? `\n${stderr}` : "");
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        if (isExecError(error)) {
-            output = (error.stdout || "") + (error.stderr ? `\n${error.stderr}` : "");
-        } else {
-            output = errorMessage;
-        }
-    }
-
-    const success = !hasTestFailureIndicators(output);
-
-    // Step 3: Extract attachments with xcparse and frames from largest video
-    let frameCount = 0;
-    let framesDir: string | undefined;
+            if (logStream !== undefined) await stopLogStream(logStream, env);
+            const crashes = app ? collectCrashReports(app, logsDir, runStart, env.clock.now(), env, log) : [];
+            let simulatorErrors: string | undefined;
+            if (logStream !== undefined && fs.exists(logFile)) {
+                const errors = logStreamErrors(fs.readFile(logFile));
+                simulatorErrors = excerpt(errors.map((line) => line.text).join("\n"));
+            }
+            const appLogs = {
+                crashes: crashes.length > 0 ? crashes : undefined,
+                logsDir: app ? logsDir : undefined,
+            };
 
-    if (existsSync(resultBundlePath)) {
-        try {
-            mkdirSync(attachmentsOutputDir, { recursive: true });
-            await execAsync(`xcparse attachments "${resultBundlePath}" "${attachmentsOutputDir}"`);
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            console.warn(`Could not extract attachments with xcparse: ${errorMessage}`);
-        }
+            if (!fs.exists(paths.bundle)) {
+                const xcodebuildOutput = excerpt(output);
+                return {
+                    success: false,
+                    output,
+                    tests: [],
+                    error: `No result bundle found in ${paths.bundle}`,
+                    log: xcodebuildOutput ? { title: "xcodebuild output", text: xcodebuildOutput } : undefined,
+                    ...appLogs,
+                };
+            }
 
-        if (existsSync(attachmentsOutputDir)) {
+            log("Reading result bundle...");
+            let summary: XcresultSummary;
             try {
-                const attachmentFiles = readdirSync(attachmentsOutputDir, { recursive: true });
-                const attachmentFileStrings = attachmentFiles
-                    .map((file) => (typeof file === "string" ? file : String(file)))
-                    .filter((file): file is string => typeof file === "string");
-
-                const videoFiles = attachmentFileStrings.filter(
-                    (file) => file.endsWith(".mp4") || file.endsWith(".mov") || file.endsWith(".m4v")
-                );
+                summary = await readXcresult(paths.bundle, paths.attachments, env);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                return { success: false, output, tests: [], error: errorMessage, ...appLogs };
+            }
 
-                let largestVideoPath: string | null = null;
-                let largestVideoSize = 0;
-                for (const videoFile of videoFiles) {
-                    const videoPath = join(attachmentsOutputDir, videoFile);
-                    if (existsSync(videoPath)) {
-                        try {
-                            const stats = statSync(videoPath);
-                            if (stats.size > largestVideoSize) {
-                                largestVideoSize = stats.size;
-                                largestVideoPath = videoPath;
-                            }
-                        } catch {
-                            // Skip
-                        }
-                    }
-                }
+            // Build errors are reported apart from test failures
+            const buildErrors = summary.buildErrors.map((issue) => {
+                const location = issue.file ? `${issue.file}${issue.line !== undefined ? `:${issue.line}` : ""}: ` : "";
+                return `${location}${issue.message}`;
+            });
+            const success = xcresultPassed(summary);
+            const xcodebuildOutput = !success && summary.tests.length === 0 ? excerpt(output) : undefined;
+            return {
+                success,
+                output,
+                tests: summary.tests.map(testCaseResult),
+                error: buildErrors.length > 0 ? "Build failed" : undefined,
+                log:
+                    buildErrors.length > 0
+                        ? { title: "Build errors", text: buildErrors.join("\n") }
+                        : simulatorErrors
+                          ? { title: "Simulator errors", text: simulatorErrors }
+                          : xcodebuildOutput
+                            ? { title: "xcodebuild output", text: xcodebuildOutput }
+                            : undefined,
+                ...appLogs,
+            };
+        },
 
-                if (largestVideoPath) {
-                    framesDir = join(project_dir, `frames_${test_name}`);
-                    try {
-                        console.log("Extracting frames from video...");
-                        const result = await extractFramesFromVideo(largestVideoPath, framesDir);
-                        frameCount = result.frameCount;
-                    } catch (err) {
-                        const msg = err instanceof Error ? err.message : String(err);
-                        console.warn(`Could not extract frames from video: ${msg}`);
-                    }
-                }
-            } catch (err) {
-                const msg = err instanceof Error ? err.message : String(err);
-                console.warn(`Could not process attachments: ${msg}`);
+        async collectVideos(_device, run) {
+            const videos = new Map<TestCaseResult<XcresultTestCase>, string>();
+            for (const test of run.tests) {
+                const video = test.record.videos[0];
+                if (video) videos.set(test, video);
             }
+            return videos;
+        },
 
+        async cleanup(device, log) {
+            const paths = resultPaths.get(device.id);
+            if (!paths) return;
+            resultPaths.delete(device.id);
             try {
-                rmSync(attachmentsOutputDir, { recursive: true, force: true });
+                fs.remove(paths.attachments);
             } catch {
                 // Ignore
             }
-        }
+            try {
+                fs.remove(paths.bundle);
+            } catch {
+                log("Could not delete result bundle");
+            }
+        },
+    };
+}
 
-        try {
-            rmSync(resultBundlePath, { recursive: true, force: true });
-        } catch {
-            console.warn("Could not delete result bundle");
-        }
-    } else {
-        console.warn(`No result bundle found in ${resultBundlePath}`);
-    }
+export type RunIosTestResult = RunResult<XcresultTestCase>;
 
-    return { success, output, frameCount, framesDir };
+/**
+ * Run the selected iOS tests on the simulator (boot if needed, xcodebuild test,
+ * per-test results and frames, cleanup).
+ * Throws on fatal errors; returns a result when the test run has completed (pass or fail).
+ */
+export async function runIosTest(
+    project_dir: string,
+    selection: TestSelection,
+    simulator?: FirstIphoneSimulator,
+    env: RunnerEnv = nodeEnv
+): Promise<RunIosTestResult> {
+    if (!env.fs.exists(project_dir)) {
+        throw new Error(`Project directory not found: ${project_dir}`);
+    }
+    return runTests(iosDriver({ project_dir, selection, simulator, env }), { outputDir: project_dir, env });
 }
 
 /**
@@ -443,28 +714,10 @@ async function main() {
         process.exit(1);
     }
 
-    const { project_dir, test_name } = parsed;
-
-    let simulator: FirstIphoneSimulator;
-    try {
-        const { stdout } = await execAsync("xcrun simctl list devices available");
-        const sim = getFirstIphoneSimulator(stdout);
-        if (!sim) {
-            console.error(`Error: No available iPhone simulator found (OS >= ${MIN_SIMULATOR_OS}).`);
-            process.exit(1);
-        }
-        simulator = sim;
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error(`Error: Failed to list simulators: ${errorMessage}`);
-        process.exit(1);
-    }
-
-    const destination = `platform=iOS Simulator,name=${simulator.name},OS=${simulator.os}`;
+    const { project_dir, selection, frames, visual, report } = parsed;
 
-    console.log(`Running iOS test: ${test_name}`);
+    console.log(`Running iOS tests: ${describeSelection(selection)}`);
     console.log(`Project Directory: ${project_dir}`);
-    console.log(`Destination: ${destination}`);
     console.log("");
 
     if (!existsSync(project_dir)) {
@@ -472,53 +725,7 @@ async function main() {
         process.exit(1);
     }
 
-    let release: () => void;
-    try {
-        const lock = await acquireDeviceLock(simulator.udid);
-        release = lock.release;
-    } catch (e) {
-        const message = e instanceof Error ? e.message : String(e);
-        console.error(message);
-        process.exit(1);
-    }
-
-    process.on("exit", release);
-    process.on("SIGINT", () => {
-        release();
-        process.exit(130);
-    });
-    process.on("SIGTERM", () => {
-        release();
-        process.exit(143);
-    });
-
-    let result: RunIosTestResult;
-    try {
-        result = await runIosTest(project_dir, test_name, simulator);
-    } catch (e) {
-        console.error("Fatal error:", e);
-        process.exit(1);
-    } finally {
-        release();
-    }
-
-    console.log("");
-    console.log("TEST RESULTS");
-    console.log(`Status: ${result.success ? "✓ PASSED" : "✗ FAILED"}`);
-    if (result.frameCount > 0) {
-        console.log(
-            `Frames Extracted: ${result.frameCount}${result.framesDir ? ` (from ${result.framesDir})` : ""}`
-        );
-    }
-    console.log("");
-    if (!result.success) {
-        console.log("Output:");
-        console.log("-".repeat(60));
-        console.log(result.output);
-        console.log("-".repeat(60));
-    }
-
-    process.exit(result.success ? 0 : 1);
+    await runCli(iosDriver({ project_dir, selection }), { outputDir: project_dir, frames, visual, report });
 }
 
 // CLI entrypoint — only run when executed directly (not when imported for tests)
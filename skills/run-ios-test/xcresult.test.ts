@@ -0,0 +1,154 @@
+/**
+ * Tests for xcresult.ts against `xcrun xcresulttool` JSON output checked in
+ * under fixtures/, so they run without Xcode.
+ *
+ * Usage: npx tsx --test xcresult.test.ts
+ */
+
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import {
+    parseActivities,
+    parseAttachmentManifest,
+    parseBuildResults,
+    parseFailureMessage,
+    parseTestResults,
+    type XcresultSummary,
+    xcresultPassed,
+} from "./xcresult";
+
+function fixture(name: string): string {
+    return readFileSync(join(__dirname, "fixtures", name), "utf8");
+}
+
+describe("parseTestResults", () => {
+    const { device, tests } = parseTestResults(fixture("test-results.json"));
+
+    it("reads the destination", () => {
+        assert.deepEqual(device, { name: "iPhone 16", os: "18.1" });
+    });
+
+    it("reports every test case with its target, class, status and duration", () => {
+        assert.deepEqual(
+            tests.map((t) => [t.identifier, t.testId, t.status, t.durationMs]),
+            [
+                [
+                    "iosAppUITests/iosAppUITests/testScrollingDownGesture",
+                    "iosAppUITests/testScrollingDownGesture()",
+                    "failed",
+                    7314,
+                ],
+                ["iosAppUITests/iosAppUITests/testOpensDetail", "iosAppUITests/testOpensDetail()", "passed", 3021],
+                [
+                    "iosAppUITests/iosAppUITestsLaunchTests/testLaunch",
+                    "iosAppUITestsLaunchTests/testLaunch()",
+                    "passed",
+                    4502,
+                ],
+                [
+                    "iosAppUITests/iosAppUITestsLaunchTests/testLaunchPerformance",
+                    "iosAppUITestsLaunchTests/testLaunchPerformance()",
+                    "skipped",
+                    12,
+                ],
+            ]
+        );
+    });
+
+    it("splits failure messages into file, line and message", () => {
+        assert.deepEqual(tests[0].failures, [
+            { file: "iosAppUITests.swift", line: 34, message: "XCTAssertTrue failed - Detail screen did not appear" },
+        ]);
+        assert.deepEqual(tests[1].failures, []);
+    });
+});
+
+describe("parseFailureMessage", () => {
+    it("keeps messages without a location whole", () => {
+        assert.deepEqual(parseFailureMessage("Application crashed: SIGABRT"), {
+            message: "Application crashed: SIGABRT",
+        });
+    });
+});
+
+describe("parseActivities", () => {
+    it("reads the activity tree and marks the failing step", () => {
+        const activities = parseActivities(fixture("activities.json"));
+        assert.deepEqual(
+            activities.map((a) => a.title),
+            [
+                "Start Test at 2024-12-09 10:40:00.118",
+                "Set Up",
+                'Swipe up "Museum list" ScrollView',
+                "XCTAssertTrue failed - Detail screen did not appear",
+                "Tear Down",
+            ]
+        );
+        assert.deepEqual(
+            activities[1].children.map((a) => a.title),
+            ["Open com.example.app"]
+        );
+        const failing = activities.filter((a) => a.failure);
+        assert.equal(failing.length, 1);
+        assert.deepEqual(failing[0].attachments, ["Screenshot at failure"]);
+        assert.equal(failing[0].startTime, 1733740807.38);
+    });
+});
+
+describe("parseBuildResults", () => {
+    it("keeps build errors and warnings apart with 1-based source locations", () => {
+        const build = parseBuildResults(fixture("build-results.json"));
+        assert.equal(build.status, "failed");
+        assert.deepEqual(build.errors, [
+            {
+                message: "Cannot find 'MuseumRepository' in scope",
+                type: "Swift Compiler Error",
+                target: "iosApp",
+                file: "/Users/dev/ExampleApp/iosApp/iosApp/ListView.swift",
+                line: 12,
+            },
+        ]);
+        assert.equal(build.warnings[0].file, "/Users/dev/ExampleApp/iosApp/iosApp/Detail View.swift");
+    });
+});
+
+describe("parseAttachmentManifest", () => {
+    it("sorts each test's attachments into screenshots and videos", () => {
+        const attachments = parseAttachmentManifest(fixture("attachments-manifest.json"));
+        assert.deepEqual(attachments.get("iosAppUITests/testScrollingDownGesture()"), {
+            screenshots: ["9C2A4E1F-3B5D-4F7A-8E9C-1D2B3A4C5E6F.png"],
+            videos: ["5B1E7D3A-2C4F-4A6B-8D0E-1F3A5C7E9B2D.mp4"],
+            timestamps: {
+                "5B1E7D3A-2C4F-4A6B-8D0E-1F3A5C7E9B2D.mp4": 1733740800.201,
+                "9C2A4E1F-3B5D-4F7A-8E9C-1D2B3A4C5E6F.png": 1733740807.389,
+            },
+        });
+        assert.deepEqual(attachments.get("iosAppUITestsLaunchTests/testLaunch()")?.videos, []);
+    });
+});
+
+describe("xcresultPassed", () => {
+    const { tests } = parseTestResults(fixture("test-results.json"));
+    const summary = (overrides: Partial<XcresultSummary>): XcresultSummary => ({
+        tests: [],
+        buildErrors: [],
+        buildWarnings: [],
+        ...overrides,
+    });
+
+    it("fails a run with a failed test", () => {
+        assert.equal(xcresultPassed(summary({ tests })), false);
+    });
+
+    it("passes skipped tests", () => {
+        assert.equal(xcresultPassed(summary({ tests: tests.filter((t) => t.status !== "failed") })), true);
+    });
+
+    it("fails on build errors and on runs without tests", () => {
+        const { errors } = parseBuildResults(fixture("build-results.json"));
+        assert.equal(xcresultPassed(summary({ buildErrors: errors })), false);
+        assert.equal(xcresultPassed(summary({})), false);
+    });
+});
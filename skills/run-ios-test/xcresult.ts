@@ -0,0 +1,334 @@
+/**
+ * Reads .xcresult bundles through the JSON output of `xcrun xcresulttool`
+ * (Xcode 16+). The parse* functions take that JSON as text so they can be
+ * tested on any platform; readXcresult runs the tool and combines them.
+ */
+
+import { basename, join } from "path";
+import { nodeEnv, type RunnerEnv } from "../test-runner-core/env";
+
+/** Test results JSON can be large (one node per test, device and failure) */
+const XCRESULTTOOL_MAX_BUFFER = 64 * 1024 * 1024;
+
+/** Outcome of one test as recorded in the .xcresult bundle */
+export type XcresultTestStatus = "passed" | "failed" | "skipped" | "expected-failure";
+
+/** A failure message, with its source location when xcresult recorded one */
+export type XcresultFailure = {
+    message: string;
+    file?: string;
+    line?: number;
+};
+
+/** One step of a test's activity log (XCUIElement actions, XCTContext activities, ...) */
+export type XcresultActivity = {
+    title: string;
+    /** Seconds since 1970, as recorded by XCTest */
+    startTime?: number;
+    /** True for the activity that recorded a failure */
+    failure: boolean;
+    /** Names of the attachments the activity recorded */
+    attachments: string[];
+    children: XcresultActivity[];
+};
+
+export type XcresultTestCase = {
+    /** Target/Class/method, as accepted by -only-testing */
+    identifier: string;
+    /** Identifier xcresulttool uses for the test, e.g. "Class/method()" */
+    testId: string;
+    className: string;
+    method: string;
+    status: XcresultTestStatus;
+    durationMs?: number;
+    failures: XcresultFailure[];
+    activities: XcresultActivity[];
+    /** Exported screenshot attachments (absolute paths once exported) */
+    screenshots: string[];
+    /** Exported video attachments, largest first */
+    videos: string[];
+    /** Seconds since 1970 when the first video started recording */
+    videoStartTime?: number;
+};
+
+/** A compiler or build-system issue from `get build-results` */
+export type XcresultIssue = {
+    message: string;
+    /** Kind of issue, e.g. "Swift Compiler Error" */
+    type?: string;
+    target?: string;
+    file?: string;
+    line?: number;
+};
+
+export type XcresultBuildResults = {
+    status?: string;
+    errors: XcresultIssue[];
+    warnings: XcresultIssue[];
+};
+
+/** Everything a test run left in its result bundle */
+export type XcresultSummary = {
+    /** Destination the tests ran on */
+    device?: { name: string; os: string };
+    tests: XcresultTestCase[];
+    /** Build errors, kept apart from test failures: no test ran when there are any */
+    buildErrors: XcresultIssue[];
+    buildWarnings: XcresultIssue[];
+};
+
+// --- Test results ---
+
+/** Node of `xcresulttool get test-results tests` output */
+type TestNode = {
+    nodeType?: string;
+    name?: string;
+    nodeIdentifier?: string;
+    result?: string;
+    durationInSeconds?: number;
+    children?: TestNode[];
+};
+
+type TestResultsJson = {
+    devices?: { deviceName?: string; osVersion?: string }[];
+    testNodes?: TestNode[];
+};
+
+const STATUS_BY_RESULT: Record<string, XcresultTestStatus> = {
+    Passed: "passed",
+    Failed: "failed",
+    Skipped: "skipped",
+    "Expected Failure": "expected-failure",
+};
+
+/** Split "File.swift:42: message" into its location and message */
+export function parseFailureMessage(text: string): XcresultFailure {
+    const match = /^([^:\s][^:]*\.\w+):(\d+): ([\s\S]*)$/.exec(text);
+    return match ? { message: match[3], file: match[1], line: parseInt(match[2], 10) } : { message: text };
+}
+
+/**
+ * Collect the test cases and destination from `get test-results tests` JSON.
+ * The target and class of each test come from its enclosing bundle and suite nodes.
+ */
+export function parseTestResults(json: string): Pick<XcresultSummary, "device" | "tests"> {
+    const root = JSON.parse(json) as TestResultsJson;
+    const tests: XcresultTestCase[] = [];
+    const visit = (node: TestNode, target: string, suite: string): void => {
+        if (node.nodeType === "Test Case" && node.name) {
+            const method = node.name.replace(/\(\)$/, "");
+            tests.push({
+                identifier: `${target}/${suite}/${method}`,
+                testId: node.nodeIdentifier ?? `${suite}/${node.name}`,
+                className: suite,
+                method,
+                status: STATUS_BY_RESULT[node.result ?? ""] ?? "failed",
+                durationMs: node.durationInSeconds !== undefined ? Math.round(node.durationInSeconds * 1000) : undefined,
+                failures: (node.children ?? [])
+                    .filter((child) => child.nodeType === "Failure Message" && child.name)
+                    .map((child) => parseFailureMessage(child.name as string)),
+                activities: [],
+                screenshots: [],
+                videos: [],
+            });
+            return;
+        }
+        const isBundle = node.nodeType === "UI test bundle" || node.nodeType === "Unit test bundle";
+        for (const child of node.children ?? []) {
+            visit(
+                child,
+                isBundle ? node.name ?? target : target,
+                node.nodeType === "Test Suite" ? node.name ?? suite : suite
+            );
+        }
+    };
+    for (const node of root.testNodes ?? []) visit(node, "", "");
+
+    const device = root.devices?.[0];
+    return {
+        device: device?.deviceName ? { name: device.deviceName, os: device.osVersion ?? "" } : undefined,
+        tests,
+    };
+}
+
+// --- Activities ---
+
+/** Node of `xcresulttool get test-results activities` output */
+type ActivityNode = {
+    title?: string;
+    startTime?: number;
+    isAssociatedWithFailure?: boolean;
+    attachments?: { name?: string }[];
+    childActivities?: ActivityNode[];
+};
+
+function toActivity(node: ActivityNode): XcresultActivity {
+    return {
+        title: node.title ?? "",
+        startTime: node.startTime,
+        failure: node.isAssociatedWithFailure ?? false,
+        attachments: (node.attachments ?? []).map((attachment) => attachment.name ?? "").filter(Boolean),
+        children: (node.childActivities ?? []).map(toActivity),
+    };
+}
+
+/**
+ * Activity log of one test from `get test-results activities` JSON. Repeated
+ * runs (retries, several configurations) are concatenated in order.
+ */
+export function parseActivities(json: string): XcresultActivity[] {
+    const root = JSON.parse(json) as { testRuns?: { activities?: ActivityNode[] }[] };
+    return (root.testRuns ?? []).flatMap((run) => (run.activities ?? []).map(toActivity));
+}
+
+// --- Build results ---
+
+type IssueJson = {
+    issueType?: string;
+    message?: string;
+    targetName?: string;
+    sourceURL?: string;
+};
+
+function toIssue(issue: IssueJson): XcresultIssue {
+    const result: XcresultIssue = { message: issue.message ?? "", type: issue.issueType, target: issue.targetName };
+    if (issue.sourceURL) {
+        // file:///path/File.swift#...&StartingLineNumber=10&... (line numbers are 0-based)
+        const [path, fragment = ""] = issue.sourceURL.split("#");
+        result.file = decodeURIComponent(path.replace(/^file:\/\//, ""));
+        const line = new URLSearchParams(fragment).get("StartingLineNumber");
+        if (line !== null && !Number.isNaN(parseInt(line, 10))) result.line = parseInt(line, 10) + 1;
+    }
+    return result;
+}
+
+/** Errors and warnings from `get build-results` JSON */
+export function parseBuildResults(json: string): XcresultBuildResults {
+    const root = JSON.parse(json) as { status?: string; errors?: IssueJson[]; warnings?: IssueJson[] };
+    return {
+        status: root.status,
+        errors: (root.errors ?? []).map(toIssue),
+        warnings: (root.warnings ?? []).map(toIssue),
+    };
+}
+
+// --- Attachments ---
+
+/** Entry of the manifest.json written by `xcresulttool export attachments` */
+type AttachmentManifestEntry = {
+    testIdentifier: string;
+    attachments: { exportedFileName: string; timestamp?: number }[];
+};
+
+/** Exported attachment files of one test */
+export type TestAttachments = {
+    screenshots: string[];
+    videos: string[];
+    /** Seconds since 1970 when each attachment was recorded (a video's start), by file name */
+    timestamps: Record<string, number>;
+};
+
+const VIDEO_EXTENSION = /\.(mp4|mov|m4v)$/i;
+const SCREENSHOT_EXTENSION = /\.(png|jpe?g|heic)$/i;
+
+/** Exported attachment files of each test, keyed by xcresult test id ("Class/method()") */
+export function parseAttachmentManifest(json: string): Map<string, TestAttachments> {
+    const byTest = new Map<string, TestAttachments>();
+    for (const entry of JSON.parse(json) as AttachmentManifestEntry[]) {
+        const files = byTest.get(entry.testIdentifier) ?? { screenshots: [], videos: [], timestamps: {} };
+        for (const { exportedFileName, timestamp } of entry.attachments) {
+            if (VIDEO_EXTENSION.test(exportedFileName)) files.videos.push(exportedFileName);
+            else if (SCREENSHOT_EXTENSION.test(exportedFileName)) files.screenshots.push(exportedFileName);
+            if (timestamp !== undefined) files.timestamps[exportedFileName] = timestamp;
+        }
+        byTest.set(entry.testIdentifier, files);
+    }
+    return byTest;
+}
+
+// --- Bundle ---
+
+async function xcresulttool(args: string, env: RunnerEnv): Promise<string> {
+    const { stdout } = await env.executor.exec(`xcrun xcresulttool ${args}`, { maxBuffer: XCRESULTTOOL_MAX_BUFFER });
+    return stdout;
+}
+
+/**
+ * Read a result bundle: build issues, per-test results with their activity
+ * logs, and attachments exported to attachmentsDir. Throws if the test results
+ * cannot be read; missing build results, activities or attachments only warn.
+ */
+export async function readXcresult(
+    bundlePath: string,
+    attachmentsDir: string,
+    env: RunnerEnv = nodeEnv
+): Promise<XcresultSummary> {
+    const { fs, logger } = env;
+    const bundle = `--path "${bundlePath}"`;
+
+    let build: XcresultBuildResults = { errors: [], warnings: [] };
+    try {
+        build = parseBuildResults(await xcresulttool(`get build-results ${bundle}`, env));
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.warn(`Could not read build results: ${errorMessage}`);
+    }
+
+    let results: Pick<XcresultSummary, "device" | "tests">;
+    try {
+        results = parseTestResults(await xcresulttool(`get test-results tests ${bundle}`, env));
+    } catch (error) {
+        // A build that failed before testing leaves no test results
+        if (build.errors.length > 0) {
+            return { tests: [], buildErrors: build.errors, buildWarnings: build.warnings };
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Could not read test results from ${bundlePath}: ${errorMessage}`);
+    }
+
+    for (const test of results.tests) {
+        try {
+            test.activities = parseActivities(
+                await xcresulttool(`get test-results activities ${bundle} --test-id "${test.testId}"`, env)
+            );
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.warn(`Could not read activities of ${test.identifier}: ${errorMessage}`);
+        }
+    }
+
+    try {
+        fs.mkdir(attachmentsDir, { recursive: true });
+        await xcresulttool(`export attachments ${bundle} --output-path "${attachmentsDir}"`, env);
+        const manifestPath = join(attachmentsDir, "manifest.json");
+        const attachments = fs.exists(manifestPath)
+            ? parseAttachmentManifest(fs.readFile(manifestPath))
+            : new Map<string, TestAttachments>();
+        for (const test of results.tests) {
+            const files = attachments.get(test.testId);
+            if (!files) continue;
+            test.screenshots = files.screenshots.map((file) => join(attachmentsDir, file));
+            test.videos = files.videos
+                .map((file) => join(attachmentsDir, file))
+                .sort((a, b) => fs.size(b) - fs.size(a));
+            if (test.videos.length > 0) test.videoStartTime = files.timestamps[basename(test.videos[0])];
+        }
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.warn(`Could not export attachments: ${errorMessage}`);
+    }
+
+    return { ...results, buildErrors: build.errors, buildWarnings: build.warnings };
+}
+
+/**
+ * True when the build succeeded, at least one test ran and none failed.
+ * Skipped tests and expected failures do not fail a run.
+ */
+export function xcresultPassed(summary: XcresultSummary): boolean {
+    return (
+        summary.buildErrors.length === 0 &&
+        summary.tests.length > 0 &&
+        summary.tests.every((test) => test.status !== "failed")
+    );
+}
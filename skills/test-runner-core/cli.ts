@@ -0,0 +1,97 @@
+/**
+ * Shared tail of the runner CLIs: lock cleanup on exit and signals, stopping
+ * started processes on signals, the TEST RESULTS summary, the optional report
+ * and the exit code.
+ */
+
+import { releaseDeviceLocks } from "./lock";
+import { stopTrackedProcesses } from "./processes";
+import { crashText, type ReportOptions, writeReport } from "./report";
+import { type DeviceDriver, type DriverDevice, type RunOptions, type RunResult, runTests, toReport } from "./runner";
+
+/** Result of failed argument parsing; message is full text for stderr */
+export type ParseArgsFailure = { ok: false; message: string };
+
+/** Print a run's results for people and agents reading the console */
+export function printResults<TRecord>(result: RunResult<TRecord>): void {
+    console.log("");
+    console.log("TEST RESULTS");
+    console.log(`Status: ${result.success ? "✓ PASSED" : "✗ FAILED"}`);
+    for (const device of result.devices) {
+        const status = device.success ? "✓ PASSED" : "✗ FAILED";
+        console.log(`Device ${device.name}${device.os ? ` (${device.os})` : ""}: ${status}`);
+        if (device.error) {
+            console.log(`  ${device.error}`);
+        }
+        for (const test of device.tests) {
+            const mark = test.status === "passed" ? "✓" : test.status === "skipped" ? "-" : "✗";
+            const duration = test.durationMs !== undefined ? ` ${(test.durationMs / 1000).toFixed(1)}s` : "";
+            const frames = test.frameCount > 0 ? `, ${test.frameCount} frames in ${test.framesDir}` : "";
+            console.log(`  ${mark} ${test.id}: ${test.status}${duration}${frames}`);
+            if (test.status !== "failed" && test.status !== "error") continue;
+            for (const failure of test.failures) {
+                const location = failure.file ? `${failure.file}${failure.line !== undefined ? `:${failure.line}` : ""}: ` : "";
+                console.log(`      ${location}${failure.message}`);
+            }
+        }
+        for (const crash of device.crashes ?? []) {
+            console.log(`  ✗ ${crashText(crash).replace(/\n/g, "\n    ")}`);
+        }
+        if (device.logsDir) console.log(`  Device logs: ${device.logsDir}`);
+    }
+    console.log("");
+    if (!result.success) {
+        console.log("Output:");
+        console.log("-".repeat(60));
+        for (const device of result.devices) {
+            const text = device.log ? `${device.log.title}:\n${device.log.text}` : device.output || device.error;
+            if (!text) continue;
+            console.log(result.devices.length > 1 ? `=== ${device.name} ===\n${text}` : text);
+        }
+        console.log("-".repeat(60));
+    }
+}
+
+/**
+ * Run the tests, print the results, write the report if asked and exit with
+ * 0 when every device passed, 1 otherwise.
+ */
+export async function runCli<TDevice extends DriverDevice, TRecord>(
+    driver: DeviceDriver<TDevice, TRecord>,
+    options: RunOptions & { report?: ReportOptions }
+): Promise<never> {
+    process.on("exit", releaseDeviceLocks);
+    process.on("SIGINT", () => {
+        stopTrackedProcesses();
+        releaseDeviceLocks();
+        process.exit(130);
+    });
+    process.on("SIGTERM", () => {
+        stopTrackedProcesses();
+        releaseDeviceLocks();
+        process.exit(143);
+    });
+
+    let result: RunResult<TRecord>;
+    try {
+        result = await runTests(driver, options);
+    } catch (e) {
+        console.error("Fatal error:", e);
+        process.exit(1);
+    } finally {
+        releaseDeviceLocks();
+    }
+
+    printResults(result);
+
+    if (options.report) {
+        try {
+            console.log(`Report: ${writeReport(toReport(result, options.env), options.report)}`);
+        } catch (e) {
+            const message = e instanceof Error ? e.message : String(e);
+            console.error(`Could not write report: ${message}`);
+        }
+    }
+
+    process.exit(result.success ? 0 : 1);
+}
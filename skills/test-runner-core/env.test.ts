@@ -0,0 +1,28 @@
+/**
+ * Tests for the real executor in env.ts, running this Node binary as the
+ * child process.
+ *
+ * Usage: npx tsx --test env.test.ts
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { nodeEnv } from "./env";
+
+describe("nodeEnv.executor.spawn", () => {
+    it("keeps characters whole when their bytes arrive in separate chunks", async () => {
+        // "é" is 0xc3 0xa9; each half is written on its own
+        const script = [
+            "const write = (stream, bytes) => stream.write(Buffer.from(bytes));",
+            "write(process.stdout, [0x53, 0x74, 0x65, 0x70, 0x3a, 0x20, 0x63, 0x61, 0x66, 0xc3]);",
+            "write(process.stderr, [0xc3]);",
+            "setTimeout(() => { write(process.stdout, [0xa9, 0x0a]); write(process.stderr, [0xa9]); }, 50);",
+        ].join("\n");
+        let stdout = "";
+        const { stderr } = await nodeEnv.executor.spawn(process.execPath, ["-e", script], (chunk) => {
+            stdout += chunk;
+        });
+        assert.equal(stdout, "Step: café\n");
+        assert.equal(stderr, "é");
+    });
+});
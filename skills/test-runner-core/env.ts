@@ -0,0 +1,207 @@
+/**
+ * Side effects of the test runners behind small interfaces: shell commands,
+ * time and the file system. The runners use nodeEnv unless given another
+ * environment; tests pass a fake one (see fake-env.ts) so boot, install, run
+ * and cleanup can be exercised without devices, Xcode or the Android SDK.
+ */
+
+import { spawn } from "child_process";
+import {
+    closeSync,
+    copyFileSync,
+    existsSync,
+    mkdirSync,
+    mkdtempSync,
+    openSync,
+    readdirSync,
+    readFileSync,
+    renameSync,
+    rmSync,
+    statSync,
+    writeFileSync,
+} from "fs";
+import { homedir, tmpdir } from "os";
+import { execAsync } from "./exec";
+
+export type ExecOptions = { cwd?: string; maxBuffer?: number };
+
+export type ExecResult = { stdout: string; stderr: string };
+
+export interface CommandExecutor {
+    /** Run a shell command; rejects with an ExecError (stdout and stderr attached) when it exits non-zero */
+    exec(command: string, options?: ExecOptions): Promise<ExecResult>;
+    /**
+     * Start a long-running program without a shell and without waiting for it,
+     * e.g. the emulator. Its stdout and stderr go to outputFile when given.
+     * Returns its PID, or undefined when it could not be started.
+     */
+    start(file: string, args: string[], onError: (error: Error) => void, outputFile?: string): number | undefined;
+    /** Run a program without a shell, passing stdout on as it arrives; resolves with stderr once it exits */
+    spawn(file: string, args: string[], onStdout: (chunk: string) => void): Promise<{ stderr: string }>;
+    /** Whether a process with this PID exists */
+    isRunning(pid: number): boolean;
+    /** Send a signal to a process from start and the processes it started; false when it is gone */
+    kill(pid: number, signal: NodeJS.Signals): boolean;
+}
+
+export interface Clock {
+    /** Milliseconds since the epoch */
+    now(): number;
+    sleep(ms: number): Promise<void>;
+}
+
+/**
+ * The file operations the runners use. Like fs, mkdir without `recursive`
+ * throws an error with code EEXIST when the directory exists, which the
+ * device locks rely on.
+ */
+export interface FileSystem {
+    exists(path: string): boolean;
+    mkdir(path: string, options?: { recursive?: boolean }): void;
+    /** Create a unique directory whose path starts with prefix */
+    mkdtemp(prefix: string): string;
+    readFile(path: string): string;
+    /** Contents of a binary file, e.g. raw pixels */
+    readBytes(path: string): Uint8Array;
+    writeFile(path: string, data: string): void;
+    /** Move a file, replacing the destination */
+    rename(from: string, to: string): void;
+    /** Copy a file, replacing the destination */
+    copyFile(from: string, to: string): void;
+    readdir(path: string): string[];
+    /** Size in bytes; 0 when the file does not exist */
+    size(path: string): number;
+    /** Remove a file or directory tree; no error when it does not exist */
+    remove(path: string): void;
+}
+
+export type RunnerLogger = Pick<Console, "log" | "warn" | "error">;
+
+/** Everything the runners touch outside the process */
+export type RunnerEnv = {
+    executor: CommandExecutor;
+    clock: Clock;
+    fs: FileSystem;
+    logger: RunnerLogger;
+    /** PID written into device locks */
+    pid: number;
+    tmpDir: string;
+    homeDir: string;
+    /** Environment variables, e.g. ANDROID_AVD_HOME */
+    variables: Record<string, string | undefined>;
+};
+
+const nodeExecutor: CommandExecutor = {
+    async exec(command, options) {
+        const { stdout, stderr } = await execAsync(command, { ...options, encoding: "utf8" });
+        return { stdout, stderr };
+    },
+
+    start(file, args, onError, outputFile) {
+        let output: number | "ignore" = "ignore";
+        if (outputFile) {
+            try {
+                output = openSync(outputFile, "w");
+            } catch (error) {
+                onError(error instanceof Error ? error : new Error(String(error)));
+                return undefined;
+            }
+        }
+        // Own process group, so the whole tree can be signalled and Ctrl-C in the terminal is left to us
+        const child = spawn(file, args, { detached: true, stdio: ["ignore", output, output] });
+        if (typeof output === "number") closeSync(output);
+        child.on("error", onError);
+        child.on("exit", (code) => {
+            if (code) onError(new Error(`${file} exited with code ${code}`));
+        });
+        child.unref();
+        return child.pid;
+    },
+
+    spawn(file, args, onStdout) {
+        return new Promise((resolve) => {
+            const child = spawn(file, args);
+            let stderr = "";
+            let done = false;
+            const finish = (): void => {
+                if (done) return;
+                done = true;
+                resolve({ stderr });
+            };
+            // Decoded by the streams, so characters split across chunks stay whole
+            child.stdout.setEncoding("utf8");
+            child.stderr.setEncoding("utf8");
+            child.stdout.on("data", (chunk: string) => onStdout(chunk));
+            child.stderr.on("data", (chunk: string) => {
+                stderr += chunk;
+            });
+            child.on("error", (error) => {
+                stderr += error.message;
+                finish();
+            });
+            child.on("close", finish);
+        });
+    },
+
+    isRunning(pid) {
+        try {
+            // process.kill(pid, 0) checks if process exists without killing it
+            process.kill(pid, 0);
+            return true;
+        } catch {
+            return false;
+        }
+    },
+
+    kill(pid, signal) {
+        try {
+            // A negative PID signals the process group start created; Windows has no groups
+            process.kill(process.platform === "win32" ? pid : -pid, signal);
+            return true;
+        } catch {
+            try {
+                process.kill(pid, signal);
+                return true;
+            } catch {
+                return false;
+            }
+        }
+    },
+};
+
+const nodeFileSystem: FileSystem = {
+    exists: (path) => existsSync(path),
+    mkdir: (path, options) => {
+        mkdirSync(path, options);
+    },
+    mkdtemp: (prefix) => mkdtempSync(prefix),
+    readFile: (path) => readFileSync(path, "utf8"),
+    readBytes: (path) => readFileSync(path),
+    writeFile: (path, data) => writeFileSync(path, data),
+    rename: (from, to) => renameSync(from, to),
+    copyFile: (from, to) => copyFileSync(from, to),
+    readdir: (path) => readdirSync(path),
+    size: (path) => {
+        try {
+            return statSync(path).size;
+        } catch {
+            return 0;
+        }
+    },
+    remove: (path) => rmSync(path, { recursive: true, force: true }),
+};
+
+/** The real machine: child processes, wall-clock time, the file system and console */
+export const nodeEnv: RunnerEnv = {
+    executor: nodeExecutor,
+    clock: {
+        now: () => Date.now(),
+        sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+    },
+    fs: nodeFileSystem,
+    logger: console,
+    pid: process.pid,
+    tmpDir: tmpdir(),
+    homeDir: homedir(),
+    variables: process.env,
+};
@@ -0,0 +1,28 @@
+/**
+ * Shell helpers shared by the test runners.
+ */
+
+import { exec } from "child_process";
+import { promisify } from "util";
+
+export const execAsync = promisify(exec);
+
+/**
+ * Type guard to check if an error has stdout/stderr properties
+ */
+export interface ExecError extends Error {
+    stdout?: string;
+    stderr?: string;
+}
+
+export function isExecError(error: unknown): error is ExecError {
+    return error instanceof Error && ("stdout" in error || "stderr" in error);
+}
+
+/** Combined stdout and stderr of a command that exited non-zero, or the error message */
+export function execErrorOutput(error: unknown): string {
+    if (isExecError(error)) {
+        return (error.stdout || "") + (error.stderr ? `\n${error.stderr}` : "");
+    }
+    return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,321 @@
+/**
+ * Fake RunnerEnv for tests: an executor that replays canned output for the
+ * commands the runners issue (adb, emulator, gradlew, xcrun, xcodebuild,
+ * ffmpeg), a virtual clock and an in-memory file system. Nothing is started
+ * and no time passes, so boot timeouts and lock waits finish at once.
+ */
+
+import { basename, dirname } from "path";
+import type { Clock, CommandExecutor, ExecResult, FileSystem, RunnerEnv } from "./env";
+import type { ExecError } from "./exec";
+
+/** What a faked command prints and does */
+export type FakeResponse = {
+    stdout?: string;
+    stderr?: string;
+    /** Non-zero makes exec reject like a failed command */
+    exitCode?: number;
+    /** Virtual time the command takes */
+    durationMs?: number;
+    /** Runs when the command does, e.g. to write the files it would produce */
+    effect?: (command: string) => void;
+};
+
+/**
+ * Canned response for commands containing `match` (or matching it). Used
+ * `times` times, or for every matching command when unset.
+ */
+export type FakeCommand = FakeResponse & { match: string | RegExp; times?: number };
+
+export type FakeExecutor = CommandExecutor & {
+    /** Every command issued so far, in order, as one string */
+    readonly commands: string[];
+    /** PIDs isRunning reports as alive; start adds the PIDs it hands out */
+    readonly running: Set<number>;
+    /** Every kill, in order, as "<signal> <pid>" */
+    readonly signals: string[];
+    /** Add canned responses; the first unused one that matches a command answers it */
+    replay(...commands: FakeCommand[]): void;
+};
+
+export type FakeClock = Clock & {
+    /** Total virtual time slept */
+    readonly slept: () => number;
+};
+
+export type MemoryFileSystem = FileSystem & {
+    /** File contents by absolute path; binary files hold one character per byte */
+    readonly files: Map<string, string>;
+    readonly dirs: Set<string>;
+};
+
+export type FakeEnv = RunnerEnv & {
+    executor: FakeExecutor;
+    clock: FakeClock;
+    fs: MemoryFileSystem;
+    /** Everything logged, one entry per call */
+    logs: string[];
+};
+
+function fsError(code: string, path: string): NodeJS.ErrnoException {
+    const error: NodeJS.ErrnoException = new Error(`${code}: ${path}`);
+    error.code = code;
+    return error;
+}
+
+export function createMemoryFileSystem(): MemoryFileSystem {
+    const files = new Map<string, string>();
+    const dirs = new Set<string>(["/"]);
+    let tempCount = 0;
+
+    const mkdirs = (path: string): void => {
+        for (let dir = path; !dirs.has(dir); dir = dirname(dir)) dirs.add(dir);
+    };
+
+    return {
+        files,
+        dirs,
+        exists: (path) => files.has(path) || dirs.has(path),
+        mkdir(path, options) {
+            if (options?.recursive) {
+                if (files.has(path)) throw fsError("EEXIST", path);
+                mkdirs(path);
+                return;
+            }
+            if (files.has(path) || dirs.has(path)) throw fsError("EEXIST", path);
+            if (!dirs.has(dirname(path))) throw fsError("ENOENT", path);
+            dirs.add(path);
+        },
+        mkdtemp(prefix) {
+            const path = `${prefix}${String(++tempCount).padStart(6, "0")}`;
+            mkdirs(dirname(path));
+            dirs.add(path);
+            return path;
+        },
+        readFile(path) {
+            const data = files.get(path);
+            if (data === undefined) throw fsError("ENOENT", path);
+            return data;
+        },
+        readBytes(path) {
+            const data = files.get(path);
+            if (data === undefined) throw fsError("ENOENT", path);
+            return Uint8Array.from(data, (char) => char.charCodeAt(0) & 0xff);
+        },
+        writeFile(path, data) {
+            if (!dirs.has(dirname(path))) throw fsError("ENOENT", path);
+            files.set(path, data);
+        },
+        rename(from, to) {
+            const data = files.get(from);
+            if (data === undefined) throw fsError("ENOENT", from);
+            if (!dirs.has(dirname(to))) throw fsError("ENOENT", to);
+            files.delete(from);
+            files.set(to, data);
+        },
+        copyFile(from, to) {
+            const data = files.get(from);
+            if (data === undefined) throw fsError("ENOENT", from);
+            if (!dirs.has(dirname(to))) throw fsError("ENOENT", to);
+            files.set(to, data);
+        },
+        readdir(path) {
+            if (!dirs.has(path)) throw fsError("ENOENT", path);
+            const children = [...files.keys(), ...dirs].filter((entry) => entry !== path && dirname(entry) === path);
+            return children.map((entry) => basename(entry)).sort();
+        },
+        size: (path) => files.get(path)?.length ?? 0,
+        remove(path) {
+            const inside = (entry: string): boolean => entry === path || entry.startsWith(`${path}/`);
+            for (const file of [...files.keys()]) if (inside(file)) files.delete(file);
+            for (const dir of [...dirs]) if (inside(dir) && dir !== "/") dirs.delete(dir);
+        },
+    };
+}
+
+/** Virtual clock starting at a fixed time; sleep advances it without waiting */
+export function createFakeClock(start = Date.UTC(2026, 0, 5, 10, 0, 0)): FakeClock {
+    let now = start;
+    return {
+        now: () => now,
+        sleep(ms) {
+            now += ms;
+            return Promise.resolve();
+        },
+        slept: () => now - start,
+    };
+}
+
+/** With fs, start writes a program's canned output to the output file it is given */
+export function createFakeExecutor(clock: FakeClock, fs?: FileSystem): FakeExecutor {
+    const commands: string[] = [];
+    const canned: FakeCommand[] = [];
+    const running = new Set<number>();
+    const signals: string[] = [];
+    let nextPid = 5001;
+
+    const answer = (command: string): FakeResponse | undefined => {
+        commands.push(command);
+        const index = canned.findIndex((entry) =>
+            typeof entry.match === "string" ? command.includes(entry.match) : entry.match.test(command)
+        );
+        if (index === -1) return undefined;
+        const entry = canned[index];
+        if (entry.times !== undefined && --entry.times <= 0) canned.splice(index, 1);
+        return entry;
+    };
+
+    const run = async (response: FakeResponse, command: string): Promise<void> => {
+        if (response.durationMs) await clock.sleep(response.durationMs);
+        response.effect?.(command);
+    };
+
+    return {
+        commands,
+        running,
+        signals,
+
+        replay(...entries) {
+            canned.push(...entries.map((entry) => ({ ...entry })));
+        },
+
+        async exec(command): Promise<ExecResult> {
+            const response = answer(command) ?? { stderr: `fake: no canned output for: ${command}`, exitCode: 127 };
+            await run(response, command);
+            const stdout = response.stdout ?? "";
+            const stderr = response.stderr ?? "";
+            if (response.exitCode) {
+                const error: ExecError & { code?: number } = new Error(`Command failed: ${command}\n${stderr}`);
+                error.stdout = stdout;
+                error.stderr = stderr;
+                error.code = response.exitCode;
+                throw error;
+            }
+            return { stdout, stderr };
+        },
+
+        start(file, args, onError, outputFile) {
+            const command = [file, ...args].join(" ");
+            const response = answer(command);
+            if (!response) return undefined;
+            if (outputFile && fs) fs.writeFile(outputFile, (response.stdout ?? "") + (response.stderr ?? ""));
+            const pid = nextPid++;
+            running.add(pid);
+            void run(response, command).then(() => {
+                if (!response.exitCode) return;
+                running.delete(pid);
+                onError(new Error(`${file} exited with code ${response.exitCode}`));
+            });
+            return pid;
+        },
+
+        async spawn(file, args, onStdout) {
+            const command = [file, ...args].join(" ");
+            const response = answer(command) ?? { stderr: `fake: no canned output for: ${command}` };
+            if (response.stdout) onStdout(response.stdout);
+            await run(response, command);
+            return { stderr: response.stderr ?? "" };
+        },
+
+        isRunning(pid) {
+            return running.has(pid);
+        },
+
+        kill(pid, signal) {
+            signals.push(`${signal} ${pid}`);
+            return running.delete(pid);
+        },
+    };
+}
+
+/**
+ * ffprobe and ffmpeg for a recording of `duration` seconds in which the screen
+ * changes at `times`: frame extraction writes one frame per time (with the
+ * given contents, "jpg" by default) and reports them like showinfo, the
+ * contact sheet is written as a file.
+ */
+export function fakeFrameExtraction(
+    fs: MemoryFileSystem,
+    duration: number,
+    times: number[],
+    frames: string[] = []
+): FakeCommand[] {
+    const showinfo = times
+        .map((time, n) => `[Parsed_showinfo_2 @ 0x600000d4c000] n:${n} pts:${Math.round(time * 90000)} pts_time:${time}\n`)
+        .join("");
+    return [
+        { match: "ffprobe", stdout: `${duration}\n` },
+        {
+            match: /^ffmpeg -f concat /,
+            effect: (command) => {
+                const sheet = /"([^"]+\.jpg)"$/.exec(command)?.[1];
+                if (sheet) fs.writeFile(sheet, "jpg");
+            },
+        },
+        {
+            match: /^ffmpeg -i /,
+            stderr: showinfo,
+            effect: (command) => {
+                const dir = /"([^"]+)\/extract_%04d\.jpg"$/.exec(command)?.[1];
+                if (!dir) return;
+                times.forEach((_, n) =>
+                    fs.writeFile(`${dir}/extract_${String(n + 1).padStart(4, "0")}.jpg`, frames[n] ?? "jpg")
+                );
+            },
+        },
+    ];
+}
+
+/**
+ * ffmpeg decoding frames to raw greyscale for visual comparisons, and drawing
+ * diff images. A frame decodes to its file contents, one grey level per
+ * character, so tests write frames as pixel strings. Replay these before
+ * fakeFrameExtraction, whose ffmpeg entries match the same commands.
+ */
+export function fakeFrameDecoding(fs: MemoryFileSystem): FakeCommand[] {
+    const output = (command: string): string | undefined => /"([^"]+)"$/.exec(command)?.[1];
+    return [
+        {
+            match: "-f rawvideo -pix_fmt gray",
+            effect: (command) => {
+                const list = /-i "([^"]+)"/.exec(command)?.[1];
+                const raw = output(command);
+                if (!list || !raw) return;
+                const files = [...fs.readFile(list).matchAll(/^file '(.+)'$/gm)].map((match) => match[1]);
+                fs.writeFile(raw, files.map((file) => fs.readFile(file)).join(""));
+            },
+        },
+        {
+            match: "blend=all_mode=difference",
+            effect: (command) => {
+                const diff = output(command);
+                if (diff) fs.writeFile(diff, "jpg");
+            },
+        },
+    ];
+}
+
+/** A fresh fake environment; this process's PID counts as running */
+export function createFakeEnv(): FakeEnv {
+    const clock = createFakeClock();
+    const fs = createMemoryFileSystem();
+    const executor = createFakeExecutor(clock, fs);
+    const logs: string[] = [];
+    const record = (...data: unknown[]): void => {
+        logs.push(data.map(String).join(" "));
+    };
+    const pid = 4242;
+    executor.running.add(pid);
+    fs.mkdir("/tmp", { recursive: true });
+    return {
+        executor,
+        clock,
+        fs,
+        logger: { log: record, warn: record, error: record },
+        logs,
+        pid,
+        tmpDir: "/tmp",
+        homeDir: "/home/tester",
+        variables: {},
+    };
+}
@@ -0,0 +1,146 @@
+/**
+ * Tests for frames.ts on a fake environment: keeping a frame per screen
+ * change, thinning out busy recordings, the contact sheet, frames.json and
+ * labelling frames with test steps.
+ *
+ * Usage: npx tsx --test frames.test.ts
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createFakeEnv, type FakeEnv, fakeFrameExtraction } from "./fake-env";
+import { annotateFrames, extractFramesFromVideo, type FramesIndex, frameOptions, parseShowinfoTimes } from "./frames";
+
+const VIDEO = "/tmp/recording.mp4";
+const FRAMES_DIR = "/project/frames_scrollsList";
+
+function readIndex(env: FakeEnv): FramesIndex {
+    return JSON.parse(env.fs.readFile(`${FRAMES_DIR}/frames.json`)) as FramesIndex;
+}
+
+describe("extractFramesFromVideo", () => {
+    it("keeps a timestamped frame per screen change and indexes them with a contact sheet", async () => {
+        const env = createFakeEnv();
+        env.executor.replay(...fakeFrameExtraction(env.fs, 6.5, [0, 0.267, 4.25]));
+        const { frameCount } = await extractFramesFromVideo(VIDEO, FRAMES_DIR, env);
+
+        assert.equal(frameCount, 3);
+        assert.deepEqual(env.fs.readdir(FRAMES_DIR), [
+            "contact-sheet.jpg",
+            "frame_0001_0.000s.jpg",
+            "frame_0002_0.267s.jpg",
+            "frame_0003_4.250s.jpg",
+            "frames.json",
+        ]);
+        assert.deepEqual(readIndex(env), {
+            duration: 6.5,
+            width: 320,
+            contactSheet: "contact-sheet.jpg",
+            frames: [
+                { file: "frame_0001_0.000s.jpg", time: 0 },
+                { file: "frame_0002_0.267s.jpg", time: 0.267 },
+                { file: "frame_0003_4.250s.jpg", time: 4.25 },
+            ],
+        });
+        const [extract, sheet] = env.executor.commands.filter((command) => command.startsWith("ffmpeg"));
+        assert.match(extract, /-vf "scale=320:-1,mpdecimate,showinfo" -vsync vfr/);
+        assert.match(sheet, /tile=3x1:/);
+    });
+
+    it("thins out a busy recording evenly, keeping the first and last frame", async () => {
+        const env = createFakeEnv();
+        const times = [0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4];
+        env.executor.replay(...fakeFrameExtraction(env.fs, 4.2, times));
+        const { frameCount } = await extractFramesFromVideo(VIDEO, FRAMES_DIR, env, { maxFrames: 4, width: 480 });
+
+        assert.equal(frameCount, 4);
+        assert.deepEqual(readIndex(env).frames.map((frame) => frame.time), [0, 1.5, 2.5, 4]);
+        assert.ok(!env.fs.readdir(FRAMES_DIR).some((file) => file.startsWith("extract_")));
+        assert.ok(env.executor.commands.some((command) => command.includes("scale=480:-1")));
+    });
+
+    it("replaces frames of an earlier run", async () => {
+        const env = createFakeEnv();
+        env.fs.mkdir(FRAMES_DIR, { recursive: true });
+        env.fs.writeFile(`${FRAMES_DIR}/frame_0009_12.000s.jpg`, "old");
+        env.executor.replay(...fakeFrameExtraction(env.fs, 1, [0]));
+        await extractFramesFromVideo(VIDEO, FRAMES_DIR, env);
+
+        assert.ok(!env.fs.exists(`${FRAMES_DIR}/frame_0009_12.000s.jpg`));
+        assert.ok(env.fs.exists(`${FRAMES_DIR}/frame_0001_0.000s.jpg`));
+    });
+
+    it("keeps the frames when the contact sheet cannot be made", async () => {
+        const env = createFakeEnv();
+        env.executor.replay(
+            { match: /^ffmpeg -f concat /, stderr: "Unknown filter 'tile'", exitCode: 1 },
+            ...fakeFrameExtraction(env.fs, 2, [0, 1])
+        );
+        const { frameCount } = await extractFramesFromVideo(VIDEO, FRAMES_DIR, env);
+
+        assert.equal(frameCount, 2);
+        assert.equal(readIndex(env).contactSheet, undefined);
+        assert.ok(!env.fs.exists(`${FRAMES_DIR}/contact-sheet.txt`));
+    });
+});
+
+describe("annotateFrames", () => {
+    /** Recording started at 1000s; the list was shown at 1000.5s and the detail screen opened at 1003s */
+    const timeline = {
+        recordingStart: 1000,
+        steps: [
+            { title: "Open detail screen", time: 1003 },
+            { title: "Show list", time: 1000.5 },
+        ],
+    };
+
+    async function extracted(times: number[]): Promise<FakeEnv> {
+        const env = createFakeEnv();
+        env.executor.replay(...fakeFrameExtraction(env.fs, 6, times));
+        await extractFramesFromVideo(VIDEO, FRAMES_DIR, env);
+        return env;
+    }
+
+    it("labels each frame with the step running when it was shown and flags the frame at failure", async () => {
+        const env = await extracted([0, 1.2, 3.5, 5.5]);
+        const { failureFrame } = annotateFrames(FRAMES_DIR, { ...timeline, failureTime: 1004.1 }, env);
+
+        assert.equal(failureFrame, "frame_0003_3.500s.jpg");
+        assert.deepEqual(readIndex(env).frames, [
+            { file: "frame_0001_0.000s.jpg", time: 0 },
+            { file: "frame_0002_1.200s.jpg", time: 1.2, step: "Show list" },
+            { file: "frame_0003_3.500s.jpg", time: 3.5, step: "Open detail screen", failure: true },
+            { file: "frame_0004_5.500s.jpg", time: 5.5, step: "Open detail screen" },
+        ]);
+    });
+
+    it("flags the first frame when the test failed before it was shown, and none when it passed", async () => {
+        const env = await extracted([0.5, 2]);
+        assert.deepEqual(annotateFrames(FRAMES_DIR, { ...timeline, failureTime: 1000.1 }, env), {
+            failureFrame: "frame_0001_0.500s.jpg",
+        });
+        assert.deepEqual(annotateFrames(FRAMES_DIR, timeline, env), { failureFrame: undefined });
+        assert.ok(readIndex(env).frames.every((frame) => frame.failure === undefined));
+    });
+});
+
+describe("parseShowinfoTimes", () => {
+    it("reads pts_time of every frame showinfo passed", () => {
+        const stderr =
+            "Input #0, mov,mp4,m4a,3gp,3g2,mj2, from 'recording.mp4':\n" +
+            "[Parsed_showinfo_2 @ 0x600000d4c000] n:   0 pts:      0 pts_time:0       duration:512\n" +
+            "[Parsed_showinfo_2 @ 0x600000d4c000] n:   1 pts: 136704 pts_time:8.9     duration:512\n";
+        assert.deepEqual(parseShowinfoTimes(stderr), [0, 8.9]);
+    });
+});
+
+describe("frameOptions", () => {
+    it("reads positive integers and rejects anything else", () => {
+        assert.deepEqual(frameOptions("12", "640"), { ok: true, frames: { maxFrames: 12, width: 640 } });
+        assert.deepEqual(frameOptions(undefined, undefined), { ok: true, frames: {} });
+        assert.deepEqual(frameOptions("0", undefined), {
+            ok: false,
+            message: "Invalid arguments:\n  - --max-frames: must be a positive integer",
+        });
+    });
+});
@@ -0,0 +1,228 @@
+/**
+ * Turns a test's screen recording into still frames that can be inspected
+ * without a video player: a frame each time the screen changes, a contact
+ * sheet of those frames and a frames.json index with their timestamps and,
+ * when the platform reported them, the test step each frame shows.
+ */
+
+import { join } from "path";
+import { nodeEnv, type RunnerEnv } from "./env";
+
+const DEFAULT_MAX_FRAMES = 20;
+const DEFAULT_FRAME_WIDTH = 320;
+const CONTACT_SHEET_COLUMNS = 5;
+
+export const CONTACT_SHEET_FILE = "contact-sheet.jpg";
+export const FRAMES_INDEX_FILE = "frames.json";
+
+/** How many frames to keep per recording and how wide they are */
+export type FrameOptions = {
+    /** Default 20; recordings with more changes are thinned out evenly, keeping the first and last frame */
+    maxFrames?: number;
+    /** Width in pixels, height follows the aspect ratio; default 320 */
+    width?: number;
+};
+
+/** One extracted frame */
+export type FrameEntry = {
+    /** File name in the frames folder, e.g. "frame_0003_4.250s.jpg" */
+    file: string;
+    /** Seconds from the start of the recording */
+    time: number;
+    /** Title of the test step that was running when the frame was shown */
+    step?: string;
+    /** Set on the frame that was on screen when the test failed */
+    failure?: boolean;
+};
+
+/** A test step, e.g. an XCUIElement action or a step marker the test logged */
+export type TestStep = {
+    title: string;
+    /** Seconds since 1970 */
+    time: number;
+};
+
+/** When a test's recording started and what the test did meanwhile, all on the device clock */
+export type TestTimeline = {
+    /** Seconds since 1970 */
+    recordingStart: number;
+    /** In the order they started */
+    steps: TestStep[];
+    /** Seconds since 1970, when the test failed */
+    failureTime?: number;
+};
+
+/** Contents of frames.json in each frames folder */
+export type FramesIndex = {
+    /** Length of the recording in seconds, when ffprobe could tell */
+    duration?: number;
+    width: number;
+    /** File name of the contact sheet; missing when it could not be made */
+    contactSheet?: string;
+    frames: FrameEntry[];
+};
+
+export const FRAMES_USAGE =
+    "Frame options:\n" +
+    `  --max-frames <n>      Most frames kept per test recording (default: ${DEFAULT_MAX_FRAMES})\n` +
+    `  --frame-width <px>    Width of extracted frames in pixels (default: ${DEFAULT_FRAME_WIDTH})\n`;
+
+/**
+ * Validate --max-frames/--frame-width values collected by a runner's parseArgs.
+ * Returns the options (empty when neither was given) or an error message.
+ */
+export function frameOptions(
+    maxFrames: string | undefined,
+    width: string | undefined
+): { ok: true; frames: FrameOptions } | { ok: false; message: string } {
+    const frames: FrameOptions = {};
+    for (const [name, value] of [
+        ["--max-frames", maxFrames],
+        ["--frame-width", width],
+    ] as const) {
+        if (value === undefined) continue;
+        const number = Number(value);
+        if (!Number.isInteger(number) || number <= 0) {
+            return { ok: false, message: `Invalid arguments:\n  - ${name}: must be a positive integer` };
+        }
+        if (name === "--max-frames") frames.maxFrames = number;
+        else frames.width = number;
+    }
+    return { ok: true, frames };
+}
+
+/**
+ * Presentation times of the frames ffmpeg's showinfo filter passed, in output
+ * order, from lines like "[Parsed_showinfo_2 @ 0x...] n:   3 pts: 127 pts_time:4.25 ...".
+ */
+export function parseShowinfoTimes(stderr: string): number[] {
+    const times: number[] = [];
+    for (const match of stderr.matchAll(/\bn:\s*\d+\s+pts:\s*-?\d+\s+pts_time:(-?[\d.]+)/g)) {
+        times.push(parseFloat(match[1]));
+    }
+    return times;
+}
+
+/** At most max indexes below count, spread evenly and always keeping the first and last */
+function spreadIndexes(count: number, max: number): number[] {
+    if (count <= max) return Array.from({ length: count }, (_, i) => i);
+    if (max === 1) return [0];
+    return Array.from({ length: max }, (_, i) => Math.round((i * (count - 1)) / (max - 1)));
+}
+
+function frameFileName(index: number, time: number): string {
+    return `frame_${String(index).padStart(4, "0")}_${time.toFixed(3)}s.jpg`;
+}
+
+/**
+ * Extract the frames where the screen changes from a screen recording into
+ * framesDir, replacing frames of an earlier run, and write the contact sheet
+ * and frames.json next to them. Caller is responsible for deleting the video file.
+ */
+export async function extractFramesFromVideo(
+    localScreenRecordPath: string,
+    framesDir: string,
+    env: RunnerEnv = nodeEnv,
+    options: FrameOptions = {}
+): Promise<{ frameCount: number }> {
+    const { executor, fs } = env;
+    const maxFrames = options.maxFrames ?? DEFAULT_MAX_FRAMES;
+    const width = options.width ?? DEFAULT_FRAME_WIDTH;
+    fs.remove(framesDir);
+    fs.mkdir(framesDir, { recursive: true });
+
+    let duration: number | undefined;
+    try {
+        const { stdout: durationStr } = await executor.exec(
+            `ffprobe -v error -show_entries format=duration -of default=noprint_wrappers=1:nokey=1 "${localScreenRecordPath}"`
+        );
+        const seconds = parseFloat(durationStr.trim());
+        if (seconds > 0) duration = seconds;
+    } catch {
+        // ignore ffprobe errors
+    }
+
+    // mpdecimate drops frames that barely differ from the last one kept: a static
+    // screen gives one frame however long it shows, a tap or transition gives new ones
+    const { stderr } = await executor.exec(
+        `ffmpeg -i "${localScreenRecordPath}" -vf "scale=${width}:-1,mpdecimate,showinfo" -vsync vfr -q:v 6 ` +
+            `"${join(framesDir, "extract_%04d.jpg")}"`,
+        { maxBuffer: 16 * 1024 * 1024 }
+    );
+    const times = parseShowinfoTimes(stderr);
+    const extracted = fs
+        .readdir(framesDir)
+        .filter((file) => file.startsWith("extract_") && file.endsWith(".jpg"))
+        .sort();
+
+    const kept = new Set(spreadIndexes(extracted.length, maxFrames));
+    const frames: FrameEntry[] = [];
+    extracted.forEach((file, i) => {
+        const path = join(framesDir, file);
+        if (!kept.has(i)) {
+            fs.remove(path);
+            return;
+        }
+        const time = times[i] ?? 0;
+        const name = frameFileName(frames.length + 1, time);
+        fs.rename(path, join(framesDir, name));
+        frames.push({ file: name, time });
+    });
+
+    let contactSheet: string | undefined;
+    if (frames.length > 0) {
+        // The concat demuxer reads the frames in order; paths in the list are relative to it
+        const listPath = join(framesDir, "contact-sheet.txt");
+        fs.writeFile(listPath, frames.map((frame) => `file '${frame.file}'\n`).join(""));
+        const columns = Math.min(frames.length, CONTACT_SHEET_COLUMNS);
+        const rows = Math.ceil(frames.length / columns);
+        try {
+            await executor.exec(
+                `ffmpeg -f concat -safe 0 -i "${listPath}" -vf "tile=${columns}x${rows}:padding=4:margin=4:color=white" ` +
+                    `-frames:v 1 -q:v 4 -y "${join(framesDir, CONTACT_SHEET_FILE)}"`
+            );
+            contactSheet = CONTACT_SHEET_FILE;
+        } catch {
+            // The frames are still there to look at one by one
+        } finally {
+            fs.remove(listPath);
+        }
+    }
+
+    const index: FramesIndex = { duration, width, contactSheet, frames };
+    fs.writeFile(join(framesDir, FRAMES_INDEX_FILE), `${JSON.stringify(index, null, 2)}\n`);
+
+    return { frameCount: frames.length };
+}
+
+/**
+ * Annotate the frames in framesDir's frames.json with the step that was
+ * running when each was shown, and flag the last frame shown before the test
+ * failed (the first frame when it failed before anything was shown). Returns
+ * the file name of that frame.
+ */
+export function annotateFrames(
+    framesDir: string,
+    timeline: TestTimeline,
+    env: RunnerEnv = nodeEnv
+): { failureFrame?: string } {
+    const { fs } = env;
+    const indexPath = join(framesDir, FRAMES_INDEX_FILE);
+    const index = JSON.parse(fs.readFile(indexPath)) as FramesIndex;
+    const steps = [...timeline.steps].sort((a, b) => a.time - b.time);
+
+    let failureFrame: FrameEntry | undefined;
+    for (const frame of index.frames) {
+        const shownAt = timeline.recordingStart + frame.time;
+        const step = steps.filter((candidate) => candidate.time <= shownAt).pop();
+        frame.step = step?.title;
+        delete frame.failure;
+        if (timeline.failureTime !== undefined && (shownAt <= timeline.failureTime || !failureFrame)) {
+            failureFrame = frame;
+        }
+    }
+    if (failureFrame) failureFrame.failure = true;
+
+    fs.writeFile(indexPath, `${JSON.stringify(index, null, 2)}\n`);
+    return { failureFrame: failureFrame?.file };
+}
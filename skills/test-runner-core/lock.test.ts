@@ -0,0 +1,68 @@
+/**
+ * Tests for lock.ts on a fake environment: acquiring, waiting on a held lock,
+ * taking over stale locks and releasing on exit.
+ *
+ * Usage: npx tsx --test lock.test.ts
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createFakeEnv } from "./fake-env";
+import { acquireDeviceLock, releaseDeviceLocks } from "./lock";
+
+const LOCK_DIR = "/tmp/pistachio-device-lock-emulator-5554";
+
+describe("acquireDeviceLock", () => {
+    it("writes its PID into the lock and removes the lock on release", async () => {
+        const env = createFakeEnv();
+        const { release } = await acquireDeviceLock("emulator-5554", { env });
+        assert.equal(env.fs.readFile(`${LOCK_DIR}/pid`), "4242");
+        release();
+        assert.equal(env.fs.exists(LOCK_DIR), false);
+    });
+
+    it("times out while another running process holds the lock", async () => {
+        const env = createFakeEnv();
+        env.fs.mkdir(LOCK_DIR);
+        env.fs.writeFile(`${LOCK_DIR}/pid`, "999");
+        env.executor.running.add(999);
+        await assert.rejects(acquireDeviceLock("emulator-5554", { env }), /within 30 seconds/);
+        assert.equal(env.clock.slept(), 30000);
+        assert.equal(env.fs.readFile(`${LOCK_DIR}/pid`), "999");
+    });
+
+    it("takes over the lock of a process that no longer runs", async () => {
+        const env = createFakeEnv();
+        env.fs.mkdir(LOCK_DIR);
+        env.fs.writeFile(`${LOCK_DIR}/pid`, "999");
+        const { release } = await acquireDeviceLock("emulator-5554", { env });
+        assert.ok(env.logs.includes("Removing stale device lock..."));
+        assert.equal(env.fs.readFile(`${LOCK_DIR}/pid`), "4242");
+        release();
+    });
+
+    it("treats a lock without a PID file as stale", async () => {
+        const env = createFakeEnv();
+        env.fs.mkdir(LOCK_DIR);
+        const { release } = await acquireDeviceLock("emulator-5554", { env });
+        assert.equal(env.clock.slept(), 0);
+        release();
+    });
+});
+
+describe("releaseDeviceLocks", () => {
+    it("releases every lock still held, once", async () => {
+        const env = createFakeEnv();
+        await acquireDeviceLock("emulator-5554", { env });
+        const other = await acquireDeviceLock("emulator-5556", { env });
+        releaseDeviceLocks();
+        assert.equal(env.fs.exists(LOCK_DIR), false);
+        assert.equal(env.fs.exists("/tmp/pistachio-device-lock-emulator-5556"), false);
+
+        // A later acquire of the same device must not be undone by the stale callback
+        const again = await acquireDeviceLock("emulator-5556", { env });
+        other.release();
+        assert.equal(env.fs.exists("/tmp/pistachio-device-lock-emulator-5556"), true);
+        again.release();
+    });
+});
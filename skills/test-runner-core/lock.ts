@@ -0,0 +1,96 @@
+/**
+ * Cross-process device locks: one test run per device at a time, across every
+ * runner on the machine. A lock is a directory in the temp dir holding the
+ * owner's PID; locks of dead processes are taken over.
+ */
+
+import { join } from "path";
+import { nodeEnv, type RunnerEnv } from "./env";
+
+const LOCK_TIMEOUT_MS = 30000;
+const LOCK_POLL_INTERVAL_MS = 1000;
+
+/** Release callbacks of the device locks this process currently holds */
+const heldDeviceLocks = new Set<() => void>();
+
+/**
+ * Release every device lock this process still holds (for exit and signal handlers).
+ */
+export function releaseDeviceLocks(): void {
+    for (const release of [...heldDeviceLocks]) release();
+}
+
+/**
+ * Acquire a device lock to prevent concurrent use. Returns a release callback.
+ * Throws on timeout or non-EEXIST mkdir errors.
+ */
+export async function acquireDeviceLock(
+    deviceId: string,
+    options?: { timeoutMs?: number; pollIntervalMs?: number; env?: RunnerEnv }
+): Promise<{ release: () => void }> {
+    const timeoutMs = options?.timeoutMs ?? LOCK_TIMEOUT_MS;
+    const pollIntervalMs = options?.pollIntervalMs ?? LOCK_POLL_INTERVAL_MS;
+    const env = options?.env ?? nodeEnv;
+    const { fs, clock, logger, executor } = env;
+    const lockDir = join(env.tmpDir, `pistachio-device-lock-${deviceId}`);
+    const lockPidFile = join(lockDir, "pid");
+    let acquired = false;
+
+    const release = (): void => {
+        if (!acquired) return;
+        heldDeviceLocks.delete(release);
+        try {
+            if (fs.exists(lockDir)) {
+                fs.remove(lockDir);
+                logger.log("✓ Device lock released");
+            }
+        } catch {
+            // Ignore cleanup errors
+        } finally {
+            acquired = false;
+        }
+    };
+
+    logger.log("Acquiring device lock...");
+    const lockStartTime = clock.now();
+
+    while (!acquired) {
+        if (clock.now() - lockStartTime >= timeoutMs) {
+            throw new Error(`Failed to acquire device lock within ${timeoutMs / 1000} seconds. Please try again later.`);
+        }
+
+        try {
+            fs.mkdir(lockDir);
+            fs.writeFile(lockPidFile, env.pid.toString());
+            acquired = true;
+            heldDeviceLocks.add(release);
+            logger.log("✓ Device lock acquired");
+        } catch (err: unknown) {
+            if (err && typeof err === "object" && "code" in err && (err as NodeJS.ErrnoException).code === "EEXIST") {
+                let stale: boolean;
+                try {
+                    const lockedPid = parseInt(fs.readFile(lockPidFile), 10);
+                    stale = !Number.isNaN(lockedPid) && !executor.isRunning(lockedPid);
+                } catch {
+                    stale = true;
+                }
+                if (!stale) {
+                    await clock.sleep(pollIntervalMs);
+                } else {
+                    // PID file missing or process no longer exists
+                    logger.log("Removing stale device lock...");
+                    try {
+                        fs.remove(lockDir);
+                    } catch {
+                        // Ignore
+                    }
+                }
+            } else {
+                const errorMessage = err instanceof Error ? err.message : String(err);
+                throw new Error(`Error acquiring device lock: ${errorMessage}`);
+            }
+        }
+    }
+
+    return { release };
+}
@@ -0,0 +1,43 @@
+/**
+ * Tests for processes.ts on a fake environment: stopping tracked processes on
+ * interrupt and leaving untracked ones alone.
+ *
+ * Usage: npx tsx --test processes.test.ts
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createFakeEnv } from "./fake-env";
+import { stopTrackedProcesses, trackProcess, untrackProcess } from "./processes";
+
+describe("stopTrackedProcesses", () => {
+    it("sends SIGTERM to every tracked process, once", () => {
+        const env = createFakeEnv();
+        env.executor.replay({ match: "emulator" });
+        const first = env.executor.start("emulator", ["-avd", "Pixel_8_API_34"], () => {});
+        const second = env.executor.start("emulator", ["-avd", "Pixel_6_API_30"], () => {});
+        assert.ok(first !== undefined && second !== undefined);
+
+        trackProcess(first, env);
+        trackProcess(second, env);
+        stopTrackedProcesses();
+        stopTrackedProcesses();
+
+        assert.deepEqual(env.executor.signals, [`SIGTERM ${first}`, `SIGTERM ${second}`]);
+        assert.equal(env.executor.isRunning(first), false);
+    });
+
+    it("leaves untracked processes running", () => {
+        const env = createFakeEnv();
+        env.executor.replay({ match: "emulator" });
+        const pid = env.executor.start("emulator", ["-avd", "Pixel_8_API_34"], () => {});
+        assert.ok(pid !== undefined);
+
+        trackProcess(pid, env);
+        untrackProcess(pid);
+        stopTrackedProcesses();
+
+        assert.deepEqual(env.executor.signals, []);
+        assert.equal(env.executor.isRunning(pid), true);
+    });
+});
@@ -0,0 +1,34 @@
+/**
+ * Processes a run starts that must not outlive it when interrupted, such as an
+ * emulator booted for the tests. The CLI stops them on SIGINT and SIGTERM;
+ * drivers stop them earlier when asked to.
+ */
+
+import { nodeEnv, type RunnerEnv } from "./env";
+
+/** Stop callbacks of the tracked processes, by PID */
+const trackedProcesses = new Map<number, () => void>();
+
+/**
+ * Track a process from executor.start until untrackProcess or stopTrackedProcesses.
+ */
+export function trackProcess(pid: number, env: RunnerEnv = nodeEnv): void {
+    trackedProcesses.set(pid, () => {
+        env.executor.kill(pid, "SIGTERM");
+    });
+}
+
+export function untrackProcess(pid: number): void {
+    trackedProcesses.delete(pid);
+}
+
+/**
+ * Send SIGTERM to every tracked process (for signal handlers). Synchronous, so
+ * it does not wait for them to exit.
+ */
+export function stopTrackedProcesses(): void {
+    for (const [pid, stop] of [...trackedProcesses]) {
+        trackedProcesses.delete(pid);
+        stop();
+    }
+}
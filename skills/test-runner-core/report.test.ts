@@ -0,0 +1,201 @@
+/**
+ * Tests for report.ts: option validation and the JUnit, JSON and Markdown
+ * renderings of one sample run.
+ *
+ * Usage: npx tsx --test report.test.ts
+ */
+
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { excerpt, renderJunit, renderMarkdown, reportOptions, type TestReport, writeReport } from "./report";
+
+function sampleReport(framesRoot: string): TestReport {
+    return {
+        platform: "android",
+        success: false,
+        createdAt: "2026-01-05T10:00:00.000Z",
+        devices: [
+            {
+                name: "emulator-5554",
+                os: "Android 14 (API 34)",
+                success: false,
+                tests: [
+                    {
+                        className: "com.example.ListScreenTest",
+                        name: "scrollsList",
+                        status: "failed",
+                        durationMs: 7314,
+                        failures: [
+                            {
+                                message: "java.lang.AssertionError: expected <Mona & Lisa>",
+                                details: "\tat com.example.ListScreenTest.scrollsList(ListScreenTest.kt:42)",
+                            },
+                        ],
+                        framesDir: join(framesRoot, "frames_scrollsList"),
+                        frameCount: 7,
+                        failureFrame: "frame_0006_5.600s.jpg",
+                    },
+                    {
+                        className: "com.example.ListScreenTest",
+                        name: "opensDetail",
+                        status: "skipped",
+                        failures: [{ message: "got: <false>, expected: is <true>" }],
+                        frameCount: 0,
+                    },
+                ],
+                log: { title: "Logcat errors", text: "E/AndroidRuntime: FATAL EXCEPTION: main" },
+                crashes: [
+                    {
+                        kind: "crash",
+                        process: "com.example",
+                        pid: 4312,
+                        type: "java.lang.IllegalStateException",
+                        message: "Museum object 42 not found",
+                        frames: ["com.example.MuseumRepository.getObject(MuseumRepository.kt:31)"],
+                    },
+                    {
+                        kind: "anr",
+                        process: "com.example",
+                        message: "Input dispatching timed out",
+                        frames: [],
+                        file: join(framesRoot, "logs_emulator-5554", "anr_2026-01-05-10-01-51-633"),
+                    },
+                ],
+                logsDir: join(framesRoot, "logs_emulator-5554"),
+            },
+            {
+                name: "R58M123ABC",
+                success: false,
+                error: "Failed to install debug APK: INSTALL_FAILED_INSUFFICIENT_STORAGE",
+                tests: [],
+            },
+        ],
+    };
+}
+
+describe("reportOptions", () => {
+    it("accepts a format with an output path and nothing at all", () => {
+        assert.deepEqual(reportOptions("junit", "out/report.xml"), {
+            ok: true,
+            report: { format: "junit", out: "out/report.xml" },
+        });
+        assert.deepEqual(reportOptions(undefined, undefined), { ok: true });
+    });
+
+    it("rejects unknown formats and a format or path on its own", () => {
+        assert.equal(reportOptions("html", "report.html").ok, false);
+        assert.equal(reportOptions("json", undefined).ok, false);
+        assert.equal(reportOptions(undefined, "report.json").ok, false);
+    });
+});
+
+describe("renderJunit", () => {
+    const xml = renderJunit(sampleReport("frames"));
+
+    it("counts tests per device and overall", () => {
+        assert.match(xml, /<testsuites name="android" tests="3" failures="1" errors="1" skipped="1" time="7\.314"/);
+        assert.match(xml, /<testsuite name="emulator-5554 \(Android 14 \(API 34\)\)" tests="2" failures="1"/);
+    });
+
+    it("escapes failure messages and keeps the stack trace", () => {
+        assert.match(xml, /<failure message="java\.lang\.AssertionError: expected &lt;Mona &amp; Lisa&gt;">/);
+        assert.match(xml, /ListScreenTest\.kt:42\)<\/failure>/);
+    });
+
+    it("reports a device that could not run as an erroring setup test", () => {
+        assert.match(
+            xml,
+            /<testcase classname="R58M123ABC" name="setup" time="0\.000">\n\s+<error message="Failed to install debug APK/
+        );
+    });
+
+    it("links frames and carries the device log and crashes", () => {
+        assert.match(xml, /<system-out>\[\[ATTACHMENT\|frames\/frames_scrollsList\]\]<\/system-out>/);
+        assert.match(
+            xml,
+            new RegExp(
+                "<system-err>Logcat errors:\nE/AndroidRuntime: FATAL EXCEPTION: main\n\n" +
+                    "Crash in com\\.example \\(pid 4312\\): java\\.lang\\.IllegalStateException: Museum object 42 not found\n" +
+                    "    at com\\.example\\.MuseumRepository\\.getObject\\(MuseumRepository\\.kt:31\\)\n\n" +
+                    "ANR in com\\.example: Input dispatching timed out\n" +
+                    "    \\(frames/logs_emulator-5554/anr_2026-01-05-10-01-51-633\\)</system-err>"
+            )
+        );
+        assert.match(xml, /<skipped message="got: &lt;false&gt;, expected: is &lt;true&gt;"\/>/);
+    });
+});
+
+describe("renderMarkdown", () => {
+    const markdown = renderMarkdown(sampleReport("frames"));
+
+    it("summarizes devices and lists tests with frame links", () => {
+        assert.match(markdown, /^# Android test report: ✗ FAILED/);
+        assert.match(markdown, /\| emulator-5554 \| Android 14 \(API 34\) \| 0 \| 1 \| 1 \| ✗ \|/);
+        assert.match(
+            markdown,
+            /\| `com\.example\.ListScreenTest\.scrollsList` \| ✗ failed \| 7\.3s \| \[7 frames\]\(frames\/frames_scrollsList\/\) \|/
+        );
+    });
+
+    it("shows failures with the frame at failure, device errors, crashes and logs", () => {
+        assert.match(markdown, /### ✗ com\.example\.ListScreenTest\.scrollsList\n\n```text\njava\.lang\.AssertionError/);
+        assert.match(
+            markdown,
+            /Frame at failure: \[frame_0006_5\.600s\.jpg\]\(frames\/frames_scrollsList\/frame_0006_5\.600s\.jpg\)/
+        );
+        assert.match(markdown, /\*\*Error:\*\* Failed to install debug APK/);
+        assert.match(markdown, /### Logcat errors\n\n```text\nE\/AndroidRuntime/);
+        assert.match(markdown, /### Crashes\n\n```text\nCrash in com\.example \(pid 4312\)/);
+        assert.match(markdown, /Device logs: \[frames\/logs_emulator-5554\]\(frames\/logs_emulator-5554\/\)/);
+    });
+});
+
+describe("writeReport", () => {
+    it("writes frame folders, log folders and crash files relative to the report", () => {
+        const dir = mkdtempSync(join(tmpdir(), "report-test-"));
+        try {
+            const out = writeReport(sampleReport(join(dir, "project")), {
+                format: "json",
+                out: join(dir, "reports", "android.json"),
+            });
+            const report = JSON.parse(readFileSync(out, "utf8")) as TestReport;
+            assert.equal(report.devices[0].tests[0].framesDir, "../project/frames_scrollsList");
+            assert.equal(report.devices[0].logsDir, "../project/logs_emulator-5554");
+            assert.equal(
+                report.devices[0].crashes?.[1].file,
+                "../project/logs_emulator-5554/anr_2026-01-05-10-01-51-633"
+            );
+            assert.equal(report.devices[0].os, "Android 14 (API 34)");
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it("takes relative folders from the working directory", () => {
+        const dir = mkdtempSync(join(tmpdir(), "report-test-"));
+        const cwd = process.cwd();
+        try {
+            process.chdir(dir);
+            const out = writeReport(sampleReport("project"), { format: "markdown", out: join("reports", "android.md") });
+            const markdown = readFileSync(out, "utf8");
+            assert.match(markdown, /\(\.\.\/project\/frames_scrollsList\/\)/);
+            assert.match(markdown, /Device logs: \[\.\.\/project\/logs_emulator-5554\]/);
+        } finally {
+            process.chdir(cwd);
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
+
+describe("excerpt", () => {
+    it("keeps the last lines of long logs", () => {
+        const text = Array.from({ length: 60 }, (_, i) => `line ${i + 1}`).join("\n");
+        const lines = excerpt(text, 10)?.split("\n") ?? [];
+        assert.equal(lines[0], "... (50 earlier lines omitted)");
+        assert.equal(lines[10], "line 60");
+        assert.equal(excerpt("  \n"), undefined);
+    });
+});
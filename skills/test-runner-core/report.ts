@@ -0,0 +1,335 @@
+/**
+ * Machine-readable reports for the Android and iOS test runners. Both runners
+ * map their results onto TestReport, which renders as JUnit XML (CI test
+ * dashboards), JSON (bots and scripts) or Markdown (PR comments).
+ */
+
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname, relative, resolve } from "path";
+
+export type ReportFormat = "junit" | "json" | "markdown";
+
+export const REPORT_FORMATS: readonly ReportFormat[] = ["junit", "json", "markdown"];
+
+/** Lines kept from logs (logcat errors, build output, activity logs) */
+const EXCERPT_MAX_LINES = 50;
+
+/** Outcome of one test, normalized across platforms */
+export type ReportTestStatus = "passed" | "failed" | "error" | "skipped";
+
+export type ReportFailure = {
+    message: string;
+    file?: string;
+    line?: number;
+    /** Stack trace or other detail beyond the message */
+    details?: string;
+};
+
+/** An app crash, hang or kill found in the device's logs */
+export type ReportCrash = {
+    kind: "crash" | "native-crash" | "anr" | "killed";
+    process: string;
+    pid?: number;
+    /**
+     * Exception class or signal, e.g. "java.lang.IllegalStateException", "SIGSEGV" or
+     * "EXC_BAD_ACCESS (SIGSEGV)"; missing for ANRs and kills
+     */
+    type?: string;
+    message: string;
+    /** Top stack frames in the app's own code, or the top of the stack when none are */
+    frames: string[];
+    /** Seconds since 1970 */
+    time?: number;
+    /** Tombstone, ANR trace or crash report copied from the device */
+    file?: string;
+};
+
+export type ReportTestCase = {
+    className: string;
+    name: string;
+    status: ReportTestStatus;
+    durationMs?: number;
+    failures: ReportFailure[];
+    /** Extracted frames; absolute in runner results, relative to the report file once written */
+    framesDir?: string;
+    frameCount: number;
+    /** File name in framesDir of the frame on screen when the test failed */
+    failureFrame?: string;
+    /** Excerpt of what the test logged (instrumentation stream, activity log) */
+    log?: string;
+};
+
+export type ReportDevice = {
+    /** Serial or simulator name */
+    name: string;
+    /** e.g. "Android 14 (API 34)" or "iOS 18.1" */
+    os?: string;
+    success: boolean;
+    /** Why the run could not complete on this device (boot, install, build, ...) */
+    error?: string;
+    tests: ReportTestCase[];
+    /** Excerpt of the device-level log, e.g. logcat errors or build errors */
+    log?: { title: string; text: string };
+    /** Crashes, ANRs and kills of the app during the run */
+    crashes?: ReportCrash[];
+    /** Folder with the app's full device log and the crash files; absolute in runner results, relative once written */
+    logsDir?: string;
+};
+
+/** Common report schema of both test runners */
+export type TestReport = {
+    platform: "android" | "ios";
+    success: boolean;
+    /** ISO 8601 time the report was created */
+    createdAt: string;
+    devices: ReportDevice[];
+};
+
+/** Where and how the CLI writes its report */
+export type ReportOptions = { format: ReportFormat; out: string };
+
+export const REPORT_USAGE =
+    "Report options:\n" +
+    "  --report <format>     Also write a report: junit, json or markdown\n" +
+    "  --out <path>          File to write the report to (required with --report)\n";
+
+/**
+ * Validate --report/--out values collected by a runner's parseArgs. Returns the
+ * options, undefined when neither was given, or an error message.
+ */
+export function reportOptions(
+    format: string | undefined,
+    out: string | undefined
+): { ok: true; report?: ReportOptions } | { ok: false; message: string } {
+    if (format === undefined && out === undefined) return { ok: true };
+    if (format === undefined) {
+        return { ok: false, message: "Invalid arguments:\n  - --out: requires --report" };
+    }
+    if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+        return { ok: false, message: `Invalid arguments:\n  - --report: must be one of ${REPORT_FORMATS.join(", ")}` };
+    }
+    if (out === undefined) {
+        return { ok: false, message: "Invalid arguments:\n  - --report: requires --out <path>" };
+    }
+    return { ok: true, report: { format: format as ReportFormat, out } };
+}
+
+/** Last lines of a log, marked as cut when longer than the limit */
+export function excerpt(text: string, maxLines = EXCERPT_MAX_LINES): string | undefined {
+    const lines = text.trimEnd().split("\n");
+    if (lines.length === 1 && lines[0].trim() === "") return undefined;
+    if (lines.length <= maxLines) return lines.join("\n");
+    return [`... (${lines.length - maxLines} earlier lines omitted)`, ...lines.slice(-maxLines)].join("\n");
+}
+
+const CRASH_TITLE: Record<ReportCrash["kind"], string> = {
+    crash: "Crash",
+    "native-crash": "Native crash",
+    anr: "ANR",
+    killed: "Killed",
+};
+
+/** "Crash in com.example (pid 4312): java.lang.IllegalStateException: boom" and the frames below it */
+export function crashText(crash: ReportCrash): string {
+    const pid = crash.pid !== undefined ? ` (pid ${crash.pid})` : "";
+    const cause = crash.type ? [crash.type, crash.message].filter(Boolean).join(": ") : crash.message;
+    return [
+        `${CRASH_TITLE[crash.kind]} in ${crash.process}${pid}: ${cause}`,
+        ...crash.frames.map((frame) => `    at ${frame}`),
+        ...(crash.file ? [`    (${crash.file})`] : []),
+    ].join("\n");
+}
+
+function count(tests: ReportTestCase[], status: ReportTestStatus): number {
+    return tests.filter((test) => test.status === status).length;
+}
+
+function deviceTitle(device: ReportDevice): string {
+    return device.os ? `${device.name} (${device.os})` : device.name;
+}
+
+function seconds(durationMs: number | undefined): string {
+    return ((durationMs ?? 0) / 1000).toFixed(3);
+}
+
+function failureText(failure: ReportFailure): string {
+    const location = failure.file ? `${failure.file}${failure.line !== undefined ? `:${failure.line}` : ""}: ` : "";
+    return `${location}${failure.message}`;
+}
+
+// --- JUnit XML ---
+
+function xmlEscape(text: string): string {
+    return (
+        text
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/"/g, "&quot;")
+            // Control characters other than tab and newlines are not allowed in XML 1.0
+            .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    );
+}
+
+function junitTestCase(test: ReportTestCase): string[] {
+    const lines = [
+        `    <testcase classname="${xmlEscape(test.className)}" name="${xmlEscape(test.name)}" time="${seconds(test.durationMs)}">`,
+    ];
+    const element = test.status === "error" ? "error" : "failure";
+    if (test.status === "failed" || test.status === "error") {
+        const failures = test.failures.length > 0 ? test.failures : [{ message: test.status }];
+        for (const failure of failures) {
+            const body = [failureText(failure), failure.details].filter(Boolean).join("\n");
+            lines.push(`      <${element} message="${xmlEscape(failure.message)}">${xmlEscape(body)}</${element}>`);
+        }
+    } else if (test.status === "skipped") {
+        const reason = test.failures[0]?.message;
+        lines.push(reason ? `      <skipped message="${xmlEscape(reason)}"/>` : "      <skipped/>");
+    }
+    // [[ATTACHMENT|path]] is picked up by Jenkins and GitLab to link test artifacts
+    const out = [test.framesDir ? `[[ATTACHMENT|${test.framesDir}]]` : undefined, test.log].filter(Boolean).join("\n");
+    if (out) lines.push(`      <system-out>${xmlEscape(out)}</system-out>`);
+    lines.push("    </testcase>");
+    return lines;
+}
+
+/** A device that could not run tests shows up as one erroring test, so CI marks it red */
+function junitTests(device: ReportDevice): ReportTestCase[] {
+    if (!device.error || device.tests.length > 0) return device.tests;
+    return [{ className: device.name, name: "setup", status: "error", failures: [{ message: device.error }], frameCount: 0 }];
+}
+
+export function renderJunit(report: TestReport): string {
+    const suites = report.devices.map((device) => ({ device, tests: junitTests(device) }));
+    const all = suites.flatMap((suite) => suite.tests);
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="${report.platform}" tests="${all.length}" failures="${count(all, "failed")}" errors="${count(all, "error")}" skipped="${count(all, "skipped")}" time="${seconds(all.reduce((sum, test) => sum + (test.durationMs ?? 0), 0))}" timestamp="${report.createdAt}">`,
+    ];
+    for (const { device, tests } of suites) {
+        const time = tests.reduce((sum, test) => sum + (test.durationMs ?? 0), 0);
+        lines.push(
+            `  <testsuite name="${xmlEscape(deviceTitle(device))}" tests="${tests.length}" failures="${count(tests, "failed")}" errors="${count(tests, "error")}" skipped="${count(tests, "skipped")}" time="${seconds(time)}">`,
+            "    <properties>",
+            `      <property name="platform" value="${report.platform}"/>`,
+            `      <property name="device" value="${xmlEscape(device.name)}"/>`
+        );
+        if (device.os) lines.push(`      <property name="os" value="${xmlEscape(device.os)}"/>`);
+        lines.push("    </properties>");
+        for (const test of tests) lines.push(...junitTestCase(test));
+        const errors = [
+            device.log ? `${device.log.title}:\n${device.log.text}` : undefined,
+            ...(device.crashes ?? []).map(crashText),
+        ].filter(Boolean);
+        if (errors.length > 0) lines.push(`    <system-err>${xmlEscape(errors.join("\n\n"))}</system-err>`);
+        lines.push("  </testsuite>");
+    }
+    lines.push("</testsuites>");
+    return lines.join("\n") + "\n";
+}
+
+// --- Markdown ---
+
+const STATUS_MARK: Record<ReportTestStatus, string> = {
+    passed: "✓",
+    failed: "✗",
+    error: "✗",
+    skipped: "-",
+};
+
+function mdCell(text: string): string {
+    return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+/** Fenced block that cannot be closed early by backticks in the text */
+function mdCode(text: string): string {
+    const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+    const fence = "`".repeat(longest + 1);
+    return `${fence}text\n${text}\n${fence}`;
+}
+
+export function renderMarkdown(report: TestReport): string {
+    const platform = report.platform === "android" ? "Android" : "iOS";
+    const lines = [`# ${platform} test report: ${report.success ? "✓ PASSED" : "✗ FAILED"}`, ""];
+    lines.push("| Device | OS | Passed | Failed | Skipped | Result |", "| --- | --- | --- | --- | --- | --- |");
+    for (const device of report.devices) {
+        const failed = count(device.tests, "failed") + count(device.tests, "error");
+        lines.push(
+            `| ${mdCell(device.name)} | ${mdCell(device.os ?? "")} | ${count(device.tests, "passed")} | ${failed} | ${count(device.tests, "skipped")} | ${device.success ? "✓" : "✗"} |`
+        );
+    }
+
+    for (const device of report.devices) {
+        lines.push("", `## ${deviceTitle(device)}`, "");
+        if (device.error) lines.push(`**Error:** ${device.error}`, "");
+        if (device.tests.length > 0) {
+            lines.push("| Test | Status | Duration | Frames |", "| --- | --- | --- | --- |");
+            for (const test of device.tests) {
+                const duration = test.durationMs !== undefined ? `${(test.durationMs / 1000).toFixed(1)}s` : "";
+                const frames = test.framesDir ? `[${test.frameCount} frames](${encodeURI(test.framesDir)}/)` : "";
+                lines.push(
+                    `| \`${mdCell(`${test.className}.${test.name}`)}\` | ${STATUS_MARK[test.status]} ${test.status} | ${duration} | ${frames} |`
+                );
+            }
+        }
+
+        const failing = device.tests.filter((test) => test.status === "failed" || test.status === "error");
+        for (const test of failing) {
+            lines.push("", `### ✗ ${test.className}.${test.name}`, "");
+            for (const failure of test.failures) {
+                lines.push(mdCode([failureText(failure), failure.details].filter(Boolean).join("\n")));
+            }
+            if (test.framesDir && test.failureFrame) {
+                const frame = `${test.framesDir}/${test.failureFrame}`;
+                lines.push("", `Frame at failure: [${test.failureFrame}](${encodeURI(frame)})`);
+            }
+            if (test.log) lines.push("", "<details><summary>Log</summary>", "", mdCode(test.log), "", "</details>");
+        }
+        if (device.crashes?.length) {
+            lines.push("", "### Crashes", "", device.crashes.map((crash) => mdCode(crashText(crash))).join("\n\n"));
+        }
+        if (device.log) {
+            lines.push("", `### ${device.log.title}`, "", mdCode(device.log.text));
+        }
+        if (device.logsDir) lines.push("", `Device logs: [${device.logsDir}](${encodeURI(device.logsDir)}/)`);
+    }
+    return lines.join("\n") + "\n";
+}
+
+// --- Writing ---
+
+export function renderReport(report: TestReport, format: ReportFormat): string {
+    switch (format) {
+        case "junit":
+            return renderJunit(report);
+        case "json":
+            return JSON.stringify(report, null, 2) + "\n";
+        case "markdown":
+            return renderMarkdown(report);
+    }
+}
+
+/**
+ * Write the report to `out`, rewriting frame folders, log folders and crash
+ * files as paths relative to the report's directory so the links survive
+ * moving the report with them. Relative paths are taken from the working
+ * directory, like `out`.
+ */
+export function writeReport(report: TestReport, options: ReportOptions): string {
+    const out = resolve(options.out);
+    const base = dirname(out);
+    const relativeTo = (dir: string | undefined): string | undefined =>
+        dir ? relative(base, resolve(dir)).split("\\").join("/") || "." : dir;
+    const relativeReport: TestReport = {
+        ...report,
+        devices: report.devices.map((device) => ({
+            ...device,
+            logsDir: relativeTo(device.logsDir),
+            crashes: device.crashes?.map((crash) => ({ ...crash, file: relativeTo(crash.file) })),
+            tests: device.tests.map((test) => ({ ...test, framesDir: relativeTo(test.framesDir) })),
+        })),
+    };
+    mkdirSync(base, { recursive: true });
+    writeFileSync(out, renderReport(relativeReport, options.format));
+    return out;
+}
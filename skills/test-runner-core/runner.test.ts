@@ -0,0 +1,231 @@
+/**
+ * Tests for runner.ts with a scripted driver on a fake environment: step
+ * order, per-device failures, cleanup and frame extraction.
+ *
+ * Usage: npx tsx --test runner.test.ts
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createFakeEnv, type FakeEnv, fakeFrameDecoding, fakeFrameExtraction } from "./fake-env";
+import { type DeviceDriver, type DriverDevice, runTests, type TestCaseResult, toReport } from "./runner";
+
+type Step = "build" | "resolve" | "boot" | "install" | "run" | "collect" | "cleanup";
+
+/** Driver that records its steps and fails the steps it is told to, per device */
+function scriptedDriver(
+    deviceNames: string[],
+    fail: Partial<Record<Step, string[]>> = {}
+): DeviceDriver<DriverDevice, string> & { steps: string[] } {
+    const steps: string[] = [];
+    const step = (name: Step, device?: DriverDevice): void => {
+        steps.push(device ? `${name} ${device.name}` : name);
+        if (fail[name]?.includes(device?.name ?? "")) throw new Error(`${name} failed on ${device?.name}`);
+    };
+    return {
+        platform: "android",
+        steps,
+        async build() {
+            step("build");
+        },
+        async resolveDevices() {
+            step("resolve");
+            return deviceNames.map((name) => ({ id: name, name }));
+        },
+        async boot(device) {
+            step("boot", device);
+            return "Android 14 (API 34)";
+        },
+        async install(device) {
+            step("install", device);
+        },
+        async run(device) {
+            step("run", device);
+            const test: TestCaseResult<string> = {
+                id: "com.example.ListTest#scrolls",
+                className: "com.example.ListTest",
+                name: "scrolls",
+                status: "passed",
+                failures: [],
+                frameCount: 0,
+                record: "scrolls",
+            };
+            return { success: true, output: "OK (1 test)", tests: [test] };
+        },
+        async collectVideos(device, run) {
+            step("collect", device);
+            return new Map(run.tests.map((test) => [test, `/tmp/${device.name}_${test.name}.mp4`]));
+        },
+        async cleanup(device) {
+            steps.push(`cleanup ${device.name}`);
+        },
+    };
+}
+
+/** ffprobe and ffmpeg answering for a 3 second video, writing three frames */
+function fakeFfmpeg(env: FakeEnv): void {
+    env.executor.replay(...fakeFrameExtraction(env.fs, 3, [0, 1.2, 2.5]));
+}
+
+describe("runTests", () => {
+    it("builds once, then boots, installs, runs, collects and cleans up each device", async () => {
+        const env = createFakeEnv();
+        fakeFfmpeg(env);
+        const driver = scriptedDriver(["emulator-5554"]);
+        const result = await runTests(driver, { outputDir: "/project", env });
+
+        assert.deepEqual(driver.steps, [
+            "build",
+            "resolve",
+            "boot emulator-5554",
+            "install emulator-5554",
+            "run emulator-5554",
+            "collect emulator-5554",
+            "cleanup emulator-5554",
+        ]);
+        assert.equal(result.success, true);
+        assert.equal(result.devices[0].os, "Android 14 (API 34)");
+        assert.equal(result.frameCount, 3);
+        assert.equal(result.framesDir, "/project/frames_scrolls");
+        assert.ok(env.logs.includes("Step 1: Building..."));
+    });
+
+    it("reports a failed install for that device, still cleans up and releases its lock", async () => {
+        const env = createFakeEnv();
+        fakeFfmpeg(env);
+        const driver = scriptedDriver(["emulator-5554", "R58M123ABC"], { install: ["R58M123ABC"] });
+        const result = await runTests(driver, { outputDir: "/project", env });
+
+        assert.equal(result.success, false);
+        const [emulator, phone] = result.devices;
+        assert.equal(emulator.success, true);
+        assert.equal(phone.success, false);
+        assert.equal(phone.error, "install failed on R58M123ABC");
+        assert.ok(!driver.steps.includes("run R58M123ABC"));
+        assert.ok(driver.steps.includes("cleanup R58M123ABC"));
+        assert.equal(env.fs.exists("/tmp/pistachio-device-lock-R58M123ABC"), false);
+        assert.ok(env.logs.includes("[R58M123ABC] ✗ install failed on R58M123ABC"));
+    });
+
+    it("suffixes frame folders with the device when running on several", async () => {
+        const env = createFakeEnv();
+        fakeFfmpeg(env);
+        const result = await runTests(scriptedDriver(["emulator-5554", "emulator-5556"]), {
+            outputDir: "/project",
+            env,
+        });
+        assert.deepEqual(
+            result.devices.map((device) => device.framesDir),
+            ["/project/frames_scrolls_emulator-5554", "/project/frames_scrolls_emulator-5556"]
+        );
+    });
+
+    it("does not touch a device whose lock another process holds", async () => {
+        const env = createFakeEnv();
+        env.fs.mkdir("/tmp/pistachio-device-lock-emulator-5554");
+        env.fs.writeFile("/tmp/pistachio-device-lock-emulator-5554/pid", "999");
+        env.executor.running.add(999);
+        const driver = scriptedDriver(["emulator-5554"]);
+        const result = await runTests(driver, { outputDir: "/project", env });
+
+        assert.match(result.devices[0].error ?? "", /Failed to acquire device lock/);
+        assert.deepEqual(driver.steps, ["build", "resolve"]);
+    });
+
+    it("stops before any device when the build fails", async () => {
+        const env = createFakeEnv();
+        const driver = scriptedDriver(["emulator-5554"], { build: [""] });
+        await assert.rejects(runTests(driver, { outputDir: "/project", env }), /build failed/);
+        assert.deepEqual(driver.steps, ["build"]);
+    });
+});
+
+describe("runTests with visual regression checks", () => {
+    const BASELINE = "/project/visual-baselines/emulator-5554_Android_14_API_34/com.example.ListTest_scrolls";
+    /** A 4x4 frame in one grey level */
+    const frame = (level: number): string => String.fromCharCode(level).repeat(16);
+
+    function recordingEnv(frames: string[]): FakeEnv {
+        const env = createFakeEnv();
+        env.executor.replay(...fakeFrameDecoding(env.fs), ...fakeFrameExtraction(env.fs, 3, [0, 1.2], frames));
+        return env;
+    }
+
+    it("records baselines per device profile, then passes a run that matches them", async () => {
+        const env = recordingEnv([frame(40), frame(200)]);
+        const recorded = await runTests(scriptedDriver(["emulator-5554"]), {
+            outputDir: "/project",
+            frames: { width: 4 },
+            visual: { mode: "record" },
+            env,
+        });
+        assert.equal(recorded.devices[0].tests[0].visual?.status, "recorded");
+        assert.ok(env.fs.exists(`${BASELINE}/frames.json`));
+
+        const compared = await runTests(scriptedDriver(["emulator-5554"]), {
+            outputDir: "/project",
+            frames: { width: 4 },
+            visual: { mode: "compare" },
+            env,
+        });
+        assert.equal(compared.success, true);
+        assert.equal(compared.devices[0].tests[0].visual?.status, "passed");
+    });
+
+    it("fails a passing test whose frames differ from its baseline", async () => {
+        const env = recordingEnv([frame(40), frame(120)]);
+        env.fs.mkdir(BASELINE, { recursive: true });
+        env.fs.writeFile(`${BASELINE}/frame_0001_0.000s.jpg`, frame(40));
+        env.fs.writeFile(`${BASELINE}/frame_0002_1.200s.jpg`, frame(200));
+        env.fs.writeFile(
+            `${BASELINE}/frames.json`,
+            JSON.stringify({
+                width: 4,
+                frames: [
+                    { file: "frame_0001_0.000s.jpg", time: 0 },
+                    { file: "frame_0002_1.200s.jpg", time: 1.2 },
+                ],
+            })
+        );
+        const result = await runTests(scriptedDriver(["emulator-5554"]), {
+            outputDir: "/project",
+            frames: { width: 4 },
+            visual: { mode: "compare" },
+            env,
+        });
+
+        assert.equal(result.success, false);
+        const [test] = result.devices[0].tests;
+        assert.equal(test.status, "failed");
+        assert.equal(test.failures[0].message, `Visual regression: 1 difference from the baseline in ${BASELINE}`);
+        assert.match(test.failures[0].details ?? "", /^frame_0002_1\.200s\.jpg: 100\.00% of pixels differ/);
+    });
+
+    it("fails without running anything when no device is resolved", async () => {
+        const env = createFakeEnv();
+        const driver = scriptedDriver([]);
+        await assert.rejects(runTests(driver, { outputDir: "/project", env }), /No device to run the tests on/);
+        assert.deepEqual(driver.steps, ["build", "resolve"]);
+    });
+});
+
+describe("toReport", () => {
+    it("keeps devices, statuses and frames", async () => {
+        const env = createFakeEnv();
+        fakeFfmpeg(env);
+        const report = toReport(await runTests(scriptedDriver(["emulator-5554"]), { outputDir: "/project", env }), env);
+        assert.equal(report.platform, "android");
+        assert.equal(report.createdAt, new Date(env.clock.now()).toISOString());
+        assert.deepEqual(report.devices[0].tests[0], {
+            className: "com.example.ListTest",
+            name: "scrolls",
+            status: "passed",
+            durationMs: undefined,
+            failures: [],
+            framesDir: "/project/frames_scrolls",
+            frameCount: 3,
+            failureFrame: undefined,
+            log: undefined,
+        });
+    });
+});
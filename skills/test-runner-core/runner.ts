@@ -0,0 +1,364 @@
+/**
+ * Platform-independent test run: build once, then on every device in parallel
+ * take the device lock, boot, install, run, turn each test's video into
+ * frames and clean up. Platforms plug in through DeviceDriver.
+ */
+
+import { join } from "path";
+import { nodeEnv, type RunnerEnv } from "./env";
+import { annotateFrames, extractFramesFromVideo, type FrameOptions, type TestTimeline } from "./frames";
+import { acquireDeviceLock } from "./lock";
+import { type ReportCrash, type ReportFailure, type ReportTestStatus, type TestReport } from "./report";
+import { baselineKey, compareWithBaseline, recordBaseline, type VisualOptions, type VisualResult } from "./visual";
+
+export type Log = (message: string) => void;
+
+/** A device a driver can run tests on; `id` keys the device lock */
+export type DriverDevice = {
+    id: string;
+    /** Serial or simulator name, for logs and reports */
+    name: string;
+    /** What kind of device this is, shown when devices are resolved */
+    description?: string;
+    /** Stable name of the device model for visual baselines, e.g. the AVD; name when unset */
+    profile?: string;
+};
+
+/** One test's outcome on one device; `record` keeps the platform's own data */
+export type TestCaseResult<TRecord> = {
+    /** Identifier as the platform prints it, e.g. "com.example.ListTest#scrolls" */
+    id: string;
+    className: string;
+    name: string;
+    status: ReportTestStatus;
+    durationMs?: number;
+    failures: ReportFailure[];
+    /** Excerpt of what the test logged (instrumentation stream, activity log) */
+    log?: string;
+    /** Step and failure times to annotate the frames with, when the platform recorded them */
+    timeline?: TestTimeline;
+    frameCount: number;
+    framesDir?: string;
+    /** File name in framesDir of the frame on screen when the test failed */
+    failureFrame?: string;
+    /** Verdict of the frames against the test's baseline, when recording or comparing */
+    visual?: VisualResult;
+    record: TRecord;
+};
+
+/** What a driver's run step found out */
+export type DriverRun<TRecord> = {
+    success: boolean;
+    output: string;
+    tests: TestCaseResult<TRecord>[];
+    /** Why the run did not complete (crash, build failure, ...) */
+    error?: string;
+    /** Device-level log excerpt worth reporting, e.g. logcat errors or build errors */
+    log?: { title: string; text: string };
+    /** Crashes, ANRs and kills of the app the device logged during the run */
+    crashes?: ReportCrash[];
+    /** Folder the driver wrote the app's full device log and crash files to */
+    logsDir?: string;
+};
+
+/**
+ * What a platform provides to run tests. Steps throw on failure; the runner
+ * reports the error for that device and still calls cleanup.
+ */
+export interface DeviceDriver<TDevice extends DriverDevice, TRecord> {
+    readonly platform: "android" | "ios";
+    /** Build the app and tests once, before any device is used */
+    build?(log: Log): Promise<void>;
+    /** Devices to run on; throws when a requested device does not exist */
+    resolveDevices(): Promise<TDevice[]>;
+    /** Boot the device if needed and wait until it is usable; returns its OS, e.g. "iOS 18.1" */
+    boot(device: TDevice, log: Log): Promise<string | undefined>;
+    install?(device: TDevice, log: Log): Promise<void>;
+    run(device: TDevice, log: Log): Promise<DriverRun<TRecord>>;
+    /** Local video file of each test that recorded one; files are the driver's to delete in cleanup */
+    collectVideos(device: TDevice, run: DriverRun<TRecord>, log: Log): Promise<Map<TestCaseResult<TRecord>, string>>;
+    /** Uninstall and remove temporary files; must not throw */
+    cleanup(device: TDevice, log: Log): Promise<void>;
+}
+
+/** Outcome of the test run on one device */
+export type DeviceResult<TRecord> = {
+    id: string;
+    name: string;
+    os?: string;
+    success: boolean;
+    output: string;
+    tests: TestCaseResult<TRecord>[];
+    /** Frames over all tests; framesDir is the first test's folder */
+    frameCount: number;
+    framesDir?: string;
+    log?: { title: string; text: string };
+    crashes?: ReportCrash[];
+    logsDir?: string;
+    /** Set when the run could not complete on this device (boot, install, ...) */
+    error?: string;
+};
+
+/**
+ * Result of a test run. The top-level fields summarize all devices;
+ * `devices` has one entry per device.
+ */
+export type RunResult<TRecord> = {
+    platform: "android" | "ios";
+    success: boolean;
+    output: string;
+    frameCount: number;
+    framesDir?: string;
+    devices: DeviceResult<TRecord>[];
+};
+
+export type RunOptions = {
+    /** Directory the frames_<test> folders are written to */
+    outputDir: string;
+    /** How many frames to extract per test and how large */
+    frames?: FrameOptions;
+    /** Record the frames as baselines or compare them with the baselines */
+    visual?: VisualOptions;
+    /** Commands, clock, files and logging; nodeEnv unless testing */
+    env?: RunnerEnv;
+};
+
+/**
+ * Extract frames from each test's video into frames_<test><suffix> and
+ * annotate them with the test's timeline. Tests sharing a method name across
+ * classes get the class name in their folder.
+ */
+async function extractTestFrames<TRecord>(
+    tests: TestCaseResult<TRecord>[],
+    videos: Map<TestCaseResult<TRecord>, string>,
+    outputDir: string,
+    fileSuffix: string,
+    frameOptions: FrameOptions,
+    env: RunnerEnv,
+    log: Log
+): Promise<void> {
+    const nameCounts = new Map<string, number>();
+    for (const test of tests) nameCounts.set(test.name, (nameCounts.get(test.name) ?? 0) + 1);
+    for (const test of tests) {
+        const video = videos.get(test);
+        if (!video) continue;
+        const simpleClass = test.className.slice(test.className.lastIndexOf(".") + 1);
+        const name = (nameCounts.get(test.name) ?? 0) > 1 ? `${simpleClass}_${test.name}` : test.name;
+        const framesDir = join(outputDir, `frames_${name}${fileSuffix}`);
+        try {
+            const frames = await extractFramesFromVideo(video, framesDir, env, frameOptions);
+            test.frameCount = frames.frameCount;
+            test.framesDir = framesDir;
+            if (test.timeline && frames.frameCount > 0) {
+                test.failureFrame = annotateFrames(framesDir, test.timeline, env).failureFrame;
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            log(`Could not extract frames for ${test.id}: ${errorMessage}`);
+        }
+    }
+}
+
+/**
+ * Record or compare each test's frames against its baseline in
+ * <baselineDir>/<profile>_<os>/<test id>. A failed comparison fails the test
+ * with one failure listing what differs.
+ */
+async function checkTestVisuals<TRecord>(
+    tests: TestCaseResult<TRecord>[],
+    profile: string,
+    options: VisualOptions,
+    outputDir: string,
+    env: RunnerEnv,
+    log: Log
+): Promise<void> {
+    const root = options.baselineDir ?? join(outputDir, "visual-baselines");
+    for (const test of tests) {
+        if (!test.framesDir || test.frameCount === 0) continue;
+        const baselineDir = join(root, baselineKey(profile), baselineKey(test.id));
+        try {
+            if (options.mode === "record") {
+                if (test.status !== "passed") {
+                    log(`Not recording a baseline for ${test.id}: ${test.status}`);
+                    continue;
+                }
+                test.visual = recordBaseline(test.framesDir, baselineDir, env);
+                log(`✓ Baseline recorded for ${test.id}`);
+                continue;
+            }
+
+            const visual = await compareWithBaseline(test.framesDir, baselineDir, options, env);
+            test.visual = visual;
+            if (visual.status === "no-baseline") {
+                log(`No baseline for ${test.id} in ${baselineDir}; record one with --baseline`);
+            } else if (visual.status === "failed") {
+                const count = visual.mismatches.length;
+                const differences = `${count} difference${count === 1 ? "" : "s"}`;
+                const message = `Visual regression: ${differences} from the baseline in ${baselineDir}`;
+                log(`✗ ${test.id}: ${message}`);
+                if (test.status === "passed") test.status = "failed";
+                test.failures.push({
+                    message,
+                    details: visual.mismatches
+                        .map((m) => `${m.frame ?? m.baseline}: ${m.reason}${m.diffImage ? ` (${m.diffImage})` : ""}`)
+                        .join("\n"),
+                });
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            log(`Could not check the frames of ${test.id} against the baseline: ${errorMessage}`);
+        }
+    }
+}
+
+/**
+ * Run the tests on one device. The device lock is held for the whole run.
+ * Never throws; failures are reported in the result.
+ */
+async function runOnDevice<TDevice extends DriverDevice, TRecord>(
+    driver: DeviceDriver<TDevice, TRecord>,
+    device: TDevice,
+    outputDir: string,
+    fileSuffix: string,
+    frameOptions: FrameOptions,
+    visual: VisualOptions | undefined,
+    env: RunnerEnv,
+    log: Log
+): Promise<DeviceResult<TRecord>> {
+    const result: DeviceResult<TRecord> = {
+        id: device.id,
+        name: device.name,
+        success: false,
+        output: "",
+        tests: [],
+        frameCount: 0,
+    };
+
+    let release: (() => void) | undefined;
+    try {
+        release = (await acquireDeviceLock(device.id, { env })).release;
+        result.os = await driver.boot(device, log);
+        await driver.install?.(device, log);
+
+        const run = await driver.run(device, log);
+        result.output = run.output;
+        result.tests = run.tests;
+        result.log = run.log;
+        result.crashes = run.crashes;
+        result.logsDir = run.logsDir;
+        result.error = run.error;
+        for (const test of run.tests) {
+            const duration = test.durationMs !== undefined ? ` (${(test.durationMs / 1000).toFixed(1)}s)` : "";
+            const mark = test.status === "passed" ? "✓" : test.status === "skipped" ? "-" : "✗";
+            log(`${mark} ${test.id}: ${test.status}${duration}`);
+        }
+
+        const videos = await driver.collectVideos(device, run, log);
+        if (videos.size > 0) log("Extracting frames from videos...");
+        await extractTestFrames(run.tests, videos, outputDir, fileSuffix, frameOptions, env, log);
+        result.frameCount = run.tests.reduce((sum, test) => sum + test.frameCount, 0);
+        result.framesDir = run.tests.find((test) => test.framesDir)?.framesDir;
+        if (visual) {
+            const model = device.profile ?? device.name;
+            const profile = result.os ? `${model}_${result.os}` : model;
+            await checkTestVisuals(run.tests, profile, visual, outputDir, env, log);
+        }
+        result.success = run.success && !run.tests.some((test) => test.visual?.status === "failed");
+    } catch (error) {
+        result.success = false;
+        result.error = error instanceof Error ? error.message : String(error);
+        log(`✗ ${result.error}`);
+    } finally {
+        if (release) {
+            log("Cleaning up...");
+            await driver.cleanup(device, log);
+            release();
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Build, resolve devices and run on all of them in parallel. Throws when the
+ * build fails or no device can be resolved; per-device failures are reported
+ * in the result. With several devices, log lines are prefixed and frame
+ * folders suffixed with the device name.
+ */
+export async function runTests<TDevice extends DriverDevice, TRecord>(
+    driver: DeviceDriver<TDevice, TRecord>,
+    options: RunOptions
+): Promise<RunResult<TRecord>> {
+    const env = options.env ?? nodeEnv;
+    const { logger } = env;
+    let step = 1;
+    if (driver.build) {
+        logger.log(`Step ${step++}: Building...`);
+        await driver.build((message) => logger.log(message));
+    }
+
+    logger.log(`Step ${step++}: Resolving devices...`);
+    const devices = await driver.resolveDevices();
+    if (devices.length === 0) {
+        throw new Error("No device to run the tests on");
+    }
+    for (const device of devices) {
+        logger.log(`  ${device.name}${device.description ? ` (${device.description})` : ""}`);
+    }
+
+    logger.log(`Step ${step++}: Running on ${devices.length} device${devices.length === 1 ? "" : "s"}...`);
+    const multiple = devices.length > 1;
+    const results = await Promise.all(
+        devices.map((device) =>
+            runOnDevice(
+                driver,
+                device,
+                options.outputDir,
+                multiple ? `_${device.name.replace(/[^\w.-]/g, "_")}` : "",
+                options.frames ?? {},
+                options.visual,
+                env,
+                (message) => logger.log(multiple ? `[${device.name}] ${message}` : message)
+            )
+        )
+    );
+
+    const section = (r: DeviceResult<TRecord>, text: string): string => (multiple ? `=== ${r.name} ===\n${text}` : text);
+    return {
+        platform: driver.platform,
+        success: results.every((r) => r.success),
+        output: results.map((r) => section(r, r.error ? `${r.error}\n${r.output}`.trim() : r.output)).join("\n"),
+        frameCount: results.reduce((sum, r) => sum + r.frameCount, 0),
+        framesDir: results.find((r) => r.framesDir)?.framesDir,
+        devices: results,
+    };
+}
+
+/** Map a run onto the common report schema, dated by the env's clock */
+export function toReport<TRecord>(result: RunResult<TRecord>, env: RunnerEnv = nodeEnv): TestReport {
+    return {
+        platform: result.platform,
+        success: result.success,
+        createdAt: new Date(env.clock.now()).toISOString(),
+        devices: result.devices.map((device) => ({
+            name: device.name,
+            os: device.os,
+            success: device.success,
+            error: device.error,
+            tests: device.tests.map((test) => ({
+                className: test.className,
+                name: test.name,
+                status: test.status,
+                durationMs: test.durationMs,
+                failures: test.failures,
+                framesDir: test.framesDir,
+                frameCount: test.frameCount,
+                failureFrame: test.failureFrame,
+                log: test.log,
+            })),
+            log: device.log,
+            crashes: device.crashes,
+            logsDir: device.logsDir,
+        })),
+    };
+}
@@ -0,0 +1,188 @@
+/**
+ * Tests for visual.ts: perceptual hashes and pixel diffs on small greyscale
+ * images, and recording and comparing baselines on a fake environment whose
+ * frames are pixel strings (see fakeFrameDecoding).
+ *
+ * Usage: npx tsx --test visual.test.ts
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createFakeEnv, type FakeEnv, fakeFrameDecoding } from "./fake-env";
+import type { FramesIndex } from "./frames";
+import {
+    compareWithBaseline,
+    diffPercent,
+    type GrayImage,
+    hammingDistance,
+    perceptualHash,
+    recordBaseline,
+    visualOptions,
+} from "./visual";
+
+const SIZE = 16;
+const FRAMES_DIR = "/project/frames_scrollsList";
+const BASELINE_DIR = "/project/visual-baselines/Pixel_8_API_34_Android_14_API_34/com.example.ListTest_scrollsList";
+
+function image(pixel: (x: number, y: number) => number): GrayImage {
+    const pixels = new Uint8Array(SIZE * SIZE);
+    for (let y = 0; y < SIZE; y++) for (let x = 0; x < SIZE; x++) pixels[y * SIZE + x] = pixel(x, y);
+    return { width: SIZE, height: SIZE, pixels };
+}
+
+/** The list screen: dark on the left, light on the right */
+const LIST = image((x) => x * 16);
+/** The detail screen: light on the left, dark on the right */
+const DETAIL = image((x) => 240 - x * 16);
+/** The list screen with a 2x2 block (1.6% of the pixels) changed */
+const LIST_CHANGED = image((x, y) => (x >= 4 && x < 6 && y >= 10 && y < 12 ? 255 - x * 16 : x * 16));
+
+/** A frames folder as extractFramesFromVideo leaves it, with frames as pixel strings */
+function writeFrames(env: FakeEnv, dir: string, images: GrayImage[]): void {
+    env.fs.mkdir(dir, { recursive: true });
+    const index: FramesIndex = { duration: 3, width: SIZE, contactSheet: "contact-sheet.jpg", frames: [] };
+    images.forEach((frame, i) => {
+        const file = `frame_000${i + 1}_${i}.000s.jpg`;
+        env.fs.writeFile(`${dir}/${file}`, String.fromCharCode(...frame.pixels));
+        index.frames.push({ file, time: i });
+    });
+    env.fs.writeFile(`${dir}/frames.json`, JSON.stringify(index));
+}
+
+function decodingEnv(): FakeEnv {
+    const env = createFakeEnv();
+    env.executor.replay(...fakeFrameDecoding(env.fs));
+    return env;
+}
+
+describe("perceptualHash", () => {
+    it("tells different screens apart and ignores small changes", () => {
+        assert.equal(hammingDistance(perceptualHash(LIST), perceptualHash(LIST)), 0);
+        assert.equal(hammingDistance(perceptualHash(LIST), perceptualHash(DETAIL)), 64);
+        assert.ok(hammingDistance(perceptualHash(LIST), perceptualHash(LIST_CHANGED)) <= 10);
+    });
+});
+
+describe("diffPercent", () => {
+    it("counts pixels that differ beyond JPEG noise, outside ignored regions", () => {
+        assert.equal(diffPercent(LIST, LIST_CHANGED), 1.5625);
+        assert.equal(diffPercent(LIST, image((x) => x * 16 + 10)), 0);
+        assert.equal(diffPercent(LIST, LIST_CHANGED, [{ x: 25, y: 50, width: 25, height: 50 }]), 0);
+        assert.equal(diffPercent(LIST, { width: 8, height: 8, pixels: new Uint8Array(64) }), 100);
+    });
+});
+
+describe("recordBaseline", () => {
+    it("copies the frames and their index, leaving the contact sheet with the run", () => {
+        const env = decodingEnv();
+        writeFrames(env, FRAMES_DIR, [LIST, DETAIL]);
+        env.fs.writeFile(`${FRAMES_DIR}/contact-sheet.jpg`, "jpg");
+        const result = recordBaseline(FRAMES_DIR, BASELINE_DIR, env);
+
+        assert.deepEqual(result, { status: "recorded", baselineDir: BASELINE_DIR, mismatches: [] });
+        assert.deepEqual(env.fs.readdir(BASELINE_DIR), ["frame_0001_0.000s.jpg", "frame_0002_1.000s.jpg", "frames.json"]);
+        const index = JSON.parse(env.fs.readFile(`${BASELINE_DIR}/frames.json`)) as FramesIndex;
+        assert.equal(index.contactSheet, undefined);
+        assert.equal(index.frames.length, 2);
+    });
+});
+
+describe("compareWithBaseline", () => {
+    it("passes frames that match the baseline", async () => {
+        const env = decodingEnv();
+        writeFrames(env, BASELINE_DIR, [LIST, DETAIL]);
+        writeFrames(env, FRAMES_DIR, [LIST, DETAIL]);
+        const result = await compareWithBaseline(FRAMES_DIR, BASELINE_DIR, {}, env);
+
+        assert.deepEqual(result, { status: "passed", baselineDir: BASELINE_DIR, mismatches: [] });
+        assert.deepEqual([...env.fs.dirs].filter((dir) => dir.startsWith("/tmp/")), []);
+    });
+
+    it("fails a frame that differs beyond the tolerance and draws a diff image", async () => {
+        const env = decodingEnv();
+        writeFrames(env, BASELINE_DIR, [LIST, DETAIL]);
+        writeFrames(env, FRAMES_DIR, [LIST_CHANGED, DETAIL]);
+        const result = await compareWithBaseline(FRAMES_DIR, BASELINE_DIR, {}, env);
+
+        assert.equal(result.status, "failed");
+        assert.deepEqual(result.mismatches, [
+            {
+                frame: "frame_0001_0.000s.jpg",
+                baseline: "frame_0001_0.000s.jpg",
+                diffPercent: 1.5625,
+                diffImage: `${FRAMES_DIR}/diffs/diff_frame_0001_0.000s.jpg`,
+                reason: "1.56% of pixels differ from frame_0001_0.000s.jpg (tolerance 0.5%)",
+            },
+        ]);
+        assert.ok(env.fs.exists(`${FRAMES_DIR}/diffs/diff_frame_0001_0.000s.jpg`));
+    });
+
+    it("accepts the same frame within a raised tolerance or with the change ignored", async () => {
+        const env = decodingEnv();
+        writeFrames(env, BASELINE_DIR, [LIST]);
+        writeFrames(env, FRAMES_DIR, [LIST_CHANGED]);
+
+        const tolerant = await compareWithBaseline(FRAMES_DIR, BASELINE_DIR, { tolerance: 2 }, env);
+        assert.equal(tolerant.status, "passed");
+        const ignoring = await compareWithBaseline(
+            FRAMES_DIR,
+            BASELINE_DIR,
+            { ignoreRegions: [{ x: 0, y: 50, width: 50, height: 50 }] },
+            env
+        );
+        assert.equal(ignoring.status, "passed");
+    });
+
+    it("reports screens the baseline never showed and baseline screens that were not reached", async () => {
+        const env = decodingEnv();
+        writeFrames(env, BASELINE_DIR, [LIST]);
+        writeFrames(env, FRAMES_DIR, [DETAIL]);
+        const result = await compareWithBaseline(FRAMES_DIR, BASELINE_DIR, {}, env);
+
+        assert.deepEqual(
+            result.mismatches.map((mismatch) => [mismatch.frame ?? mismatch.baseline, mismatch.reason]),
+            [
+                ["frame_0001_0.000s.jpg", "no baseline frame shows this screen"],
+                ["frame_0001_0.000s.jpg", "screen of this baseline frame was not reached"],
+            ]
+        );
+    });
+
+    it("reports a missing baseline without failing", async () => {
+        const env = decodingEnv();
+        writeFrames(env, FRAMES_DIR, [LIST]);
+        const result = await compareWithBaseline(FRAMES_DIR, BASELINE_DIR, {}, env);
+        assert.deepEqual(result, { status: "no-baseline", baselineDir: BASELINE_DIR, mismatches: [] });
+    });
+});
+
+describe("visualOptions", () => {
+    it("reads the mode, tolerance and ignore regions", () => {
+        assert.deepEqual(
+            visualOptions({ baseline: false, compare: true, tolerance: "1.5", ignoreRegions: ["0,0,100,5"] }),
+            {
+                ok: true,
+                visual: {
+                    mode: "compare",
+                    baselineDir: undefined,
+                    tolerance: 1.5,
+                    ignoreRegions: [{ x: 0, y: 0, width: 100, height: 5 }],
+                },
+            }
+        );
+        assert.deepEqual(visualOptions({ baseline: false, compare: false, ignoreRegions: [] }), { ok: true });
+    });
+
+    it("rejects conflicting modes, options without a mode and malformed regions", () => {
+        const message = (result: ReturnType<typeof visualOptions>): string => (result.ok ? "" : result.message);
+        assert.match(message(visualOptions({ baseline: true, compare: true, ignoreRegions: [] })), /cannot be combined/);
+        assert.match(
+            message(visualOptions({ baseline: false, compare: false, tolerance: "1", ignoreRegions: [] })),
+            /require --baseline or --compare/
+        );
+        assert.match(
+            message(visualOptions({ baseline: false, compare: true, ignoreRegions: ["0,0,100"] })),
+            /--ignore-region: expected x,y,w,h in percent of the frame, got 0,0,100/
+        );
+    });
+});
@@ -0,0 +1,322 @@
+/**
+ * Visual regression checks on the extracted frames. In record mode a passing
+ * test's frames become its baseline, kept per device profile (model and OS);
+ * in compare mode every frame must match a baseline frame and the other way
+ * round. Frames are paired by perceptual hash, then compared pixel by pixel
+ * outside the ignored regions. ffmpeg only decodes frames and draws the diff
+ * images; the comparison itself is plain code.
+ */
+
+import { join } from "path";
+import { nodeEnv, type RunnerEnv } from "./env";
+import { FRAMES_INDEX_FILE, type FramesIndex } from "./frames";
+
+const DEFAULT_TOLERANCE_PERCENT = 0.5;
+const DEFAULT_MAX_HASH_DISTANCE = 10;
+/** Grey levels two pixels may differ by before they count as different; absorbs JPEG noise */
+const PIXEL_THRESHOLD = 24;
+const DIFFS_DIR = "diffs";
+
+export type VisualMode = "record" | "compare";
+
+/** Area left out of comparisons, in percent of the frame's width and height */
+export type IgnoreRegion = { x: number; y: number; width: number; height: number };
+
+export type VisualOptions = {
+    mode: VisualMode;
+    /** Root of the baselines; <outputDir>/visual-baselines when unset */
+    baselineDir?: string;
+    /** Percent of pixels that may differ before a frame fails; default 0.5 */
+    tolerance?: number;
+    /** e.g. the status bar clock */
+    ignoreRegions?: IgnoreRegion[];
+    /** Bits of the 64-bit perceptual hash two frames may differ in and still show the same screen; default 10 */
+    maxHashDistance?: number;
+};
+
+/** A frame without a counterpart, or a frame pair that differs too much */
+export type VisualMismatch = {
+    /** New frame file, missing when a baseline frame was not seen in this run */
+    frame?: string;
+    /** Baseline frame file it was compared with, or that was not seen */
+    baseline?: string;
+    /** Percent of compared pixels that differ */
+    diffPercent?: number;
+    /** Side-by-side image of baseline, new frame and difference */
+    diffImage?: string;
+    reason: string;
+};
+
+/** Verdict of one test's frames against its baseline */
+export type VisualResult = {
+    status: "passed" | "failed" | "recorded" | "no-baseline";
+    /** Folder of the test's baseline */
+    baselineDir: string;
+    mismatches: VisualMismatch[];
+};
+
+/** 8-bit greyscale pixels, row by row */
+export type GrayImage = { width: number; height: number; pixels: Uint8Array };
+
+export const VISUAL_USAGE =
+    "Visual regression options:\n" +
+    "  --baseline                 Store the frames of passing tests as their approved baseline\n" +
+    "  --compare                  Compare frames with the baseline; differences fail the test\n" +
+    "  --baseline-dir <dir>       Where baselines are kept (default: <project_dir>/visual-baselines)\n" +
+    `  --tolerance <percent>      Pixels that may differ per frame (default: ${DEFAULT_TOLERANCE_PERCENT})\n` +
+    "  --ignore-region <x,y,w,h>  Area left out of comparisons, in percent of the frame; repeatable\n";
+
+/**
+ * Validate the visual regression options collected by a runner's parseArgs.
+ * Returns the options, undefined when no mode was given, or an error message.
+ */
+export function visualOptions(args: {
+    baseline: boolean;
+    compare: boolean;
+    baselineDir?: string;
+    tolerance?: string;
+    ignoreRegions: string[];
+}): { ok: true; visual?: VisualOptions } | { ok: false; message: string } {
+    if (args.baseline && args.compare) {
+        return { ok: false, message: "Invalid arguments:\n  - --baseline: cannot be combined with --compare" };
+    }
+    if (!args.baseline && !args.compare) {
+        if (args.baselineDir !== undefined || args.tolerance !== undefined || args.ignoreRegions.length > 0) {
+            return {
+                ok: false,
+                message:
+                    "Invalid arguments:\n  - --baseline-dir, --tolerance and --ignore-region require --baseline or --compare",
+            };
+        }
+        return { ok: true };
+    }
+
+    const visual: VisualOptions = { mode: args.baseline ? "record" : "compare", baselineDir: args.baselineDir };
+    if (args.tolerance !== undefined) {
+        const tolerance = Number(args.tolerance);
+        if (!Number.isFinite(tolerance) || tolerance < 0 || tolerance > 100) {
+            return { ok: false, message: "Invalid arguments:\n  - --tolerance: must be a percentage from 0 to 100" };
+        }
+        visual.tolerance = tolerance;
+    }
+    const regions: IgnoreRegion[] = [];
+    for (const value of args.ignoreRegions) {
+        const numbers = value.split(",").map((part) => Number(part.trim()));
+        if (numbers.length !== 4 || numbers.some((n) => !Number.isFinite(n) || n < 0 || n > 100)) {
+            return {
+                ok: false,
+                message: `Invalid arguments:\n  - --ignore-region: expected x,y,w,h in percent of the frame, got ${value}`,
+            };
+        }
+        const [x, y, width, height] = numbers;
+        regions.push({ x, y, width, height });
+    }
+    if (regions.length > 0) visual.ignoreRegions = regions;
+    return { ok: true, visual };
+}
+
+/** Whether a pixel lies in one of the ignored regions */
+function ignored(image: GrayImage, regions: IgnoreRegion[], x: number, y: number): boolean {
+    const px = (x / image.width) * 100;
+    const py = (y / image.height) * 100;
+    return regions.some(
+        (region) =>
+            px >= region.x && px < region.x + region.width && py >= region.y && py < region.y + region.height
+    );
+}
+
+/**
+ * 64-bit difference hash: the image shrunk to a 9x8 grid of average grey
+ * levels, one bit per horizontally adjacent pair. Ignored regions count as black,
+ * so what changes there does not change the hash.
+ */
+export function perceptualHash(image: GrayImage, regions: IgnoreRegion[] = []): bigint {
+    const columns = 9;
+    const rows = 8;
+    const grid: number[] = [];
+    for (let row = 0; row < rows; row++) {
+        const y0 = Math.floor((row * image.height) / rows);
+        const y1 = Math.max(y0 + 1, Math.floor(((row + 1) * image.height) / rows));
+        for (let column = 0; column < columns; column++) {
+            const x0 = Math.floor((column * image.width) / columns);
+            const x1 = Math.max(x0 + 1, Math.floor(((column + 1) * image.width) / columns));
+            let sum = 0;
+            for (let y = y0; y < y1; y++) {
+                for (let x = x0; x < x1; x++) {
+                    if (!ignored(image, regions, x, y)) sum += image.pixels[y * image.width + x];
+                }
+            }
+            grid.push(sum / ((y1 - y0) * (x1 - x0)));
+        }
+    }
+    let hash = 0n;
+    for (let row = 0; row < rows; row++) {
+        for (let column = 0; column < columns - 1; column++) {
+            const left = grid[row * columns + column];
+            const right = grid[row * columns + column + 1];
+            hash = (hash << 1n) | (left > right ? 1n : 0n);
+        }
+    }
+    return hash;
+}
+
+export function hammingDistance(a: bigint, b: bigint): number {
+    let distance = 0;
+    for (let bits = a ^ b; bits > 0n; bits >>= 1n) distance += Number(bits & 1n);
+    return distance;
+}
+
+/**
+ * Percent of the pixels outside the ignored regions whose grey levels differ
+ * by more than PIXEL_THRESHOLD. Images of different sizes differ entirely.
+ */
+export function diffPercent(a: GrayImage, b: GrayImage, regions: IgnoreRegion[] = []): number {
+    if (a.width !== b.width || a.height !== b.height) return 100;
+    let compared = 0;
+    let different = 0;
+    for (let y = 0; y < a.height; y++) {
+        for (let x = 0; x < a.width; x++) {
+            if (ignored(a, regions, x, y)) continue;
+            compared++;
+            const i = y * a.width + x;
+            if (Math.abs(a.pixels[i] - b.pixels[i]) > PIXEL_THRESHOLD) different++;
+        }
+    }
+    return compared === 0 ? 0 : (different / compared) * 100;
+}
+
+/** Folder name safe on every platform: "com.example.ListTest#scrolls" -> "com.example.ListTest_scrolls" */
+export function baselineKey(text: string): string {
+    return text.replace(/[^\w.-]+/g, "_").replace(/^_+|_+$/g, "");
+}
+
+function readFramesIndex(dir: string, env: RunnerEnv): FramesIndex {
+    return JSON.parse(env.fs.readFile(join(dir, FRAMES_INDEX_FILE))) as FramesIndex;
+}
+
+/**
+ * Decode the frames listed in a frames folder's index to greyscale, in one
+ * ffmpeg run writing the raw pixels of all frames back to back.
+ */
+async function decodeFrames(dir: string, index: FramesIndex, env: RunnerEnv): Promise<GrayImage[]> {
+    const { executor, fs } = env;
+    if (index.frames.length === 0) return [];
+    const tempDir = fs.mkdtemp(join(env.tmpDir, "pistachio-visual-"));
+    try {
+        // The concat demuxer reads the frames in order; -safe 0 allows their absolute paths
+        const listPath = join(tempDir, "frames.txt");
+        fs.writeFile(listPath, index.frames.map((frame) => `file '${join(dir, frame.file)}'\n`).join(""));
+        const rawPath = join(tempDir, "frames.gray");
+        await executor.exec(`ffmpeg -f concat -safe 0 -i "${listPath}" -f rawvideo -pix_fmt gray -y "${rawPath}"`);
+        const pixels = fs.readBytes(rawPath);
+        const size = pixels.length / index.frames.length;
+        const height = size / index.width;
+        if (!Number.isInteger(height) || height === 0) {
+            throw new Error(`Frames in ${dir} are not ${index.width} pixels wide`);
+        }
+        return index.frames.map((_, i) => ({
+            width: index.width,
+            height,
+            pixels: pixels.subarray(i * size, (i + 1) * size),
+        }));
+    } finally {
+        fs.remove(tempDir);
+    }
+}
+
+/** Baseline frame, new frame and their difference side by side */
+async function writeDiffImage(baseline: string, frame: string, out: string, env: RunnerEnv): Promise<boolean> {
+    try {
+        await env.executor.exec(
+            `ffmpeg -i "${baseline}" -i "${frame}" -filter_complex ` +
+                `"[0:v]split[b1][b2];[1:v]split[n1][n2];[b1][n1]blend=all_mode=difference[d];[b2][n2][d]hstack=inputs=3" ` +
+                `-frames:v 1 -q:v 4 -y "${out}"`
+        );
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Store a test's frames and their index as its baseline, replacing the old one.
+ */
+export function recordBaseline(framesDir: string, baselineDir: string, env: RunnerEnv = nodeEnv): VisualResult {
+    const { fs } = env;
+    const index = readFramesIndex(framesDir, env);
+    fs.remove(baselineDir);
+    fs.mkdir(baselineDir, { recursive: true });
+    for (const frame of index.frames) fs.copyFile(join(framesDir, frame.file), join(baselineDir, frame.file));
+    // The contact sheet stays with the run's frames
+    const baselineIndex: FramesIndex = { ...index, contactSheet: undefined };
+    fs.writeFile(join(baselineDir, FRAMES_INDEX_FILE), `${JSON.stringify(baselineIndex, null, 2)}\n`);
+    return { status: "recorded", baselineDir, mismatches: [] };
+}
+
+/**
+ * Compare a test's frames with its baseline. Each new frame is paired with
+ * the least different baseline frame whose perceptual hash is close; pairs
+ * must differ in no more than the tolerated share of pixels. A new frame without a close
+ * baseline frame is a screen the baseline never showed; a baseline frame no
+ * new frame is close to was not reached. Diff images go to <framesDir>/diffs.
+ */
+export async function compareWithBaseline(
+    framesDir: string,
+    baselineDir: string,
+    options: Pick<VisualOptions, "tolerance" | "ignoreRegions" | "maxHashDistance"> = {},
+    env: RunnerEnv = nodeEnv
+): Promise<VisualResult> {
+    const { fs } = env;
+    const tolerance = options.tolerance ?? DEFAULT_TOLERANCE_PERCENT;
+    const regions = options.ignoreRegions ?? [];
+    const maxHashDistance = options.maxHashDistance ?? DEFAULT_MAX_HASH_DISTANCE;
+    if (!fs.exists(join(baselineDir, FRAMES_INDEX_FILE))) {
+        return { status: "no-baseline", baselineDir, mismatches: [] };
+    }
+
+    const baselineIndex = readFramesIndex(baselineDir, env);
+    const index = readFramesIndex(framesDir, env);
+    const baselineImages = await decodeFrames(baselineDir, baselineIndex, env);
+    const images = await decodeFrames(framesDir, index, env);
+    const baselineHashes = baselineImages.map((image) => perceptualHash(image, regions));
+    const hashes = images.map((image) => perceptualHash(image, regions));
+
+    const mismatches: VisualMismatch[] = [];
+    for (const [i, frame] of index.frames.entries()) {
+        // Of the baseline frames showing the same screen, the one closest pixel by pixel
+        let nearest = -1;
+        let percent = Infinity;
+        baselineHashes.forEach((hash, j) => {
+            if (hammingDistance(hashes[i], hash) > maxHashDistance) return;
+            const d = diffPercent(baselineImages[j], images[i], regions);
+            if (d < percent) {
+                nearest = j;
+                percent = d;
+            }
+        });
+        if (nearest === -1) {
+            mismatches.push({ frame: frame.file, reason: "no baseline frame shows this screen" });
+            continue;
+        }
+        const baseline = baselineIndex.frames[nearest].file;
+        if (percent <= tolerance) continue;
+
+        fs.mkdir(join(framesDir, DIFFS_DIR), { recursive: true });
+        const diffImage = join(framesDir, DIFFS_DIR, `diff_${frame.file}`);
+        const written = await writeDiffImage(join(baselineDir, baseline), join(framesDir, frame.file), diffImage, env);
+        mismatches.push({
+            frame: frame.file,
+            baseline,
+            diffPercent: percent,
+            diffImage: written ? diffImage : undefined,
+            reason: `${percent.toFixed(2)}% of pixels differ from ${baseline} (tolerance ${tolerance}%)`,
+        });
+    }
+    // A baseline screen counts as reached when some new frame is within the hash distance
+    for (const [j, frame] of baselineIndex.frames.entries()) {
+        if (hashes.some((hash) => hammingDistance(hash, baselineHashes[j]) <= maxHashDistance)) continue;
+        mismatches.push({ baseline: frame.file, reason: "screen of this baseline frame was not reached" });
+    }
+
+    return { status: mismatches.length > 0 ? "failed" : "passed", baselineDir, mismatches };
+}